@@ -3,33 +3,50 @@ import React, { useState, useEffect } from 'react';
 import InstructionPanel from './components/InstructionPanel';
 import OutreachForm from './components/OutreachForm';
 import LibraryView from './components/LibraryView';
-import { Sparkles, Bookmark, LayoutGrid, PenTool } from 'lucide-react';
-import { SavedScript } from './types';
+import BulkImportPanel from './components/BulkImportPanel';
+import SettingsPanel from './components/SettingsPanel';
+import AnalyticsDashboard from './components/AnalyticsDashboard';
+import { Sparkles, Bookmark, LayoutGrid, PenTool, Layers, Settings, BarChart3, AlertTriangle, X } from 'lucide-react';
+import { SavedScript, AISettings } from './types';
+import { loadAISettings, PROVIDER_LABELS } from './services/providers';
+import { activeReferenceStore, activeTabStore, aiSettingsStore, onStorageError } from './services/storage';
+import { startSync } from './services/syncService';
+
+type AppTab = 'create' | 'bulk' | 'library' | 'analytics' | 'settings';
 
 const App: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'create' | 'library'>(() => {
-    return (localStorage.getItem('app_active_tab') as 'create' | 'library') || 'create';
+  const [activeTab, setActiveTab] = useState<AppTab>(() => {
+    return (activeTabStore.get() as AppTab) || 'create';
   });
   
-  const [selectedReference, setSelectedReference] = useState<SavedScript | null>(() => {
-    const saved = localStorage.getItem('app_active_reference');
-    return saved ? JSON.parse(saved) : null;
-  });
+  const [selectedReference, setSelectedReference] = useState<SavedScript | null>(activeReferenceStore.get);
+
+  const [aiSettings, setAISettings] = useState<AISettings>(loadAISettings);
+  const [storageError, setStorageError] = useState<string | null>(null);
 
   useEffect(() => {
-    localStorage.setItem('app_active_tab', activeTab);
+    activeTabStore.set(activeTab);
   }, [activeTab]);
 
+  // Imports and other tabs can change these underneath us.
   useEffect(() => {
-    if (selectedReference) {
-      localStorage.setItem('app_active_reference', JSON.stringify(selectedReference));
-    } else {
-      localStorage.removeItem('app_active_reference');
-    }
-  }, [selectedReference]);
+    const unsubscribers = [
+      activeReferenceStore.subscribe(setSelectedReference),
+      aiSettingsStore.subscribe(() => setAISettings(loadAISettings())),
+      onStorageError(err => setStorageError(err.message)),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, []);
+
+  // No-op until team sync is configured in settings.
+  useEffect(() => startSync(), []);
+
+  const changeReference = (script: SavedScript | null) => {
+    activeReferenceStore.set(script);
+  };
 
   const handleUseAsReference = (script: SavedScript) => {
-    setSelectedReference(script);
+    changeReference(script);
     setActiveTab('create');
   };
 
@@ -55,6 +72,14 @@ const App: React.FC = () => {
               Generator
               {activeTab === 'create' && <div className="absolute -bottom-4 left-0 w-full h-0.5 bg-indigo-500 animate-in fade-in slide-in-from-left-2" />}
             </button>
+            <button 
+              onClick={() => setActiveTab('bulk')}
+              className={`flex items-center gap-2 text-sm font-bold uppercase tracking-wider transition-all relative ${activeTab === 'bulk' ? 'text-indigo-400' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              <Layers size={18} />
+              Bulk Import
+              {activeTab === 'bulk' && <div className="absolute -bottom-4 left-0 w-full h-0.5 bg-indigo-500 animate-in fade-in slide-in-from-left-2" />}
+            </button>
             <button 
               onClick={() => setActiveTab('library')}
               className={`flex items-center gap-2 text-sm font-bold uppercase tracking-wider transition-all relative ${activeTab === 'library' ? 'text-indigo-400' : 'text-slate-500 hover:text-slate-300'}`}
@@ -63,26 +88,55 @@ const App: React.FC = () => {
               Script Library
               {activeTab === 'library' && <div className="absolute -bottom-4 left-0 w-full h-0.5 bg-indigo-500 animate-in fade-in slide-in-from-left-2" />}
             </button>
+            <button 
+              onClick={() => setActiveTab('analytics')}
+              className={`flex items-center gap-2 text-sm font-bold uppercase tracking-wider transition-all relative ${activeTab === 'analytics' ? 'text-indigo-400' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              <BarChart3 size={18} />
+              Analytics
+              {activeTab === 'analytics' && <div className="absolute -bottom-4 left-0 w-full h-0.5 bg-indigo-500 animate-in fade-in slide-in-from-left-2" />}
+            </button>
           </div>
           
-          <div className="hidden sm:flex items-center gap-3 bg-slate-900/50 px-3 py-1.5 rounded-full border border-slate-800">
-            <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></div>
-            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">AI Engine Active</span>
-          </div>
+          <button
+            onClick={() => setActiveTab('settings')}
+            title="AI Settings"
+            className={`flex shrink-0 items-center gap-3 bg-slate-900/50 px-3 py-1.5 rounded-full border transition-all ${activeTab === 'settings' ? 'border-indigo-500' : 'border-slate-800 hover:border-slate-700'}`}
+          >
+            <div className={`w-2 h-2 rounded-full animate-pulse ${aiSettings.provider === 'mock' ? 'bg-amber-400' : 'bg-green-500'}`}></div>
+            <span className="hidden sm:inline text-[10px] font-bold text-slate-400 uppercase tracking-widest">{PROVIDER_LABELS[aiSettings.provider]} Active</span>
+            <Settings size={12} className="text-slate-500" />
+          </button>
         </div>
 
+        {storageError && (
+          <div className="relative z-20 mx-8 mt-4 px-4 py-2 rounded-xl border border-red-500/40 bg-red-500/10 text-xs text-red-300 flex items-center gap-2">
+            <AlertTriangle size={14} className="shrink-0" />
+            <span className="flex-1">{storageError}</span>
+            <button onClick={() => setStorageError(null)} className="text-red-300/70 hover:text-white"><X size={14} /></button>
+          </div>
+        )}
+
         <div className="relative z-10 w-full flex-1">
           {activeTab === 'create' ? (
             <OutreachForm 
               initialReference={selectedReference} 
-              onClearReference={() => setSelectedReference(null)} 
+              onClearReference={() => changeReference(null)} 
             />
-          ) : (
+          ) : activeTab === 'library' ? (
             <LibraryView 
               onUseAsReference={handleUseAsReference}
               activeReferenceId={selectedReference?.id}
             />
-          )}
+          ) : activeTab === 'analytics' ? (
+            <AnalyticsDashboard />
+          ) : activeTab === 'settings' ? (
+            <SettingsPanel settings={aiSettings} />
+          ) : null}
+          {/* Kept mounted so a running batch survives tab switches */}
+          <div className={activeTab === 'bulk' ? '' : 'hidden'}>
+            <BulkImportPanel />
+          </div>
         </div>
       </main>
     </div>
@@ -0,0 +1,177 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { BarChart3, AlertTriangle, Send, MessageSquare, CalendarCheck, TrendingUp } from 'lucide-react';
+import { SavedScript } from '../types';
+import { libraryStore } from '../services/storage';
+import { AnalyticsDimension, groupStats, weeklyTrend, overallStats, MIN_SAMPLE } from '../services/analytics';
+
+const DIMENSIONS: { id: AnalyticsDimension; label: string }[] = [
+  { id: 'tone', label: 'Tone' },
+  { id: 'goal', label: 'Goal' },
+  { id: 'platform', label: 'Platform' },
+  { id: 'voice', label: 'Voice' },
+  { id: 'template', label: 'Template' },
+];
+
+const pct = (value: number) => `${Math.round(value * 100)}%`;
+
+const TrendChart: React.FC<{ points: ReturnType<typeof weeklyTrend> }> = ({ points }) => {
+  const width = 600;
+  const height = 160;
+  const pad = 24;
+  const maxSent = Math.max(1, ...points.map(p => p.sent));
+  const x = (idx: number) => pad + (idx * (width - pad * 2)) / Math.max(1, points.length - 1);
+  const y = (rate: number) => height - pad - rate * (height - pad * 2);
+  const line = points
+    .map((p, idx) => (p.sent ? `${x(idx)},${y(p.rate)}` : null))
+    .filter(Boolean)
+    .join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-44">
+      {[0, 0.5, 1].map(tick => (
+        <g key={tick}>
+          <line x1={pad} x2={width - pad} y1={y(tick)} y2={y(tick)} stroke="#1e293b" strokeDasharray="4 4" />
+          <text x={2} y={y(tick) + 3} fontSize="9" fill="#64748b">{pct(tick)}</text>
+        </g>
+      ))}
+      {points.map((p, idx) => (
+        <rect
+          key={p.weekStart}
+          x={x(idx) - 6}
+          width={12}
+          y={height - pad - (p.sent / maxSent) * 40}
+          height={(p.sent / maxSent) * 40}
+          fill="#334155"
+          opacity={0.6}
+        >
+          <title>{`${new Date(p.weekStart).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}: ${p.replied}/${p.sent} replied`}</title>
+        </rect>
+      ))}
+      {line && <polyline points={line} fill="none" stroke="#818cf8" strokeWidth={2} />}
+      {points.map((p, idx) => p.sent > 0 && (
+        <circle key={`pt-${p.weekStart}`} cx={x(idx)} cy={y(p.rate)} r={3} fill={p.sent < 3 ? '#64748b' : '#a78bfa'} />
+      ))}
+    </svg>
+  );
+};
+
+const AnalyticsDashboard: React.FC = () => {
+  const [scripts, setScripts] = useState<SavedScript[]>(libraryStore.get);
+  // Several dimensions at once compare combinations, e.g. tone × platform.
+  const [dimensions, setDimensions] = useState<AnalyticsDimension[]>(['tone']);
+
+  useEffect(() => libraryStore.subscribe(setScripts), []);
+
+  const overall = useMemo(() => overallStats(scripts), [scripts]);
+  const stats = useMemo(() => groupStats(scripts, dimensions), [scripts, dimensions]);
+  const isCombination = dimensions.length > 1;
+
+  // Keeps at least one dimension selected, in the order of DIMENSIONS.
+  const toggleDimension = (id: AnalyticsDimension) => {
+    setDimensions(prev => {
+      if (prev.includes(id)) return prev.length > 1 ? prev.filter(d => d !== id) : prev;
+      return DIMENSIONS.map(d => d.id).filter(d => d === id || prev.includes(d));
+    });
+  };
+  const trend = useMemo(() => weeklyTrend(scripts), [scripts]);
+
+  return (
+    <div className="max-w-6xl mx-auto p-8 animate-in fade-in slide-in-from-bottom-4 duration-500 space-y-8">
+      <div>
+        <h2 className="text-3xl font-bold text-white flex items-center gap-3">
+          <BarChart3 className="text-indigo-400" />
+          Reply <span className="gradient-text">Analytics</span>
+        </h2>
+        <p className="text-slate-400 text-sm mt-1">Which tones, goals, platforms, voices and templates, and which combinations of them, actually get replies. Based on pipeline stages in your library.</p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Sent', value: overall.sent, sub: `of ${overall.total} saved`, icon: <Send size={16} className="text-blue-400" /> },
+          { label: 'Replied', value: overall.replied, sub: pct(overall.replyRate), icon: <MessageSquare size={16} className="text-indigo-400" /> },
+          { label: 'Calls / Closed', value: overall.booked, sub: pct(overall.bookRate), icon: <CalendarCheck size={16} className="text-green-400" /> },
+          { label: 'Reply Rate', value: pct(overall.replyRate), sub: overall.sent < MIN_SAMPLE ? 'small sample' : '95% CI shown below', icon: <TrendingUp size={16} className="text-purple-400" /> },
+        ].map(card => (
+          <div key={card.label} className="glass-effect rounded-2xl p-5">
+            <div className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">{card.icon} {card.label}</div>
+            <div className="text-2xl font-black text-white">{card.value}</div>
+            <div className="text-[11px] text-slate-500">{card.sub}</div>
+          </div>
+        ))}
+      </div>
+
+      {overall.sent === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 glass-effect rounded-3xl border-dashed border-2 border-slate-800 text-center">
+          <BarChart3 size={32} className="text-slate-600 mb-4" />
+          <h3 className="text-lg font-bold text-slate-300">No outcomes yet</h3>
+          <p className="text-slate-500 text-sm mt-2 max-w-md">Move library entries to Sent, Replied or Call Booked in the pipeline view and the numbers will show up here.</p>
+        </div>
+      ) : (
+        <>
+          <div className="glass-effect rounded-2xl p-6 space-y-5">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <h3 className="text-sm font-bold text-indigo-400 uppercase tracking-widest">Reply Rate By</h3>
+                <p className="text-[10px] text-slate-500 mt-0.5">Pick more than one to compare combinations.</p>
+              </div>
+              <div className="flex gap-1 bg-slate-900 border border-slate-800 rounded-lg p-1">
+                {DIMENSIONS.map(d => (
+                  <button
+                    key={d.id}
+                    onClick={() => toggleDimension(d.id)}
+                    className={`px-3 py-1 rounded-md text-xs font-bold transition-colors ${dimensions.includes(d.id) ? 'bg-indigo-600/20 text-indigo-300' : 'text-slate-500 hover:text-slate-300'}`}
+                  >
+                    {d.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              {stats.map(stat => (
+                <div key={stat.key} className="grid grid-cols-12 items-center gap-3 text-xs">
+                  <div className={`${isCombination ? 'col-span-4' : 'col-span-3'} text-slate-200 font-semibold truncate`} title={stat.key}>{stat.key}</div>
+                  <div className={`${isCombination ? 'col-span-5' : 'col-span-6'} relative h-5 bg-slate-900 rounded-md overflow-hidden`}>
+                    <div
+                      className={`absolute inset-y-0 left-0 rounded-md ${stat.weak ? 'bg-slate-600/60' : 'bg-gradient-to-r from-indigo-500 to-purple-500'}`}
+                      style={{ width: `${stat.rate * 100}%` }}
+                    />
+                    {/* 95% confidence interval whisker */}
+                    <div
+                      className="absolute top-1/2 h-px bg-white/60"
+                      style={{ left: `${stat.low * 100}%`, width: `${(stat.high - stat.low) * 100}%` }}
+                    />
+                  </div>
+                  <div className="col-span-1 text-right text-white font-bold">{pct(stat.rate)}</div>
+                  <div className="col-span-2 text-slate-500 flex items-center gap-1.5">
+                    n={stat.sent}
+                    {stat.weak && (
+                      <span title={stat.weakReason} className="text-amber-400 flex items-center">
+                        <AlertTriangle size={12} />
+                      </span>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {stats.some(s => s.weak) && (
+              <p className="text-[11px] text-amber-400/80 flex items-start gap-2">
+                <AlertTriangle size={12} className="mt-0.5 shrink-0" />
+                Grey bars are weak comparisons: fewer than {MIN_SAMPLE} sent notes, or a difference from the rest of the library that is not statistically significant (p ≥ 0.05). Hover the warning icon for details.
+              </p>
+            )}
+          </div>
+
+          <div className="glass-effect rounded-2xl p-6 space-y-3">
+            <h3 className="text-sm font-bold text-indigo-400 uppercase tracking-widest">Weekly Trend</h3>
+            <p className="text-[11px] text-slate-500">Line: reply rate by week sent. Bars: notes sent. Grey dots have fewer than 3 notes.</p>
+            <TrendChart points={trend} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { AudioExportFormat, encodeSpeech, buildAudioFilename } from '../services/audioExport';
+import { downloadBlob } from '../services/fileService';
+
+interface AudioDownloadButtonProps {
+  // Resolves the base64 PCM to export, synthesizing it if it is not cached yet.
+  getAudio: () => Promise<string>;
+  ownerName: string;
+  businessName: string;
+  compact?: boolean;
+  onError?: (message: string) => void;
+}
+
+const FORMATS: { value: AudioExportFormat; label: string }[] = [
+  { value: 'wav', label: 'WAV' },
+  { value: 'mp3', label: 'MP3' },
+];
+
+const AudioDownloadButton: React.FC<AudioDownloadButtonProps> = ({ getAudio, ownerName, businessName, compact, onError }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: AudioExportFormat) => {
+    setIsOpen(false);
+    setIsExporting(true);
+    try {
+      const base64Audio = await getAudio();
+      const blob = await encodeSpeech(base64Audio, format);
+      downloadBlob(blob, buildAudioFilename(ownerName, businessName, format));
+    } catch (error: any) {
+      console.error("Audio export error:", error);
+      onError?.(error.message || "Audio export failed.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={isExporting}
+        title="Download audio"
+        className={compact
+          ? 'p-2 rounded-lg transition-colors text-slate-500 hover:text-indigo-400 hover:bg-indigo-500/10'
+          : 'transition-colors p-2 rounded-lg flex items-center gap-2 text-xs text-slate-400 hover:text-white hover:bg-slate-800 border border-transparent hover:border-slate-700'}
+      >
+        {isExporting ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+        {!compact && <span className="hidden sm:inline">Download audio</span>}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 z-20 bg-slate-900 border border-slate-700 rounded-lg shadow-xl overflow-hidden min-w-[110px]">
+          {FORMATS.map(f => (
+            <button
+              key={f.value}
+              onClick={() => handleExport(f.value)}
+              className="w-full text-left px-3 py-2 text-xs text-slate-300 hover:bg-indigo-500/10 hover:text-white"
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioDownloadButton;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { FileAudio, Loader2, AlertCircle } from 'lucide-react';
+import { AudioResearch } from '../types';
+import { AUDIO_UPLOAD_TYPES, MAX_AUDIO_FILE_BYTES, MAX_AUDIO_SECONDS, prepareAudioFile } from '../services/audioFiles';
+import { processAudioResearch } from '../services/geminiService';
+
+interface AudioFileUploadProps {
+  onResearched: (research: AudioResearch) => void;
+}
+
+const AudioFileUpload: React.FC<AudioFileUploadProps> = ({ onResearched }) => {
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleFile = async (file: File) => {
+    if (status) return;
+    setError(null);
+    setStatus(`Reading ${file.name}...`);
+    try {
+      const chunks = await prepareAudioFile(file);
+      setStatus(chunks.length > 1 ? `Transcribing part 1 of ${chunks.length}...` : 'AI is parsing your memo...');
+      const research = await processAudioResearch(chunks, (done, total) => {
+        setStatus(done < total ? `Transcribing part ${done + 1} of ${total}...` : 'Extracting research details...');
+      });
+      onResearched(research);
+    } catch (err: any) {
+      setError(err.message || 'Could not process that file.');
+    } finally {
+      setStatus(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label
+        onDragOver={e => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={e => {
+          e.preventDefault();
+          setIsDragging(false);
+          const file = e.dataTransfer.files?.[0];
+          if (file) handleFile(file);
+        }}
+        className={`flex items-center gap-3 px-4 py-3 rounded-xl border-2 border-dashed transition-all ${
+          status ? 'border-indigo-500/40 cursor-wait' : isDragging ? 'border-indigo-500 bg-indigo-500/10 cursor-copy' : 'border-slate-800 hover:border-indigo-500/50 cursor-pointer'
+        }`}
+      >
+        {status ? <Loader2 size={16} className="text-indigo-400 animate-spin shrink-0" /> : <FileAudio size={16} className="text-indigo-400 shrink-0" />}
+        <div className="flex-1 min-w-0">
+          <div className="text-xs font-bold text-slate-300 truncate">{status || 'Drop an existing memo or click to upload'}</div>
+          {!status && (
+            <div className="text-[10px] text-slate-500">m4a, mp3, wav or ogg · up to {MAX_AUDIO_FILE_BYTES / 1024 / 1024} MB and {MAX_AUDIO_SECONDS / 60} minutes</div>
+          )}
+        </div>
+        <input
+          type="file"
+          accept={AUDIO_UPLOAD_TYPES}
+          className="hidden"
+          disabled={!!status}
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+      </label>
+      {error && (
+        <p className="text-[11px] text-red-400 flex items-center gap-1.5"><AlertCircle size={12} /> {error}</p>
+      )}
+    </div>
+  );
+};
+
+export default AudioFileUpload;
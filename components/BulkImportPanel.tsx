@@ -0,0 +1,427 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { Upload, FileSpreadsheet, Play, Square, RotateCcw, Download, Bookmark, Check, Loader2, X, ChevronDown, ChevronUp, Layers } from 'lucide-react';
+import { generateVoiceNote } from '../services/geminiService';
+import { parseCSV, guessColumnMapping, getMissingRequiredFields, buildLeadInputs, batchResultsToCSV, CSV_FIELDS, ParsedCsv } from '../services/csvService';
+import { runBatchQueue } from '../services/batchQueue';
+import { downloadBlob, readFileAsText } from '../services/fileService';
+import { renderScript } from '../services/scriptSections';
+import { libraryStore } from '../services/storage';
+import { getGoals } from '../services/goals';
+import { BatchItem, BatchItemStatus, CsvColumnMapping, CsvField, SavedScript, ScriptLanguage, VoiceNoteInput } from '../types';
+import { PLATFORM_OPTIONS, TONE_OPTIONS, LANGUAGE_OPTIONS, SCRIPT_LANGUAGES } from '../constants';
+
+const MAX_ROWS = 500;
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  queued: 'text-slate-400 bg-slate-800/60',
+  running: 'text-indigo-300 bg-indigo-500/10',
+  done: 'text-green-400 bg-green-500/10',
+  failed: 'text-red-400 bg-red-500/10',
+};
+
+const BulkImportPanel: React.FC = () => {
+  const abortRef = useRef<AbortController | null>(null);
+
+  const [csv, setCsv] = useState<ParsedCsv | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [defaults, setDefaults] = useState<Pick<VoiceNoteInput, 'platform' | 'tone' | 'goal' | 'language'>>({
+    platform: 'Instagram',
+    tone: 'Casual',
+    goal: 'Permission to Send',
+    language: 'en',
+  });
+  const [concurrency, setConcurrency] = useState(2);
+  const [maxRetries, setMaxRetries] = useState(2);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const missingFields = useMemo(() => (mapping ? getMissingRequiredFields(mapping) : []), [mapping]);
+
+  const progress = useMemo(() => {
+    const finished = items.filter(i => i.status === 'done' || i.status === 'failed').length;
+    return {
+      finished,
+      done: items.filter(i => i.status === 'done').length,
+      failed: items.filter(i => i.status === 'failed').length,
+      percent: items.length ? Math.round((finished / items.length) * 100) : 0,
+    };
+  }, [items]);
+
+  const handleFile = async (file: File) => {
+    setErrorMessage(null);
+    try {
+      const parsed = parseCSV(await readFileAsText(file));
+      if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+        setErrorMessage('That CSV has no data rows.');
+        return;
+      }
+      if (parsed.rows.length > MAX_ROWS) {
+        setErrorMessage(`Only the first ${MAX_ROWS} rows will be imported.`);
+        parsed.rows = parsed.rows.slice(0, MAX_ROWS);
+        parsed.lines = parsed.lines.slice(0, MAX_ROWS);
+      }
+      setCsv(parsed);
+      setFileName(file.name);
+      setMapping(guessColumnMapping(parsed.headers));
+      setItems([]);
+    } catch (err: any) {
+      setErrorMessage(err.message || 'Could not read the CSV file.');
+    }
+  };
+
+  const handleBuildQueue = () => {
+    if (!csv || !mapping || missingFields.length > 0) return;
+    const inputs = buildLeadInputs(csv, mapping, defaults);
+    const now = Date.now();
+    const queued: BatchItem[] = inputs.map((input, idx) => {
+      const incomplete = !input.ownerName || !input.businessName || !input.identifiedGap || !input.freeValue;
+      return {
+        id: `${now}-${idx}`,
+        rowIndex: csv.lines[idx],
+        input,
+        status: incomplete ? 'failed' : 'queued',
+        attempts: 0,
+        error: incomplete ? 'Row is missing a required field.' : undefined,
+      };
+    });
+    setItems(queued);
+  };
+
+  const updateItem = (next: BatchItem) => {
+    setItems(prev => prev.map(i => (i.id === next.id ? { ...next, savedToLibrary: i.savedToLibrary } : i)));
+  };
+
+  const runQueue = async (targets: BatchItem[]) => {
+    if (isRunning || targets.length === 0) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    try {
+      await runBatchQueue(targets, input => generateVoiceNote(input), {
+        concurrency,
+        maxRetries,
+        signal: controller.signal,
+        onUpdate: updateItem,
+      });
+    } finally {
+      setIsRunning(false);
+      abortRef.current = null;
+    }
+  };
+
+  const handleStart = () => runQueue(items.filter(i => i.status === 'queued'));
+
+  const handleRetryFailed = () => {
+    const retryable = items
+      .filter(i => i.status === 'failed' && i.input.ownerName && i.input.businessName && i.input.identifiedGap && i.input.freeValue)
+      .map(i => ({ ...i, status: 'queued' as const, attempts: 0, error: undefined }));
+    retryable.forEach(updateItem);
+    runQueue(retryable);
+  };
+
+  const handleRetryOne = (item: BatchItem) => {
+    const reset = { ...item, status: 'queued' as const, attempts: 0, error: undefined };
+    updateItem(reset);
+    runQueue([reset]);
+  };
+
+  const handleStop = () => abortRef.current?.abort();
+
+  const saveItemsToLibrary = (targets: BatchItem[]) => {
+    const entries: SavedScript[] = targets
+      .filter(i => i.status === 'done' && i.result && !i.savedToLibrary)
+      .map((i, idx) => ({
+        id: `${Date.now()}-${idx}`,
+        title: `${i.input.ownerName} @ ${i.input.businessName}`,
+        content: renderScript(i.result!.sections),
+        sections: i.result!.sections,
+        ownerName: i.input.ownerName,
+        businessName: i.input.businessName,
+        createdAt: Date.now(),
+        voice: i.input.selectedVoice,
+        tone: i.input.tone,
+        platform: i.input.platform,
+        goal: i.input.goal,
+        language: i.input.language,
+      }));
+    if (entries.length === 0) return;
+    libraryStore.update(existing => [...entries, ...existing]);
+    const savedIds = new Set(targets.map(t => t.id));
+    setItems(prev => prev.map(i => (savedIds.has(i.id) && i.status === 'done' ? { ...i, savedToLibrary: true } : i)));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([batchResultsToCSV(items)], { type: 'text/csv;charset=utf-8' });
+    downloadBlob(blob, `voice-note-batch-${new Date().toISOString().slice(0, 10)}.csv`);
+  };
+
+  const handleReset = () => {
+    if (isRunning) return;
+    setCsv(null);
+    setMapping(null);
+    setItems([]);
+    setFileName('');
+    setErrorMessage(null);
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto p-8 animate-in fade-in slide-in-from-bottom-4 duration-500 space-y-8">
+      <div>
+        <h2 className="text-3xl font-bold text-white flex items-center gap-3">
+          <Layers className="text-indigo-400" />
+          Bulk <span className="gradient-text">Lead Import</span>
+        </h2>
+        <p className="text-slate-400 text-sm mt-1">Upload researched leads as CSV and generate a script for every row.</p>
+      </div>
+
+      {!csv ? (
+        <label
+          onDragOver={e => e.preventDefault()}
+          onDrop={e => {
+            e.preventDefault();
+            const file = e.dataTransfer.files?.[0];
+            if (file) handleFile(file);
+          }}
+          className="flex flex-col items-center justify-center py-20 glass-effect rounded-3xl border-dashed border-2 border-slate-800 hover:border-indigo-500/50 cursor-pointer transition-all"
+        >
+          <div className="w-16 h-16 bg-slate-900 rounded-full flex items-center justify-center mb-4 text-indigo-400">
+            <Upload size={28} />
+          </div>
+          <h3 className="text-lg font-bold text-slate-300">Drop a CSV or click to browse</h3>
+          <p className="text-slate-500 text-xs mt-2">Columns: ownerName, businessName, identifiedGap, freeValue (+ optional platform, tone, goal, language)</p>
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      ) : (
+        <div className="glass-effect rounded-2xl p-6 space-y-6">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-3 text-sm text-slate-300">
+              <FileSpreadsheet size={18} className="text-green-400" />
+              <span className="font-bold">{fileName}</span>
+              <span className="text-slate-500 text-xs">{csv.rows.length} rows</span>
+            </div>
+            <button onClick={handleReset} disabled={isRunning} className="text-slate-500 hover:text-white transition-colors disabled:opacity-40" title="Clear import">
+              <X size={16} />
+            </button>
+          </div>
+
+          <div>
+            <span className="text-[10px] font-bold text-indigo-400 uppercase tracking-widest block mb-3">Column Mapping</span>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              {CSV_FIELDS.map(({ field, label, required }) => (
+                <div key={field} className="space-y-1">
+                  <label className="text-[10px] font-semibold text-slate-400 uppercase">
+                    {label} {required && <span className="text-red-400">*</span>}
+                  </label>
+                  <select
+                    value={mapping?.[field] ?? ''}
+                    onChange={e => setMapping(prev => ({ ...prev!, [field as CsvField]: e.target.value || null }))}
+                    className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2 text-xs text-slate-200 focus:ring-2 focus:ring-indigo-500/50"
+                  >
+                    <option value="">{required ? '— select column —' : '— use default —'}</option>
+                    {csv.headers.map(h => (
+                      <option key={h} value={h}>{h}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4 pt-4 border-t border-slate-800">
+            <div className="space-y-1">
+              <label className="text-[10px] font-semibold text-slate-400 uppercase">Default Platform</label>
+              <select
+                value={defaults.platform}
+                onChange={e => setDefaults(d => ({ ...d, platform: e.target.value as VoiceNoteInput['platform'] }))}
+                className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2 text-xs text-slate-200"
+              >
+                {PLATFORM_OPTIONS.map(p => <option key={p} value={p}>{p}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-[10px] font-semibold text-slate-400 uppercase">Default Tone</label>
+              <select
+                value={defaults.tone}
+                onChange={e => setDefaults(d => ({ ...d, tone: e.target.value as VoiceNoteInput['tone'] }))}
+                className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2 text-xs text-slate-200"
+              >
+                {TONE_OPTIONS.map(t => <option key={t} value={t}>{t}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-[10px] font-semibold text-slate-400 uppercase">Default Goal</label>
+              <select
+                value={defaults.goal}
+                onChange={e => setDefaults(d => ({ ...d, goal: e.target.value }))}
+                className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2 text-xs text-slate-200"
+              >
+                {getGoals().map(g => <option key={g.id} value={g.name}>{g.name}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-[10px] font-semibold text-slate-400 uppercase">Default Language</label>
+              <select
+                value={defaults.language}
+                onChange={e => setDefaults(d => ({ ...d, language: e.target.value as ScriptLanguage }))}
+                className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2 text-xs text-slate-200"
+              >
+                {LANGUAGE_OPTIONS.map(l => <option key={l} value={l}>{SCRIPT_LANGUAGES[l].label}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-[10px] font-semibold text-slate-400 uppercase">Parallel Requests</label>
+              <select
+                value={concurrency}
+                onChange={e => setConcurrency(Number(e.target.value))}
+                className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2 text-xs text-slate-200"
+              >
+                {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </div>
+            <div className="space-y-1">
+              <label className="text-[10px] font-semibold text-slate-400 uppercase">Auto Retries</label>
+              <select
+                value={maxRetries}
+                onChange={e => setMaxRetries(Number(e.target.value))}
+                className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2 text-xs text-slate-200"
+              >
+                {[0, 1, 2, 3].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </div>
+          </div>
+
+          {missingFields.length > 0 && (
+            <p className="text-xs text-amber-400">Map the required columns before building the queue.</p>
+          )}
+
+          <button
+            onClick={handleBuildQueue}
+            disabled={isRunning || missingFields.length > 0}
+            className="w-full py-3 bg-slate-900 hover:bg-slate-800 border border-slate-700 disabled:opacity-40 text-white text-sm font-bold rounded-xl transition-all"
+          >
+            {items.length > 0 ? 'Rebuild Queue' : 'Build Queue'}
+          </button>
+        </div>
+      )}
+
+      {errorMessage && (
+        <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/20 rounded-lg text-red-400 text-sm">
+          <X size={16} />
+          {errorMessage}
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <div className="glass-effect rounded-2xl p-6 space-y-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="text-xs text-slate-400">
+              <span className="text-white font-bold">{progress.finished}/{items.length}</span> processed ·{' '}
+              <span className="text-green-400">{progress.done} done</span> ·{' '}
+              <span className="text-red-400">{progress.failed} failed</span>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {isRunning ? (
+                <button onClick={handleStop} className="px-3 py-2 rounded-lg text-xs font-bold flex items-center gap-2 bg-red-500/10 text-red-400 hover:bg-red-500/20">
+                  <Square size={14} /> Stop
+                </button>
+              ) : (
+                <button
+                  onClick={handleStart}
+                  disabled={!items.some(i => i.status === 'queued')}
+                  className="px-3 py-2 rounded-lg text-xs font-bold flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white disabled:bg-slate-800 disabled:text-slate-500"
+                >
+                  <Play size={14} /> Run Queue
+                </button>
+              )}
+              <button
+                onClick={handleRetryFailed}
+                disabled={isRunning || progress.failed === 0}
+                className="px-3 py-2 rounded-lg text-xs font-bold flex items-center gap-2 bg-slate-900 border border-slate-700 text-slate-300 hover:text-white disabled:opacity-40"
+              >
+                <RotateCcw size={14} /> Retry Failed
+              </button>
+              <button
+                onClick={() => saveItemsToLibrary(items)}
+                disabled={progress.done === 0}
+                className="px-3 py-2 rounded-lg text-xs font-bold flex items-center gap-2 bg-slate-900 border border-slate-700 text-slate-300 hover:text-yellow-400 disabled:opacity-40"
+              >
+                <Bookmark size={14} /> Save All
+              </button>
+              <button
+                onClick={handleExport}
+                className="px-3 py-2 rounded-lg text-xs font-bold flex items-center gap-2 bg-slate-900 border border-slate-700 text-slate-300 hover:text-white"
+              >
+                <Download size={14} /> Export CSV
+              </button>
+            </div>
+          </div>
+
+          <div className="w-full h-1.5 bg-slate-900 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 transition-all duration-500" style={{ width: `${progress.percent}%` }} />
+          </div>
+
+          <div className="divide-y divide-slate-800 border border-slate-800 rounded-xl overflow-hidden">
+            {items.map(item => (
+              <div key={item.id} className="bg-slate-950/40">
+                <div className="flex items-center gap-4 px-4 py-3 text-xs">
+                  <span className="w-8 text-slate-600 font-mono">#{item.rowIndex}</span>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-slate-200 font-bold truncate">{item.input.ownerName || '—'} @ {item.input.businessName || '—'}</div>
+                    <div className="text-slate-500 truncate">{item.error || `${item.input.platform} · ${item.input.tone} · ${item.input.goal}`}</div>
+                  </div>
+                  <span className={`px-2 py-1 rounded-md font-bold uppercase tracking-wider text-[10px] flex items-center gap-1 ${STATUS_STYLES[item.status]}`}>
+                    {item.status === 'running' && <Loader2 size={10} className="animate-spin" />}
+                    {item.status}
+                    {item.attempts > 1 && ` (${item.attempts})`}
+                  </span>
+                  <div className="flex gap-1">
+                    {item.status === 'failed' && (
+                      <button onClick={() => handleRetryOne(item)} disabled={isRunning} className="p-1.5 text-slate-500 hover:text-indigo-400 disabled:opacity-40" title="Retry">
+                        <RotateCcw size={14} />
+                      </button>
+                    )}
+                    {item.status === 'done' && (
+                      <>
+                        <button
+                          onClick={() => saveItemsToLibrary([item])}
+                          disabled={item.savedToLibrary}
+                          className={`p-1.5 ${item.savedToLibrary ? 'text-green-400' : 'text-slate-500 hover:text-yellow-400'}`}
+                          title="Save to library"
+                        >
+                          {item.savedToLibrary ? <Check size={14} /> : <Bookmark size={14} />}
+                        </button>
+                        <button onClick={() => setExpandedId(expandedId === item.id ? null : item.id)} className="p-1.5 text-slate-500 hover:text-white" title="Show script">
+                          {expandedId === item.id ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                {expandedId === item.id && item.result && (
+                  <div className="px-4 pb-4 space-y-2">
+                    <div className="p-4 bg-slate-950/60 rounded-xl border border-slate-800 text-slate-200 text-sm whitespace-pre-wrap">{renderScript(item.result.sections)}</div>
+                    <p className="text-xs text-blue-300 italic">"{item.result.followUp}"</p>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkImportPanel;
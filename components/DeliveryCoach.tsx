@@ -0,0 +1,141 @@
+import React, { useState, useEffect } from 'react';
+import { Mic2, Timer, Gauge, MessageCircleWarning, ChevronDown, ChevronUp, Sparkles, Loader2 } from 'lucide-react';
+import { DeliveryAnalysis, ScriptSection, SectionDeliveryStatus, VoiceNoteInput } from '../types';
+import { PLATFORM_PROFILES } from '../constants';
+import { analyzeDelivery } from '../services/geminiService';
+import VoiceRecorder from './VoiceRecorder';
+import { RecordedTake } from './Teleprompter';
+
+interface DeliveryCoachProps {
+  sections: ScriptSection[];
+  // A take recorded in the teleprompter; analyzed as soon as it arrives.
+  take?: RecordedTake | null;
+  // Sets the target length; the take is judged against that platform's profile.
+  platform: VoiceNoteInput['platform'];
+}
+
+// A natural conversational pace.
+const TARGET_MIN_WPM = 130;
+const TARGET_MAX_WPM = 165;
+
+const SECTION_STYLES: Record<SectionDeliveryStatus, { label: string; className: string }> = {
+  delivered: { label: 'Delivered', className: 'text-green-400 bg-green-500/10 border-green-500/20' },
+  partial: { label: 'Partial', className: 'text-amber-400 bg-amber-500/10 border-amber-500/20' },
+  skipped: { label: 'Skipped', className: 'text-red-400 bg-red-500/10 border-red-500/20' },
+  ad_libbed: { label: 'Ad-libbed', className: 'text-purple-300 bg-purple-500/10 border-purple-500/20' },
+};
+
+const rangeColor = (value: number, min: number, max: number) =>
+  value < min ? 'text-amber-400' : value > max ? 'text-red-400' : 'text-green-400';
+
+const DeliveryCoach: React.FC<DeliveryCoachProps> = ({ sections, take, platform }) => {
+  const { minSeconds, maxSeconds } = PLATFORM_PROFILES[platform];
+  const [analysis, setAnalysis] = useState<DeliveryAnalysis | null>(null);
+  const [showTranscript, setShowTranscript] = useState(false);
+  const [analyzingTake, setAnalyzingTake] = useState(false);
+  const [takeError, setTakeError] = useState<string | null>(null);
+
+  const handleRecording = async (base64: string, mimeType: string, durationSeconds: number) => {
+    setAnalysis(await analyzeDelivery(base64, mimeType, sections, durationSeconds));
+  };
+
+  useEffect(() => {
+    if (!take) return;
+    setAnalyzingTake(true);
+    setTakeError(null);
+    handleRecording(take.base64, take.mimeType, take.durationSeconds)
+      .catch((err: any) => setTakeError(err.message || "Failed to analyze the teleprompter take."))
+      .finally(() => setAnalyzingTake(false));
+  }, [take?.id]);
+
+  return (
+    <div className="glass-effect rounded-2xl p-6 space-y-5 border-emerald-500/20">
+      <h3 className="text-sm font-bold text-emerald-400 uppercase tracking-widest flex items-center gap-2">
+        <Mic2 size={16} /> Delivery Coach
+      </h3>
+
+      <VoiceRecorder
+        onAudioCaptured={handleRecording}
+        idleLabel="Record Your Take"
+        idleHint="Read the script out loud as you would send it"
+        processingHint="Comparing your take against the script..."
+      />
+
+      {analyzingTake && (
+        <p className="text-xs text-emerald-300 flex items-center gap-2">
+          <Loader2 size={14} className="animate-spin" /> Analyzing your teleprompter take...
+        </p>
+      )}
+      {takeError && <p className="text-xs text-red-400">{takeError}</p>}
+
+      {analysis && (
+        <div className="space-y-5 animate-in fade-in slide-in-from-top-2 duration-300">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="p-3 rounded-xl bg-slate-950/60 border border-slate-800">
+              <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest flex items-center gap-1.5"><Timer size={12} /> Duration</div>
+              <div className={`text-xl font-black ${rangeColor(analysis.durationSeconds, minSeconds, maxSeconds)}`}>{analysis.durationSeconds}s</div>
+              <div className="text-[10px] text-slate-500">target {minSeconds}–{maxSeconds}s</div>
+            </div>
+            <div className="p-3 rounded-xl bg-slate-950/60 border border-slate-800">
+              <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest flex items-center gap-1.5"><Gauge size={12} /> Pace</div>
+              <div className={`text-xl font-black ${rangeColor(analysis.wordsPerMinute, TARGET_MIN_WPM, TARGET_MAX_WPM)}`}>{analysis.wordsPerMinute} wpm</div>
+              <div className="text-[10px] text-slate-500">target {TARGET_MIN_WPM}–{TARGET_MAX_WPM}</div>
+            </div>
+            <div className="p-3 rounded-xl bg-slate-950/60 border border-slate-800">
+              <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest flex items-center gap-1.5"><MessageCircleWarning size={12} /> Fillers</div>
+              <div className={`text-xl font-black ${analysis.fillerWords.length === 0 ? 'text-green-400' : 'text-amber-400'}`}>
+                {analysis.fillerWords.reduce((sum, f) => sum + f.count, 0)}
+              </div>
+              <div className="text-[10px] text-slate-500 truncate">
+                {analysis.fillerWords.length ? analysis.fillerWords.map(f => `${f.word} ×${f.count}`).join(', ') : 'clean take'}
+              </div>
+            </div>
+          </div>
+
+          {analysis.summary && (
+            <p className="text-sm text-slate-300 flex items-start gap-2">
+              <Sparkles size={14} className="text-emerald-400 mt-0.5 shrink-0" /> {analysis.summary}
+            </p>
+          )}
+
+          <div className="space-y-2">
+            {analysis.sections.map((section, idx) => (
+              <div key={idx} className="p-3 rounded-xl bg-slate-950/40 border border-slate-800 space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <span className="text-[10px] font-mono text-indigo-400">{section.marker || `Section ${idx + 1}`}</span>
+                  <span className={`px-2 py-0.5 rounded-md text-[10px] font-bold uppercase tracking-wider border ${SECTION_STYLES[section.status].className}`}>
+                    {SECTION_STYLES[section.status].label}
+                  </span>
+                </div>
+                <p className="text-xs text-slate-500">{section.scriptText}</p>
+                {section.spokenText && section.status !== 'delivered' && (
+                  <p className="text-xs text-slate-200 italic">You said: "{section.spokenText}"</p>
+                )}
+                {section.note && <p className="text-[11px] text-emerald-300/80">{section.note}</p>}
+              </div>
+            ))}
+          </div>
+
+          {analysis.adLibs.length > 0 && (
+            <div className="p-3 rounded-xl bg-purple-500/5 border border-purple-500/20">
+              <span className="text-[10px] font-bold text-purple-300 uppercase tracking-widest">Off-script</span>
+              <ul className="mt-1 space-y-1 text-xs text-slate-300 list-disc list-inside">
+                {analysis.adLibs.map((line, idx) => <li key={idx}>{line}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <button
+            onClick={() => setShowTranscript(v => !v)}
+            className="text-[11px] text-slate-500 hover:text-slate-300 flex items-center gap-1"
+          >
+            {showTranscript ? <ChevronUp size={12} /> : <ChevronDown size={12} />} Transcript
+          </button>
+          {showTranscript && <p className="text-xs text-slate-400 whitespace-pre-wrap">{analysis.transcript}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeliveryCoach;
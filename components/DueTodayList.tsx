@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { CalendarCheck, Copy, Check, Send, SkipForward, ListOrdered, Mic, MessageSquare } from 'lucide-react';
+import { SavedScript } from '../types';
+import { SEQUENCE_STEP_LABELS } from '../constants';
+import { getDueSteps, markStepSent, updateStep } from '../services/sequences';
+
+interface DueTodayListProps {
+  scripts: SavedScript[];
+  onOpen: (script: SavedScript) => void;
+  onUpdate: (updated: SavedScript) => void;
+}
+
+const formatDay = (ts: number) => new Date(ts).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+/** Every lead's next sequence step that is due today or overdue, oldest first. */
+const DueTodayList: React.FC<DueTodayListProps> = ({ scripts, onOpen, onUpdate }) => {
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const due = getDueSteps(scripts);
+
+  const handleCopy = (id: string, text: string) => {
+    navigator.clipboard.writeText(text);
+    setCopiedId(id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  if (due.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-24 glass-effect rounded-3xl border-dashed border-2 border-slate-800">
+        <div className="w-16 h-16 bg-slate-900 rounded-full flex items-center justify-center mb-4 text-slate-600">
+          <CalendarCheck size={32} />
+        </div>
+        <h3 className="text-xl font-bold text-slate-300">Nothing due today</h3>
+        <p className="text-slate-500 text-sm mt-2">Build a follow-up sequence from any script card to schedule the next touches.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {due.map(({ script, step, dueAt, overdue }) => {
+        const key = `${script.id}:${step.id}`;
+        return (
+          <div key={key} className="glass-effect rounded-2xl p-5 border border-slate-800 flex flex-col md:flex-row md:items-center gap-4">
+            <div className="md:w-56 shrink-0">
+              <div className="text-white font-bold text-sm truncate">{script.ownerName} @ {script.businessName}</div>
+              <div className="flex items-center gap-1.5 text-[10px] uppercase tracking-wider mt-1">
+                {step.channel === 'voice_note' ? <Mic size={11} className="text-indigo-400" /> : <MessageSquare size={11} className="text-blue-400" />}
+                <span className="text-slate-300 font-bold">{SEQUENCE_STEP_LABELS[step.kind].label}</span>
+                <span className={overdue ? 'text-red-400 font-bold' : 'text-amber-300 font-bold'}>{overdue ? `Overdue · ${formatDay(dueAt)}` : 'Today'}</span>
+              </div>
+              {script.platform && <div className="text-[10px] text-slate-500 mt-0.5">{script.platform}</div>}
+            </div>
+
+            <p className="flex-1 text-xs text-slate-300 leading-relaxed line-clamp-3">
+              {step.content || <span className="text-slate-600">No message yet. Open the sequence to write it.</span>}
+            </p>
+
+            <div className="flex gap-1.5 shrink-0">
+              <button
+                onClick={() => handleCopy(key, step.content)}
+                disabled={!step.content}
+                title="Copy message"
+                className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-40"
+              >
+                {copiedId === key ? <Check size={14} className="text-green-400" /> : <Copy size={14} />}
+              </button>
+              <button
+                onClick={() => onOpen(script)}
+                title="Open sequence"
+                className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800"
+              >
+                <ListOrdered size={14} />
+              </button>
+              <button
+                onClick={() => onUpdate(updateStep(script, step.id, { skipped: true }))}
+                title="Skip this step"
+                className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800"
+              >
+                <SkipForward size={14} />
+              </button>
+              <button
+                onClick={() => onUpdate(markStepSent(script, step.id))}
+                disabled={!step.content}
+                className="px-3 py-2 rounded-lg text-[11px] font-bold bg-indigo-600/20 text-indigo-300 hover:bg-indigo-600/30 flex items-center gap-1.5 disabled:opacity-40"
+              >
+                <Send size={12} /> Mark Sent
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default DueTodayList;
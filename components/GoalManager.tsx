@@ -0,0 +1,193 @@
+import React, { useState, useEffect } from 'react';
+import { X, Target, Save, Trash2, Plus, Check, RotateCcw } from 'lucide-react';
+import { OutreachGoal } from '../types';
+import { goalStore } from '../services/storage';
+import { getGoals, isCustomized } from '../services/goals';
+
+interface GoalManagerProps {
+  onClose: () => void;
+  // Called with the goal's name after a save, so the form can switch to it.
+  onSelect?: (name: string) => void;
+}
+
+const emptyGoal = (): OutreachGoal => ({
+  id: '',
+  name: '',
+  ctaInstructions: '',
+  examplePhrasings: [],
+  targetSeconds: 40,
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+const toPhrasings = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const GoalManager: React.FC<GoalManagerProps> = ({ onClose, onSelect }) => {
+  const [custom, setCustom] = useState<OutreachGoal[]>(goalStore.get);
+  const [draft, setDraft] = useState<OutreachGoal | null>(null);
+  const [phrasingText, setPhrasingText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => goalStore.subscribe(setCustom), []);
+
+  const goals = getGoals(custom);
+
+  const openGoal = (goal: OutreachGoal) => {
+    setDraft(goal);
+    setPhrasingText(goal.examplePhrasings.join('\n'));
+    setError(null);
+  };
+
+  const updateDraft = (patch: Partial<OutreachGoal>) => setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+
+  const handleSave = () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    if (!name) return;
+    if (goals.some(g => g.id !== draft.id && g.name.toLowerCase() === name.toLowerCase())) {
+      setError(`There is already a goal called "${name}".`);
+      return;
+    }
+    const now = Date.now();
+    const saved: OutreachGoal = {
+      ...draft,
+      id: draft.id || now.toString(),
+      name,
+      examplePhrasings: toPhrasings(phrasingText),
+      targetSeconds: Math.max(10, Math.round(draft.targetSeconds) || 40),
+      createdAt: draft.createdAt || now,
+      updatedAt: now,
+    };
+    goalStore.update(list => (list.some(g => g.id === saved.id) ? list.map(g => (g.id === saved.id ? saved : g)) : [...list, saved]));
+    setDraft(saved);
+    setError(null);
+    onSelect?.(saved.name);
+  };
+
+  const handleDelete = (goal: OutreachGoal) => {
+    const prompt = goal.builtIn
+      ? `Reset "${goal.name}" to its built-in CTA instructions?`
+      : `Delete the "${goal.name}" goal? Scripts already saved with it keep the name.`;
+    if (!confirm(prompt)) return;
+    goalStore.update(list => list.filter(g => g.id !== goal.id));
+    if (draft?.id === goal.id) setDraft(null);
+  };
+
+  const current = draft && goals.find(g => g.id === draft.id);
+  const isDirty = !!draft && (!draft.id || JSON.stringify(current) !== JSON.stringify({ ...draft, examplePhrasings: toPhrasings(phrasingText) }));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-3xl max-h-[90vh] overflow-y-auto custom-scrollbar p-6 bg-slate-900 rounded-2xl border border-indigo-500/40 shadow-2xl animate-in fade-in zoom-in-95 duration-200 space-y-5"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-start">
+          <div>
+            <span className="text-[10px] font-bold text-indigo-400 uppercase tracking-widest flex items-center gap-1.5"><Target size={12} /> Goals</span>
+            <h3 className="text-white font-bold">What each script asks for, and how</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="grid md:grid-cols-5 gap-4">
+          <div className="md:col-span-2 space-y-1.5">
+            {goals.map(goal => (
+              <div
+                key={goal.id}
+                className={`p-3 rounded-xl border transition-all flex items-center gap-2 ${draft?.id === goal.id ? 'border-indigo-500 bg-indigo-500/10' : 'border-slate-800 hover:border-slate-700'}`}
+              >
+                <button onClick={() => openGoal(goal)} className="flex-1 text-left min-w-0">
+                  <div className="text-xs font-bold text-white truncate">{goal.name}</div>
+                  <div className="text-[10px] text-slate-500 mt-0.5">
+                    ~{goal.targetSeconds}s · {goal.builtIn ? (isCustomized(goal, custom) ? 'Built-in, customized' : 'Built-in') : 'Custom'}
+                  </div>
+                </button>
+                {(!goal.builtIn || isCustomized(goal, custom)) && (
+                  <button
+                    onClick={() => handleDelete(goal)}
+                    title={goal.builtIn ? 'Reset to built-in' : 'Delete goal'}
+                    className="p-1 text-slate-600 hover:text-red-400 transition-colors"
+                  >
+                    {goal.builtIn ? <RotateCcw size={14} /> : <Trash2 size={14} />}
+                  </button>
+                )}
+              </div>
+            ))}
+            <button
+              onClick={() => openGoal(emptyGoal())}
+              className="w-full p-3 rounded-xl border border-dashed border-slate-700 text-slate-400 hover:text-white hover:border-slate-600 text-xs font-bold flex items-center justify-center gap-2"
+            >
+              <Plus size={14} /> New Goal
+            </button>
+          </div>
+
+          <div className="md:col-span-3">
+            {!draft ? (
+              <p className="text-xs text-slate-500 p-5 rounded-xl bg-slate-950/60 border border-slate-800">
+                Pick a goal to adjust its CTA, or add your own, like "Ask for a referral", "Re-engage an old client" or "Invite to a webinar". The goal's instructions and example asks go into every generation prompt.
+              </p>
+            ) : (
+              <div className="p-5 rounded-xl bg-slate-950/60 border border-slate-800 space-y-4">
+                <input
+                  value={draft.name}
+                  onChange={e => updateDraft({ name: e.target.value })}
+                  disabled={draft.builtIn}
+                  title={draft.builtIn ? 'Built-in goals keep their name' : undefined}
+                  placeholder="Goal name, e.g. Ask for Referral"
+                  className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-sm text-white font-bold focus:ring-1 focus:ring-indigo-500 disabled:opacity-60"
+                />
+                <div className="space-y-1">
+                  <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">CTA Instructions</label>
+                  <textarea
+                    value={draft.ctaInstructions}
+                    onChange={e => updateDraft({ ctaInstructions: e.target.value })}
+                    placeholder="e.g. Ask if they know one other business owner who has the same problem. Make it easy to say no."
+                    className="w-full h-20 bg-slate-950 border border-slate-700 rounded-lg p-2 text-xs text-slate-200 resize-none"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Example Asks (one per line)</label>
+                  <textarea
+                    value={phrasingText}
+                    onChange={e => setPhrasingText(e.target.value)}
+                    placeholder="Anyone come to mind who'd get value from this too?"
+                    className="w-full h-20 bg-slate-950 border border-slate-700 rounded-lg p-2 text-xs text-slate-200 resize-none"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Target Length (seconds)</label>
+                  <input
+                    type="number"
+                    min={10}
+                    max={120}
+                    value={draft.targetSeconds}
+                    onChange={e => updateDraft({ targetSeconds: Number(e.target.value) || 0 })}
+                    className="w-32 bg-slate-950 border border-slate-700 rounded-lg p-2 text-xs text-slate-200"
+                  />
+                  <p className="text-[10px] text-slate-500">Kept within the selected platform's length range.</p>
+                </div>
+
+                {error && <p className="text-[11px] text-red-400">{error}</p>}
+
+                <div className="flex justify-end">
+                  <button
+                    onClick={handleSave}
+                    disabled={!draft.name.trim() || !isDirty}
+                    className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-bold flex items-center gap-2 disabled:opacity-40"
+                  >
+                    {isDirty ? <Save size={14} /> : <Check size={14} />} {isDirty ? 'Save Goal' : 'Saved'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GoalManager;
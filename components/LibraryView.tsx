@@ -1,8 +1,26 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Bookmark, Trash2, Calendar, User, Search, Play, Copy, Check, Wand2, MessageSquare, Building, Volume2, Loader2 } from 'lucide-react';
-import { SavedScript } from '../types';
+import { Bookmark, Trash2, Calendar, User, Search, Play, Copy, Check, Wand2, MessageSquare, Building, Volume2, Loader2, RefreshCw, Headset, LayoutGrid, Kanban, History, Star, Fingerprint, Languages, ListOrdered, CalendarClock, MessageSquareReply } from 'lucide-react';
+import { SavedScript, PipelineStage } from '../types';
 import { generateSpeech, decodeBase64, decodeAudioData } from '../services/geminiService';
+import AudioDownloadButton from './AudioDownloadButton';
+import { getStoredAudio, putStoredAudio, deleteStoredAudio } from '../services/audioStore';
+import { getStage, applyStageChange, countByStage } from '../services/pipeline';
+import { getSections, speechText } from '../services/scriptSections';
+import { libraryStore, syncStateStore } from '../services/storage';
+import { getAttribution } from '../services/syncService';
+import { getScriptRevisions } from '../services/versioning';
+import { getDueSteps, isSequenceActive, nextStep, stepDueAt } from '../services/sequences';
+import { getThread } from '../services/replies';
+import { PIPELINE_STAGES, SCRIPT_LANGUAGES, SEQUENCE_STEP_LABELS } from '../constants';
+import PipelineBoard from './PipelineBoard';
+import StageChangeDialog from './StageChangeDialog';
+import ScriptHistoryDialog from './ScriptHistoryDialog';
+import StyleProfileManager from './StyleProfileManager';
+import TranslateScriptDialog from './TranslateScriptDialog';
+import SequenceDialog from './SequenceDialog';
+import DueTodayList from './DueTodayList';
+import ReplyThreadDialog from './ReplyThreadDialog';
 
 interface LibraryViewProps {
   onUseAsReference: (script: SavedScript) => void;
@@ -10,30 +28,58 @@ interface LibraryViewProps {
 }
 
 const LibraryView: React.FC<LibraryViewProps> = ({ onUseAsReference, activeReferenceId }) => {
-  const [scripts, setScripts] = useState<SavedScript[]>([]);
+  const [scripts, setScripts] = useState<SavedScript[]>(libraryStore.get);
   const [searchTerm, setSearchTerm] = useState('');
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const [playingId, setPlayingId] = useState<string | null>(null);
   const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<'grid' | 'pipeline' | 'due'>('grid');
+  const [stageFilter, setStageFilter] = useState<PipelineStage | 'all'>('all');
+  const [stageDialog, setStageDialog] = useState<{ script: SavedScript; stage?: PipelineStage } | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [showStyleProfiles, setShowStyleProfiles] = useState(false);
+  const [translateId, setTranslateId] = useState<string | null>(null);
+  const [sequenceId, setSequenceId] = useState<string | null>(null);
+  const [repliesId, setRepliesId] = useState<string | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
 
-  useEffect(() => {
-    const loadScripts = () => {
-      const saved = localStorage.getItem('voice_note_library');
-      if (saved) {
-        setScripts(JSON.parse(saved));
-      }
-    };
-    loadScripts();
-    window.addEventListener('storage', loadScripts);
-    return () => window.removeEventListener('storage', loadScripts);
-  }, []);
+  // Who last changed each entry, when team sync is on.
+  const [syncState, setSyncState] = useState(syncStateStore.get);
+
+  useEffect(() => libraryStore.subscribe(setScripts), []);
+  useEffect(() => syncStateStore.subscribe(setSyncState), []);
 
   const handleDelete = (id: string) => {
     if (!confirm("Remove this script from your library?")) return;
-    const updated = scripts.filter(s => s.id !== id);
-    setScripts(updated);
-    localStorage.setItem('voice_note_library', JSON.stringify(updated));
+    libraryStore.update(list => list.filter(s => s.id !== id));
+    deleteStoredAudio(id).catch(error => console.error("Audio cache delete failed:", error));
+  };
+
+  const handleStageChange = (stage: PipelineStage, note: string) => {
+    if (!stageDialog) return;
+    const target = stageDialog.script.id;
+    libraryStore.update(list => list.map(s => (s.id === target ? applyStageChange(s, stage, note) : s)));
+    setStageDialog(null);
+  };
+
+  const handleRevise = (updated: SavedScript) => {
+    libraryStore.update(list => list.map(s => (s.id === updated.id ? updated : s)));
+    // The text changed, so the cached take is stale.
+    deleteStoredAudio(updated.id).catch(error => console.error("Audio cache delete failed:", error));
+  };
+
+  // Sequence and reply changes leave the script text alone, so the cached audio stays.
+  const handleUpdate = (updated: SavedScript) => {
+    libraryStore.update(list => list.map(s => (s.id === updated.id ? updated : s)));
+  };
+
+  const toggleExemplar = (id: string) => {
+    libraryStore.update(list => list.map(s => (s.id === id ? { ...s, exemplar: !s.exemplar } : s)));
+  };
+
+  const handleSaveTranslation = (translation: SavedScript) => {
+    libraryStore.update(list => [translation, ...list]);
+    setTranslateId(null);
   };
 
   const handleCopy = (text: string, id: string) => {
@@ -42,30 +88,70 @@ const LibraryView: React.FC<LibraryViewProps> = ({ onUseAsReference, activeRefer
     setTimeout(() => setCopiedId(null), 2000);
   };
 
+  // Legacy entries have no stored voice settings; they fall back to the old library default.
+  const voiceFor = (script: SavedScript) => ({ voice: script.voice || 'Zephyr', tone: script.tone || 'Professional' });
+
+  const renderScriptAudio = async (script: SavedScript): Promise<string> => {
+    const { voice, tone } = voiceFor(script);
+    const base64Audio = await generateSpeech(speechText(getSections(script)), voice, tone, script.language);
+    try {
+      await putStoredAudio({ scriptId: script.id, audio: base64Audio, voice, tone, createdAt: Date.now() });
+      if (!script.hasAudio) {
+        libraryStore.update(list => list.map(s => (s.id === script.id ? { ...s, hasAudio: true } : s)));
+      }
+    } catch (error) {
+      console.error("Audio cache write failed:", error);
+    }
+    return base64Audio;
+  };
+
+  const getScriptAudio = async (script: SavedScript): Promise<string> => {
+    const stored = await getStoredAudio(script.id).catch(() => null);
+    if (stored) return stored.audio;
+    // Only synthesizes the first time; after that playback always uses the cache.
+    return renderScriptAudio(script);
+  };
+
+  const playAudio = async (scriptId: string, base64Audio: string) => {
+    if (!audioContextRef.current) {
+      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+    const ctx = audioContextRef.current;
+    const audioBytes = decodeBase64(base64Audio);
+    const audioBuffer = await decodeAudioData(audioBytes, ctx);
+    
+    const source = ctx.createBufferSource();
+    source.buffer = audioBuffer;
+    source.connect(ctx.destination);
+    
+    setLoadingId(null);
+    setPlayingId(scriptId);
+    
+    source.onended = () => setPlayingId(null);
+    source.start();
+  };
+
+  const handleRerender = async (script: SavedScript) => {
+    if (loadingId || playingId) return;
+    if (script.hasAudio && !confirm("Re-synthesize the audio for this script? This uses TTS quota and replaces the cached take.")) return;
+
+    setLoadingId(script.id);
+    try {
+      await playAudio(script.id, await renderScriptAudio(script));
+    } catch (error) {
+      console.error("Library re-render error:", error);
+      setLoadingId(null);
+      setPlayingId(null);
+      alert("Failed to generate audio. Please try again.");
+    }
+  };
+
   const handlePlayVoice = async (script: SavedScript) => {
     if (loadingId || playingId) return;
     
     setLoadingId(script.id);
     try {
-      // Default to Zephyr for library playback of old scripts
-      const base64Audio = await generateSpeech(script.content, 'Zephyr', 'Professional');
-      
-      if (!audioContextRef.current) {
-        audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-      }
-      const ctx = audioContextRef.current;
-      const audioBytes = decodeBase64(base64Audio);
-      const audioBuffer = await decodeAudioData(audioBytes, ctx);
-      
-      const source = ctx.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(ctx.destination);
-      
-      setLoadingId(null);
-      setPlayingId(script.id);
-      
-      source.onended = () => setPlayingId(null);
-      source.start();
+      await playAudio(script.id, await getScriptAudio(script));
     } catch (error) {
       console.error("Library playback error:", error);
       setLoadingId(null);
@@ -74,12 +160,34 @@ const LibraryView: React.FC<LibraryViewProps> = ({ onUseAsReference, activeRefer
     }
   };
 
-  const filteredScripts = scripts.filter(s => 
+  const searchedScripts = scripts.filter(s => 
     s.ownerName.toLowerCase().includes(searchTerm.toLowerCase()) ||
     s.businessName.toLowerCase().includes(searchTerm.toLowerCase()) ||
     s.content.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  const stageCounts = countByStage(searchedScripts);
+
+  const filteredScripts = stageFilter === 'all'
+    ? searchedScripts
+    : searchedScripts.filter(s => getStage(s) === stageFilter);
+
+  const historyScript = historyId ? scripts.find(s => s.id === historyId) || null : null;
+  const translatingScript = translateId ? scripts.find(s => s.id === translateId) || null : null;
+  const sequenceScript = sequenceId ? scripts.find(s => s.id === sequenceId) || null : null;
+  const repliesScript = repliesId ? scripts.find(s => s.id === repliesId) || null : null;
+  const dueCount = getDueSteps(scripts).length;
+
+  const stageMeta = (script: SavedScript) => PIPELINE_STAGES.find(st => st.id === getStage(script))!;
+
+  // "Bump · Mar 4" for leads with an active sequence.
+  const nextTouch = (script: SavedScript) => {
+    const step = isSequenceActive(script) ? nextStep(script.sequence!) : null;
+    if (!step) return null;
+    const dueAt = new Date(stepDueAt(script.sequence!, step));
+    return `${SEQUENCE_STEP_LABELS[step.kind].label} · ${dueAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`;
+  };
+
   const formatDate = (ts: number) => {
     return new Date(ts).toLocaleDateString('en-US', { 
       month: 'short', 
@@ -111,7 +219,124 @@ const LibraryView: React.FC<LibraryViewProps> = ({ onUseAsReference, activeRefer
         </div>
       </div>
 
-      {filteredScripts.length === 0 ? (
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => setStageFilter('all')}
+            className={`px-3 py-1.5 rounded-lg text-[11px] font-bold border transition-all ${
+              stageFilter === 'all' ? 'bg-indigo-600/20 border-indigo-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-500 hover:border-slate-700'
+            }`}
+          >
+            All <span className="opacity-60">{searchedScripts.length}</span>
+          </button>
+          {PIPELINE_STAGES.map(stage => (
+            <button
+              key={stage.id}
+              onClick={() => setStageFilter(stage.id)}
+              className={`px-3 py-1.5 rounded-lg text-[11px] font-bold border transition-all flex items-center gap-1.5 ${
+                stageFilter === stage.id ? stage.color : 'bg-slate-900 border-slate-800 text-slate-500 hover:border-slate-700'
+              }`}
+            >
+              <span className={`w-1.5 h-1.5 rounded-full ${stage.dot}`} />
+              {stage.label} <span className="opacity-60">{stageCounts[stage.id]}</span>
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowStyleProfiles(true)}
+            title="Learn style profiles from starred scripts"
+            className="px-3 py-2 bg-slate-900 border border-slate-800 hover:border-slate-700 rounded-lg text-[11px] font-bold text-slate-300 flex items-center gap-1.5"
+          >
+            <Fingerprint size={14} className="text-indigo-400" /> Style Profiles
+          </button>
+          <div className="flex bg-slate-900 border border-slate-800 rounded-lg p-1">
+            <button
+              onClick={() => setViewMode('grid')}
+              title="Card view"
+              className={`p-1.5 rounded-md transition-colors ${viewMode === 'grid' ? 'bg-indigo-600/20 text-indigo-300' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              <LayoutGrid size={16} />
+            </button>
+            <button
+              onClick={() => setViewMode('pipeline')}
+              title="Pipeline view"
+              className={`p-1.5 rounded-md transition-colors ${viewMode === 'pipeline' ? 'bg-indigo-600/20 text-indigo-300' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              <Kanban size={16} />
+            </button>
+            <button
+              onClick={() => setViewMode('due')}
+              title="Follow-ups due today"
+              className={`relative p-1.5 rounded-md transition-colors ${viewMode === 'due' ? 'bg-indigo-600/20 text-indigo-300' : 'text-slate-500 hover:text-slate-300'}`}
+            >
+              <CalendarClock size={16} />
+              {dueCount > 0 && (
+                <span className="absolute -top-1 -right-1 min-w-[16px] h-4 px-1 rounded-full bg-amber-500 text-[9px] font-bold text-slate-950 flex items-center justify-center">
+                  {dueCount}
+                </span>
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {showStyleProfiles && <StyleProfileManager onClose={() => setShowStyleProfiles(false)} />}
+
+      {stageDialog && (
+        <StageChangeDialog
+          script={stageDialog.script}
+          initialStage={stageDialog.stage}
+          onConfirm={handleStageChange}
+          onClose={() => setStageDialog(null)}
+        />
+      )}
+
+      {historyScript && (
+        <ScriptHistoryDialog
+          script={historyScript}
+          onUpdate={handleRevise}
+          onClose={() => setHistoryId(null)}
+        />
+      )}
+
+      {translatingScript && (
+        <TranslateScriptDialog
+          script={translatingScript}
+          onSave={handleSaveTranslation}
+          onClose={() => setTranslateId(null)}
+        />
+      )}
+
+      {sequenceScript && (
+        <SequenceDialog
+          script={sequenceScript}
+          onUpdate={handleUpdate}
+          onClose={() => setSequenceId(null)}
+        />
+      )}
+
+      {repliesScript && (
+        <ReplyThreadDialog
+          script={repliesScript}
+          onUpdate={handleUpdate}
+          onClose={() => setRepliesId(null)}
+        />
+      )}
+
+      {viewMode === 'due' ? (
+        <DueTodayList
+          scripts={searchedScripts}
+          onOpen={(script) => setSequenceId(script.id)}
+          onUpdate={handleUpdate}
+        />
+      ) : viewMode === 'pipeline' ? (
+        <PipelineBoard
+          scripts={searchedScripts}
+          onOpen={(script) => setStageDialog({ script })}
+          onMove={(script, stage) => setStageDialog({ script, stage })}
+        />
+      ) : filteredScripts.length === 0 ? (
         <div className="flex flex-col items-center justify-center py-24 glass-effect rounded-3xl border-dashed border-2 border-slate-800">
           <div className="w-16 h-16 bg-slate-900 rounded-full flex items-center justify-center mb-4 text-slate-600">
             <Bookmark size={32} />
@@ -146,8 +371,24 @@ const LibraryView: React.FC<LibraryViewProps> = ({ onUseAsReference, activeRefer
                     <Building size={14} />
                     {script.businessName}
                   </div>
+                  <div className="flex items-center gap-2 text-slate-500 text-[10px] mt-1 uppercase tracking-wider">
+                    <Headset size={12} />
+                    {voiceFor(script).voice} · {voiceFor(script).tone}
+                    {script.hasAudio && <span className="text-green-400/80">· cached</span>}
+                    {script.variantLabel && <span className="text-purple-300/80">· {script.variantLabel.startsWith('Merged') ? script.variantLabel : `Variant ${script.variantLabel}`}</span>}
+                    {script.language && script.language !== 'en' && <span className="text-teal-300/80">· {SCRIPT_LANGUAGES[script.language].nativeName}</span>}
+                    {getScriptRevisions(script).length > 1 && <span className="text-blue-300/80">· v{getScriptRevisions(script).length}</span>}
+                    {getAttribution(syncState, 'script', script.id) && <span className="text-slate-400 normal-case">· by {getAttribution(syncState, 'script', script.id)!.updatedBy}</span>}
+                  </div>
                 </div>
                 <div className="flex gap-1">
+                  <button
+                    onClick={() => toggleExemplar(script.id)}
+                    title={script.exemplar ? 'Unmark as exemplar' : 'Mark as exemplar for style profiles'}
+                    className={`p-2 rounded-lg transition-colors ${script.exemplar ? 'text-yellow-400' : 'text-slate-500 hover:text-yellow-400 hover:bg-yellow-500/10 opacity-0 group-hover:opacity-100'}`}
+                  >
+                    <Star size={16} className={script.exemplar ? 'fill-yellow-400' : ''} />
+                  </button>
                    <button 
                     onClick={() => handlePlayVoice(script)}
                     disabled={!!loadingId || !!playingId}
@@ -159,6 +400,49 @@ const LibraryView: React.FC<LibraryViewProps> = ({ onUseAsReference, activeRefer
                   >
                     {loadingId === script.id ? <Loader2 size={16} className="animate-spin" /> : <Volume2 size={16} />}
                   </button>
+                  <button 
+                    onClick={() => handleRerender(script)}
+                    disabled={!!loadingId || !!playingId}
+                    title="Re-render audio"
+                    className="p-2 rounded-lg transition-colors text-slate-500 hover:text-indigo-400 hover:bg-indigo-500/10 opacity-0 group-hover:opacity-100"
+                  >
+                    <RefreshCw size={16} />
+                  </button>
+                  <button
+                    onClick={() => setTranslateId(script.id)}
+                    title="Translate"
+                    className="p-2 rounded-lg transition-colors text-slate-500 hover:text-indigo-400 hover:bg-indigo-500/10 opacity-0 group-hover:opacity-100"
+                  >
+                    <Languages size={16} />
+                  </button>
+                  <button
+                    onClick={() => setRepliesId(script.id)}
+                    title="Replies"
+                    className={`p-2 rounded-lg transition-colors ${getThread(script).length > 0 ? 'text-indigo-400' : 'text-slate-500 hover:text-indigo-400 hover:bg-indigo-500/10 opacity-0 group-hover:opacity-100'}`}
+                  >
+                    <MessageSquareReply size={16} />
+                  </button>
+                  <button
+                    onClick={() => setSequenceId(script.id)}
+                    title="Follow-up sequence"
+                    className="p-2 rounded-lg transition-colors text-slate-500 hover:text-indigo-400 hover:bg-indigo-500/10 opacity-0 group-hover:opacity-100"
+                  >
+                    <ListOrdered size={16} />
+                  </button>
+                  <button
+                    onClick={() => setHistoryId(script.id)}
+                    title="Edit & version history"
+                    className="p-2 rounded-lg transition-colors text-slate-500 hover:text-indigo-400 hover:bg-indigo-500/10 opacity-0 group-hover:opacity-100"
+                  >
+                    <History size={16} />
+                  </button>
+                  <AudioDownloadButton
+                    compact
+                    getAudio={() => getScriptAudio(script)}
+                    ownerName={script.ownerName}
+                    businessName={script.businessName}
+                    onError={(message) => alert(message)}
+                  />
                   <button 
                     onClick={() => handleDelete(script.id)}
                     className="p-2 text-slate-600 hover:text-red-400 transition-colors opacity-0 group-hover:opacity-100"
@@ -170,7 +454,7 @@ const LibraryView: React.FC<LibraryViewProps> = ({ onUseAsReference, activeRefer
 
               <div className="flex-1 bg-slate-950/50 rounded-xl p-4 border border-slate-800 mb-6 relative group/content overflow-hidden">
                 <p className="text-slate-300 text-sm leading-relaxed italic line-clamp-6">
-                  "{script.content.replace(/\[.*?\]/g, '')}"
+                  "{speechText(getSections(script))}"
                 </p>
                 <div className="absolute inset-0 bg-gradient-to-t from-slate-950/80 to-transparent opacity-0 group-hover/content:opacity-100 transition-opacity flex items-end justify-center pb-4">
                    <button 
@@ -184,9 +468,27 @@ const LibraryView: React.FC<LibraryViewProps> = ({ onUseAsReference, activeRefer
               </div>
 
               <div className="flex items-center justify-between pt-4 border-t border-slate-800">
-                <div className="flex items-center gap-2 text-[10px] text-slate-500 uppercase tracking-widest">
-                  <Calendar size={12} />
-                  {formatDate(script.createdAt)}
+                <div className="flex flex-col gap-1.5">
+                  <div className="flex items-center gap-2 text-[10px] text-slate-500 uppercase tracking-widest">
+                    <Calendar size={12} />
+                    {formatDate(script.createdAt)}
+                  </div>
+                  <button
+                    onClick={() => setStageDialog({ script })}
+                    title="Update outreach stage"
+                    className={`self-start px-2 py-0.5 rounded-md text-[10px] font-bold uppercase tracking-wider border flex items-center gap-1.5 ${stageMeta(script).color}`}
+                  >
+                    <span className={`w-1.5 h-1.5 rounded-full ${stageMeta(script).dot}`} />
+                    {stageMeta(script).label}
+                  </button>
+                  {nextTouch(script) && (
+                    <button
+                      onClick={() => setSequenceId(script.id)}
+                      className="self-start text-[10px] text-slate-500 hover:text-indigo-300 flex items-center gap-1"
+                    >
+                      <ListOrdered size={11} /> Next: {nextTouch(script)}
+                    </button>
+                  )}
                 </div>
                 
                 <button 
@@ -1,17 +1,27 @@
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { Wand2, Loader2, Clipboard, Check, User, Building, AlertTriangle, Gift, Mic, Sparkles, MessageSquare, Gauge, Lightbulb, Bookmark, Volume2, X, Palette, Headset } from 'lucide-react';
-import { generateVoiceNote, processAudioResearch, generateSpeech, decodeBase64, decodeAudioData } from '../services/geminiService';
-import { GenerationStatus, VoiceNoteInput, VoiceNoteResult, CustomTemplate, SavedScript, VoiceOption } from '../types';
+import { Wand2, Loader2, Clipboard, Check, User, Building, AlertTriangle, Gift, Mic, Sparkles, MessageSquare, Gauge, Lightbulb, Bookmark, Volume2, X, Palette, Headset, Columns, Shuffle, ScrollText, Braces, Fingerprint, Smartphone, Wrench, Target } from 'lucide-react';
+import { generateVoiceNote, generateVoiceNoteVariants, regenerateSections, processAudioResearch, generateSpeech, decodeBase64, decodeAudioData } from '../services/geminiService';
+import { GenerationStatus, VoiceNoteInput, VoiceNoteResult, CustomTemplate, SavedScript, StyleProfile, OutreachGoal, AudioResearch, ScriptLanguage, VoiceOption, ScriptVariant, VariantSpread, ScriptSection } from '../types';
 import TemplateManager, { TemplateManagerHandle } from './TemplateManager';
 import VoiceRecorder from './VoiceRecorder';
-
-const TONE_VOICE_MAP: Record<string, VoiceOption> = {
-  'Casual': 'Puck',
-  'Professional': 'Charon',
-  'Direct': 'Fenrir',
-  'Warm': 'Kore'
-};
+import ResearchPanel from './ResearchPanel';
+import AudioFileUpload from './AudioFileUpload';
+import TranscriptReview from './TranscriptReview';
+import AudioDownloadButton from './AudioDownloadButton';
+import VariantComparison from './VariantComparison';
+import DeliveryCoach from './DeliveryCoach';
+import Teleprompter, { RecordedTake } from './Teleprompter';
+import ScriptEditor, { ScriptEditorHandle } from './ScriptEditor';
+import GoalManager from './GoalManager';
+import { putStoredAudio } from '../services/audioStore';
+import { activeStyleProfileStore, goalStore, libraryStore, styleProfileStore } from '../services/storage';
+import { LANGUAGE_OPTIONS, PLATFORM_OPTIONS, PLATFORM_PROFILES, SCRIPT_LANGUAGES, TONE_VOICE_MAP } from '../constants';
+import { getDurationStatus } from '../services/scriptUtils';
+import { renderScript, speechText, estimateSectionsDuration } from '../services/scriptSections';
+import { checkSlots, getCustomVariables, getInvalidVariables, getMissingVariables } from '../services/templateVariables';
+import { applyLocalFixes, durationInstruction, validateOutput } from '../services/platformProfiles';
+import { getGoals } from '../services/goals';
 
 interface OutreachFormProps {
   initialReference: SavedScript | null;
@@ -20,8 +30,11 @@ interface OutreachFormProps {
 
 const OutreachForm: React.FC<OutreachFormProps> = ({ initialReference, onClearReference }) => {
   const templateManagerRef = useRef<TemplateManagerHandle>(null);
+  const scriptEditorRef = useRef<ScriptEditorHandle>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const activeSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // Last synthesized audio, keyed by script + voice + tone so preview and download share one TTS call.
+  const speechCacheRef = useRef<{ key: string; audio: string } | null>(null);
   
   const [formData, setFormData] = useState<VoiceNoteInput>({
     ownerName: '',
@@ -31,6 +44,7 @@ const OutreachForm: React.FC<OutreachFormProps> = ({ initialReference, onClearRe
     platform: 'Instagram',
     tone: 'Casual',
     goal: 'Permission to Send',
+    language: 'en',
     selectedVoice: 'Puck'
   });
 
@@ -45,6 +59,29 @@ const OutreachForm: React.FC<OutreachFormProps> = ({ initialReference, onClearRe
   const [copiedFollowUp, setCopiedFollowUp] = useState(false);
   const [isSavedInLibrary, setIsSavedInLibrary] = useState(false);
 
+  const [variantCount, setVariantCount] = useState(1);
+  const [variantSpread, setVariantSpread] = useState<VariantSpread>('none');
+  const [variants, setVariants] = useState<ScriptVariant[]>([]);
+  const [activeVariantLabel, setActiveVariantLabel] = useState<string | null>(null);
+  const [savedVariantLabels, setSavedVariantLabels] = useState<string[]>([]);
+  const [showTeleprompter, setShowTeleprompter] = useState(false);
+  const [rehearsalTake, setRehearsalTake] = useState<RecordedTake | null>(null);
+  // Bumped whenever a fresh script replaces the current one, so the editor starts a new undo history.
+  const [editorKey, setEditorKey] = useState(0);
+  // Template and lead the current result was generated from; its slots are checked against the script.
+  const [slotContext, setSlotContext] = useState<{ content: string; input: VoiceNoteInput } | null>(null);
+  // Transcript behind the last memo's extracted fields, shown until dismissed.
+  const [audioResearch, setAudioResearch] = useState<AudioResearch | null>(null);
+  const [styleProfiles, setStyleProfiles] = useState<StyleProfile[]>(styleProfileStore.get);
+  const [activeStyleProfileId, setActiveStyleProfileId] = useState<string | null>(activeStyleProfileStore.get);
+  const [isFixing, setIsFixing] = useState(false);
+  const [customGoals, setCustomGoals] = useState<OutreachGoal[]>(goalStore.get);
+  const [showGoalManager, setShowGoalManager] = useState(false);
+
+  useEffect(() => styleProfileStore.subscribe(setStyleProfiles), []);
+  useEffect(() => activeStyleProfileStore.subscribe(setActiveStyleProfileId), []);
+  useEffect(() => goalStore.subscribe(setCustomGoals), []);
+
   useEffect(() => {
     return () => {
       if (audioContextRef.current) {
@@ -60,30 +97,43 @@ const OutreachForm: React.FC<OutreachFormProps> = ({ initialReference, onClearRe
     }
   }, [result]);
 
-  const estimatedDuration = useMemo(() => {
-    if (!result?.script) return 0;
-    const cleanScript = result.script.replace(/\[.*?\]/g, '');
-    const words = cleanScript.trim().split(/\s+/).length;
-    return Math.round((words / 140) * 60);
-  }, [result]);
+  const scriptText = useMemo(() => (result ? renderScript(result.sections) : ''), [result]);
+
+  const estimatedDuration = useMemo(() => (result ? estimateSectionsDuration(result.sections) : 0), [result]);
+
+  const platformProfile = PLATFORM_PROFILES[formData.platform];
+
+  const durationStatus = useMemo(
+    () => getDurationStatus(estimatedDuration, platformProfile.minSeconds, platformProfile.maxSeconds),
+    [estimatedDuration, platformProfile]
+  );
+
+  const platformIssues = useMemo(() => (result ? validateOutput(result, formData) : []), [result, formData]);
+
+  const styleProfile = styleProfiles.find(p => p.id === activeStyleProfileId);
+
+  const goalNames = useMemo(() => {
+    const names = getGoals(customGoals).map(g => g.name);
+    // A deleted custom goal stays selectable until the user picks another.
+    return names.includes(formData.goal) ? names : [...names, formData.goal];
+  }, [customGoals, formData.goal]);
+
+  const customVariables = useMemo(() => (activeTemplate ? getCustomVariables(activeTemplate.content) : []), [activeTemplate]);
 
-  const durationStatus = useMemo(() => {
-    if (estimatedDuration < 30) return { label: 'Too Short', color: 'text-amber-400', bar: 'bg-amber-400' };
-    if (estimatedDuration <= 55) return { label: 'Perfect Length', color: 'text-green-400', bar: 'bg-green-400' };
-    return { label: 'A Bit Long', color: 'text-red-400', bar: 'bg-red-400' };
-  }, [estimatedDuration]);
+  const missingSlots = useMemo(
+    () => (result && slotContext ? checkSlots(slotContext.content, slotContext.input, result.sections).filter(s => !s.present) : []),
+    [result, slotContext]
+  );
+
+  const applyAudioResearch = (research: AudioResearch) => {
+    setAudioResearch(research);
+    setFormData(prev => ({ ...prev, ...research.fields }));
+  };
 
-  const handleAudioCaptured = async (base64: string, mimeType: string) => {
+  const handleAudioCaptured = async (base64: string, mimeType: string, durationSeconds: number) => {
     try {
       setErrorMessage(null);
-      const data = await processAudioResearch(base64, mimeType);
-      setFormData(prev => ({
-        ...prev,
-        ownerName: data.ownerName || prev.ownerName,
-        businessName: data.businessName || prev.businessName,
-        identifiedGap: data.identifiedGap || prev.identifiedGap,
-        freeValue: data.freeValue || prev.freeValue,
-      }));
+      applyAudioResearch(await processAudioResearch([{ data: base64, mimeType, startSeconds: 0, endSeconds: durationSeconds }]));
     } catch (err: any) {
       setErrorMessage(err.message || "Failed to process audio.");
     }
@@ -97,6 +147,16 @@ const OutreachForm: React.FC<OutreachFormProps> = ({ initialReference, onClearRe
         return false;
       }
     }
+    const missing = activeTemplate ? getMissingVariables(activeTemplate.content, formData) : [];
+    if (missing.length > 0) {
+      setErrorMessage(`The "${activeTemplate!.name}" template needs a value for ${missing.map(v => v.label).join(', ')}.`);
+      return false;
+    }
+    const invalid = activeTemplate ? getInvalidVariables(activeTemplate.content, formData) : [];
+    if (invalid.length > 0) {
+      setErrorMessage(invalid.map(({ placeholder, expected }) => `${placeholder.label} should be ${expected}.`).join(' '));
+      return false;
+    }
     return true;
   };
 
@@ -108,10 +168,22 @@ const OutreachForm: React.FC<OutreachFormProps> = ({ initialReference, onClearRe
 
     setStatus(GenerationStatus.LOADING);
     setResult(null);
+    setVariants([]);
+    setActiveVariantLabel(null);
+    setSavedVariantLabels([]);
+    setRehearsalTake(null);
+    setSlotContext(activeTemplate ? { content: activeTemplate.content, input: formData } : null);
     
     try {
-      const data = await generateVoiceNote(formData, activeTemplate || undefined, initialReference || undefined);
-      setResult(data);
+      if (variantCount > 1) {
+        const drafts = await generateVoiceNoteVariants(formData, variantCount, variantSpread, activeTemplate || undefined, initialReference || undefined, styleProfile);
+        setVariants(drafts);
+        handlePickVariant(drafts[0]);
+      } else {
+        const data = await generateVoiceNote(formData, activeTemplate || undefined, initialReference || undefined, styleProfile);
+        setResult(data);
+        setEditorKey(k => k + 1);
+      }
       setStatus(GenerationStatus.SUCCESS);
     } catch (error: any) {
       setErrorMessage(error.message || "Something went wrong.");
@@ -119,13 +191,28 @@ const OutreachForm: React.FC<OutreachFormProps> = ({ initialReference, onClearRe
     }
   };
 
+  // A picked variant keeps its own tone (and that tone's voice) without touching the form.
+  const resultTone = result?.tone || formData.tone;
+  const voiceForTone = (tone: VoiceNoteInput['tone']) => (tone === formData.tone ? formData.selectedVoice : TONE_VOICE_MAP[tone]);
+  const resultInput: VoiceNoteInput = { ...formData, tone: resultTone, selectedVoice: voiceForTone(resultTone) };
+
+  const getSpeechAudio = async (): Promise<string> => {
+    if (!result) throw new Error("Generate a script first.");
+    const text = speechText(result.sections);
+    const key = `${resultInput.selectedVoice}|${resultTone}|${formData.language}|${text}`;
+    if (speechCacheRef.current?.key === key) return speechCacheRef.current.audio;
+    const audio = await generateSpeech(text, resultInput.selectedVoice, resultTone, formData.language);
+    speechCacheRef.current = { key, audio };
+    return audio;
+  };
+
   const handlePlayTTS = async () => {
     if (!result || ttsLoading || isPlaying) return;
     setTtsLoading(true);
     setErrorMessage(null);
 
     try {
-      const base64Audio = await generateSpeech(result.script, formData.selectedVoice, formData.tone);
+      const base64Audio = await getSpeechAudio();
       
       if (!audioContextRef.current) {
         audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
@@ -169,19 +256,87 @@ const OutreachForm: React.FC<OutreachFormProps> = ({ initialReference, onClearRe
     }
   };
 
-  const handleSaveToLibrary = () => {
-    if (!result?.script) return;
+  const saveToLibrary = async (script: VoiceNoteResult, tone: VoiceNoteInput['tone'], variantLabel?: string) => {
+    const voice = voiceForTone(tone);
+    const cacheKey = `${voice}|${tone}|${formData.language}|${speechText(script.sections)}`;
+    const cachedAudio = speechCacheRef.current?.key === cacheKey ? speechCacheRef.current.audio : null;
     const newEntry: SavedScript = {
       id: Date.now().toString(),
       title: `${formData.ownerName} @ ${formData.businessName}`,
-      content: result.script,
+      content: renderScript(script.sections),
+      sections: script.sections,
       ownerName: formData.ownerName,
       businessName: formData.businessName,
-      createdAt: Date.now()
+      createdAt: Date.now(),
+      voice,
+      tone,
+      platform: formData.platform,
+      goal: formData.goal,
+      language: formData.language,
+      ...(activeTemplate && { templateId: activeTemplate.id, templateName: activeTemplate.name }),
+      hasAudio: !!cachedAudio,
+      ...(variantLabel && { variantLabel })
     };
-    const existing = JSON.parse(localStorage.getItem('voice_note_library') || '[]');
-    localStorage.setItem('voice_note_library', JSON.stringify([newEntry, ...existing]));
+    if (cachedAudio) {
+      try {
+        await putStoredAudio({ scriptId: newEntry.id, audio: cachedAudio, voice, tone, createdAt: Date.now() });
+      } catch (error) {
+        console.error("Audio cache write failed:", error);
+        newEntry.hasAudio = false;
+      }
+    }
+    libraryStore.update(existing => [newEntry, ...existing]);
+  };
+
+  const handleSaveToLibrary = async () => {
+    if (!result?.sections.length) return;
+    await saveToLibrary(result, resultTone, activeVariantLabel || undefined);
     setIsSavedInLibrary(true);
+    if (activeVariantLabel) setSavedVariantLabels(prev => [...prev, activeVariantLabel]);
+  };
+
+  const handleSaveVariant = async (variant: ScriptVariant) => {
+    await saveToLibrary(variant, variant.tone, variant.label);
+    setSavedVariantLabels(prev => [...prev, variant.label]);
+    if (variant.label === activeVariantLabel) setIsSavedInLibrary(true);
+  };
+
+  const handlePickVariant = (variant: ScriptVariant) => {
+    setResult({ sections: variant.sections, followUp: variant.followUp, tone: variant.tone });
+    setEditorKey(k => k + 1);
+    setActiveVariantLabel(variant.label);
+  };
+
+  const handleRegenerateSections = (indices: number[], instruction: string): Promise<ScriptSection[]> => {
+    if (!result) return Promise.resolve([]);
+    return regenerateSections(resultInput, result.sections, indices, instruction, activeTemplate || undefined, initialReference || undefined, styleProfile);
+  };
+
+  // Duration needs a rewrite of every section; emoji, follow-up length and greeting are fixed locally afterwards.
+  const handleAutoFix = async () => {
+    if (!result || isFixing) return;
+    setIsFixing(true);
+    setErrorMessage(null);
+    try {
+      let fixed = result;
+      const instruction = durationInstruction(fixed, formData.platform);
+      if (instruction) {
+        const sections = await regenerateSections(resultInput, fixed.sections, fixed.sections.map((_, idx) => idx), instruction, activeTemplate || undefined, initialReference || undefined, styleProfile);
+        fixed = { ...fixed, sections };
+      }
+      fixed = applyLocalFixes(fixed, formData);
+      setResult(prev => (prev ? { ...prev, followUp: fixed.followUp } : prev));
+      // Through the editor, so the fix can be undone like any other change.
+      if (renderScript(fixed.sections) !== renderScript(result.sections)) scriptEditorRef.current?.applyChange(fixed.sections, 'Auto-fix');
+    } catch (error: any) {
+      setErrorMessage(error.message || "Auto-fix failed.");
+    } finally {
+      setIsFixing(false);
+    }
+  };
+
+  const updateVariable = (name: string, value: string) => {
+    setFormData(prev => ({ ...prev, variables: { ...prev.variables, [name]: value } }));
   };
 
   const updateField = (field: keyof VoiceNoteInput, value: any) => {
@@ -219,12 +374,16 @@ const OutreachForm: React.FC<OutreachFormProps> = ({ initialReference, onClearRe
                 <span className="text-xs font-bold text-slate-300 uppercase tracking-widest">Rapid Setup</span>
              </div>
              <VoiceRecorder onAudioCaptured={handleAudioCaptured} />
+             <AudioFileUpload onResearched={applyAudioResearch} />
+             {audioResearch && <TranscriptReview research={audioResearch} onDismiss={() => setAudioResearch(null)} />}
+             <ResearchPanel onApply={(fields) => setFormData(prev => ({ ...prev, ...fields }))} />
           </div>
 
           <TemplateManager 
             ref={templateManagerRef}
             activeTemplateId={activeTemplate?.id}
             onSelect={setActiveTemplate}
+            lead={formData}
           />
 
           {initialReference && (
@@ -246,6 +405,24 @@ const OutreachForm: React.FC<OutreachFormProps> = ({ initialReference, onClearRe
             </div>
           )}
 
+          {styleProfiles.length > 0 && (
+            <div className="flex items-center gap-3 px-4 py-3 bg-slate-950/40 border border-slate-800 rounded-xl">
+              <Fingerprint size={16} className="text-indigo-400 shrink-0" />
+              <div className="flex-1">
+                <span className="text-[10px] text-slate-400 font-bold uppercase tracking-widest block">Style Profile</span>
+                <span className="text-[11px] text-slate-500">Learned from your starred library scripts.</span>
+              </div>
+              <select
+                value={styleProfile?.id || ''}
+                onChange={(e) => activeStyleProfileStore.set(e.target.value || null)}
+                className="bg-slate-950 border border-slate-700 rounded-lg p-2 text-xs text-slate-200 focus:ring-2 focus:ring-indigo-500/50"
+              >
+                <option value="">None</option>
+                {styleProfiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div className="space-y-2">
               <label className="text-xs font-semibold text-slate-400 uppercase flex items-center gap-2">
@@ -296,12 +473,35 @@ const OutreachForm: React.FC<OutreachFormProps> = ({ initialReference, onClearRe
               />
             </div>
 
+            {customVariables.map(variable => (
+              <div key={variable.name} className="space-y-2">
+                <label className="text-xs font-semibold text-slate-400 uppercase flex items-center gap-2">
+                  <Braces size={14} className="text-indigo-400" /> {variable.label}
+                  {variable.optional && <span className="normal-case font-normal text-slate-600">optional</span>}
+                </label>
+                <input
+                  type={variable.type === 'number' ? 'number' : variable.type === 'url' ? 'url' : 'text'}
+                  className="w-full bg-slate-950/50 border border-slate-700 rounded-lg p-3 text-slate-200 focus:ring-2 focus:ring-indigo-500/50 transition-all"
+                  placeholder={`{{${variable.name}}} in "${activeTemplate?.name}"`}
+                  value={formData.variables?.[variable.name] || ''}
+                  onChange={(e) => updateVariable(variable.name, e.target.value)}
+                />
+              </div>
+            ))}
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6 md:col-span-2 mt-4 pt-6 border-t border-slate-800">
               <div className="space-y-3">
                 <label className="text-xs font-semibold text-slate-400 uppercase flex items-center gap-2">
-                  <Palette size={14} className="text-purple-400" /> Tone & Goal
+                  <Palette size={14} className="text-purple-400" /> Platform, Tone & Goal
                 </label>
                 <div className="flex gap-2">
+                  <select
+                    value={formData.platform}
+                    onChange={(e) => updateField('platform', e.target.value as VoiceNoteInput['platform'])}
+                    className="flex-1 bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500/50"
+                  >
+                    {PLATFORM_OPTIONS.map(p => <option key={p} value={p}>{p}</option>)}
+                  </select>
                   <select 
                     value={formData.tone}
                     onChange={(e) => updateField('tone', e.target.value)}
@@ -317,27 +517,78 @@ const OutreachForm: React.FC<OutreachFormProps> = ({ initialReference, onClearRe
                     onChange={(e) => updateField('goal', e.target.value)}
                     className="flex-1 bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500/50"
                   >
-                    <option value="Permission to Send">Permission</option>
-                    <option value="Testimonial/Feedback">Testimonial</option>
-                    <option value="Book a Call">Book Call</option>
+                    {goalNames.map(g => <option key={g} value={g}>{g}</option>)}
+                  </select>
+                  <button
+                    onClick={() => setShowGoalManager(true)}
+                    title="Manage goals"
+                    className="px-2.5 bg-slate-950 border border-slate-700 rounded-lg text-slate-400 hover:text-white hover:border-slate-600 transition-colors"
+                  >
+                    <Target size={16} />
+                  </button>
+                </div>
+                <p className="text-[10px] text-slate-500 flex items-center gap-1.5">
+                  <Smartphone size={11} /> {platformProfile.minSeconds}-{platformProfile.maxSeconds}s note · follow-up up to {platformProfile.followUpMaxChars} chars · {platformProfile.emoji === 'none' ? 'no emoji' : platformProfile.emoji === 'sparing' ? 'emoji sparingly' : 'emoji ok'}
+                </p>
+              </div>
+
+              <div className="space-y-3">
+                <label className="text-xs font-semibold text-slate-400 uppercase flex items-center gap-2">
+                  <Headset size={14} className="text-blue-400" /> AI Persona & Language
+                </label>
+                <div className="flex gap-2">
+                  <select 
+                    value={formData.selectedVoice}
+                    onChange={(e) => updateField('selectedVoice', e.target.value as VoiceOption)}
+                    className="flex-1 bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500/50"
+                  >
+                    <option value="Zephyr">Zephyr (Balanced)</option>
+                    <option value="Puck">Puck (Energetic)</option>
+                    <option value="Kore">Kore (Cheerful)</option>
+                    <option value="Fenrir">Fenrir (Steady)</option>
+                    <option value="Charon">Charon (Deep)</option>
+                  </select>
+                  <select
+                    value={formData.language}
+                    onChange={(e) => updateField('language', e.target.value as ScriptLanguage)}
+                    title="Script, follow-up and voice language"
+                    className="flex-1 bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500/50"
+                  >
+                    {LANGUAGE_OPTIONS.map(l => <option key={l} value={l}>{SCRIPT_LANGUAGES[l].nativeName}</option>)}
                   </select>
                 </div>
               </div>
+            </div>
 
+            <div className="md:col-span-2 grid grid-cols-2 gap-6">
               <div className="space-y-3">
                 <label className="text-xs font-semibold text-slate-400 uppercase flex items-center gap-2">
-                  <Headset size={14} className="text-blue-400" /> AI Persona (Auto-Sync)
+                  <Columns size={14} className="text-indigo-400" /> Drafts to Compare
                 </label>
                 <select 
-                  value={formData.selectedVoice}
-                  onChange={(e) => updateField('selectedVoice', e.target.value as VoiceOption)}
+                  value={variantCount}
+                  onChange={(e) => setVariantCount(Number(e.target.value))}
                   className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500/50"
                 >
-                  <option value="Zephyr">Zephyr (Balanced)</option>
-                  <option value="Puck">Puck (Energetic)</option>
-                  <option value="Kore">Kore (Cheerful)</option>
-                  <option value="Fenrir">Fenrir (Steady)</option>
-                  <option value="Charon">Charon (Deep)</option>
+                  <option value={1}>Single script</option>
+                  <option value={2}>2 variants (A/B)</option>
+                  <option value={3}>3 variants</option>
+                  <option value={4}>4 variants</option>
+                </select>
+              </div>
+              <div className="space-y-3">
+                <label className="text-xs font-semibold text-slate-400 uppercase flex items-center gap-2">
+                  <Shuffle size={14} className="text-indigo-400" /> Spread Variants By
+                </label>
+                <select 
+                  value={variantSpread}
+                  disabled={variantCount === 1}
+                  onChange={(e) => setVariantSpread(e.target.value as VariantSpread)}
+                  className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500/50 disabled:opacity-40"
+                >
+                  <option value="none">Same tone & opener</option>
+                  <option value="tones">Different tones</option>
+                  <option value="openers">Different openers</option>
                 </select>
               </div>
             </div>
@@ -372,12 +623,23 @@ const OutreachForm: React.FC<OutreachFormProps> = ({ initialReference, onClearRe
 
       {result && (
         <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500 pb-12">
+          {variants.length > 1 && (
+            <VariantComparison
+              variants={variants}
+              activeLabel={activeVariantLabel}
+              savedLabels={savedVariantLabels}
+              onPick={handlePickVariant}
+              onSave={handleSaveVariant}
+              platform={formData.platform}
+            />
+          )}
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             <div className="lg:col-span-2 glass-effect rounded-2xl p-6 border-indigo-500/30 flex flex-col gap-4">
               <div className="flex items-center justify-between">
                 <div className="flex flex-col">
                   <h3 className="text-sm font-bold text-indigo-400 uppercase tracking-widest flex items-center gap-2">
                     <Mic size={16} /> The Voice Note Script
+                    {activeVariantLabel && <span className="text-[10px] text-slate-400 normal-case tracking-normal">({activeVariantLabel.startsWith('Merged') ? activeVariantLabel : `Variant ${activeVariantLabel}`})</span>}
                   </h3>
                   <div className={`text-[10px] font-bold mt-1 uppercase flex items-center gap-1.5 ${durationStatus.color}`}>
                      <Gauge size={12} /> {durationStatus.label} (~{estimatedDuration}s)
@@ -392,6 +654,19 @@ const OutreachForm: React.FC<OutreachFormProps> = ({ initialReference, onClearRe
                     {ttsLoading ? <Loader2 className="animate-spin" size={16} /> : <Volume2 size={16} />}
                     <span className="hidden sm:inline">{isPlaying ? 'Playing...' : 'Voice Preview'}</span>
                   </button>
+                  <button
+                    onClick={() => setShowTeleprompter(true)}
+                    className="text-slate-400 hover:text-white transition-colors p-2 rounded-lg hover:bg-slate-800 flex items-center gap-2 text-xs border border-transparent hover:border-slate-700"
+                    title="Teleprompter"
+                  >
+                    <ScrollText size={16} />
+                  </button>
+                  <AudioDownloadButton
+                    getAudio={getSpeechAudio}
+                    ownerName={formData.ownerName}
+                    businessName={formData.businessName}
+                    onError={setErrorMessage}
+                  />
                   <button 
                     onClick={handleSaveToLibrary}
                     disabled={isSavedInLibrary}
@@ -400,7 +675,7 @@ const OutreachForm: React.FC<OutreachFormProps> = ({ initialReference, onClearRe
                     {isSavedInLibrary ? <Check size={16} /> : <Bookmark size={16} />}
                   </button>
                   <button 
-                    onClick={() => copyToClipboard(result.script, 'script')}
+                    onClick={() => copyToClipboard(scriptText, 'script')}
                     className="text-slate-400 hover:text-white transition-colors p-2 rounded-lg hover:bg-slate-800 flex items-center gap-2 text-xs border border-transparent hover:border-slate-700"
                   >
                     {copiedScript ? <Check size={16} className="text-green-500" /> : <Clipboard size={16} />}
@@ -413,18 +688,58 @@ const OutreachForm: React.FC<OutreachFormProps> = ({ initialReference, onClearRe
                   className={`h-full transition-all duration-1000 ${durationStatus.bar}`} 
                   style={{ width: `${Math.min((estimatedDuration / 60) * 100, 100)}%` }}
                 />
-                <div className="absolute top-0 left-[58%] h-full w-[25%] bg-green-500/20 border-x border-green-500/30"></div>
+                <div
+                  className="absolute top-0 h-full bg-green-500/20 border-x border-green-500/30"
+                  style={{ left: `${(platformProfile.minSeconds / 60) * 100}%`, width: `${((platformProfile.maxSeconds - platformProfile.minSeconds) / 60) * 100}%` }}
+                ></div>
               </div>
 
-              <div className="p-6 bg-slate-950/60 rounded-xl border border-slate-800 text-slate-200 leading-relaxed whitespace-pre-wrap font-medium text-lg min-h-[160px]">
-                {result.script}
-              </div>
+              {missingSlots.length > 0 && (
+                <div className="flex items-start gap-2 px-4 py-3 rounded-xl border border-amber-500/30 bg-amber-500/10 text-xs text-amber-300">
+                  <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+                  <span>
+                    This script dropped template slots: <span className="font-bold">{missingSlots.map(s => s.label).join(', ')}</span>.
+                    Select a section below and rewrite it to work them in, or generate again.
+                  </span>
+                </div>
+              )}
+
+              {platformIssues.length > 0 && (
+                <div className="flex items-start gap-2 px-4 py-3 rounded-xl border border-amber-500/30 bg-amber-500/10 text-xs text-amber-300">
+                  <Smartphone size={14} className="shrink-0 mt-0.5" />
+                  <div className="flex-1 space-y-1">
+                    <span className="font-bold">Off-profile for {formData.platform}:</span>
+                    <ul className="list-disc list-inside space-y-0.5">
+                      {platformIssues.map(issue => <li key={issue.code}>{issue.message}</li>)}
+                    </ul>
+                  </div>
+                  <button
+                    onClick={handleAutoFix}
+                    disabled={isFixing}
+                    title={platformIssues.some(i => i.needsRewrite) ? 'Rewrites the script to fit, then fixes the rest in place' : 'Fixes these in place'}
+                    className="shrink-0 px-3 py-1.5 rounded-lg bg-amber-500/20 hover:bg-amber-500/30 text-amber-200 font-bold flex items-center gap-1.5 disabled:opacity-50"
+                  >
+                    {isFixing ? <Loader2 size={12} className="animate-spin" /> : <Wrench size={12} />} Auto-fix
+                  </button>
+                </div>
+              )}
+
+              <ScriptEditor
+                key={editorKey}
+                ref={scriptEditorRef}
+                sections={result.sections}
+                onChange={sections => setResult(prev => (prev ? { ...prev, sections } : prev))}
+                onRegenerate={handleRegenerateSections}
+              />
             </div>
 
             <div className="flex flex-col gap-6">
               <div className="glass-effect rounded-2xl p-6 border-blue-500/20 flex flex-col shadow-lg shadow-blue-500/5">
                 <h3 className="text-sm font-bold text-blue-400 uppercase tracking-widest flex items-center gap-2 mb-4">
                   <MessageSquare size={16} /> Micro-Text
+                  <span className={`ml-auto text-[10px] font-mono tracking-normal ${result.followUp.length > platformProfile.followUpMaxChars ? 'text-amber-400' : 'text-slate-500'}`}>
+                    {result.followUp.length}/{platformProfile.followUpMaxChars}
+                  </span>
                 </h3>
                 <div className="p-4 bg-blue-500/5 rounded-xl border border-blue-500/10 mb-2 relative group">
                   <p className="text-slate-200 text-sm italic leading-relaxed">"{result.followUp}"</p>
@@ -436,13 +751,27 @@ const OutreachForm: React.FC<OutreachFormProps> = ({ initialReference, onClearRe
                 <h3 className="text-sm font-bold text-purple-400 uppercase tracking-widest flex items-center gap-2 mb-4">
                   <Lightbulb size={16} /> Delivery Tip
                 </h3>
-                <p className="text-slate-500 text-[11px] leading-snug">Modeling as <span className="text-purple-300 font-bold">{formData.selectedVoice}</span>. Remember to match their energy in your actual recording!</p>
+                <p className="text-slate-500 text-[11px] leading-snug">Modeling as <span className="text-purple-300 font-bold">{resultInput.selectedVoice}</span>. Remember to match their energy in your actual recording!</p>
               </div>
             </div>
           </div>
+
+          <DeliveryCoach sections={result.sections} take={rehearsalTake} platform={formData.platform} />
         </div>
       )}
 
+      {showGoalManager && (
+        <GoalManager onClose={() => setShowGoalManager(false)} onSelect={name => updateField('goal', name)} />
+      )}
+
+      {showTeleprompter && result && (
+        <Teleprompter
+          sections={result.sections}
+          onClose={() => setShowTeleprompter(false)}
+          onTakeRecorded={setRehearsalTake}
+        />
+      )}
+
       <div className="text-center opacity-40 mt-4">
         <span className="text-[10px] text-slate-500 uppercase tracking-[0.3em] font-bold">Optimized for Direct Outreach Efficiency</span>
       </div>
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Building, Clock } from 'lucide-react';
+import { PipelineStage, SavedScript } from '../types';
+import { PIPELINE_STAGES } from '../constants';
+import { getStage, getStageChangedAt } from '../services/pipeline';
+
+interface PipelineBoardProps {
+  scripts: SavedScript[];
+  onOpen: (script: SavedScript) => void;
+  onMove: (script: SavedScript, stage: PipelineStage) => void;
+}
+
+const daysAgo = (ts: number) => {
+  const days = Math.floor((Date.now() - ts) / 86400000);
+  return days === 0 ? 'today' : `${days}d ago`;
+};
+
+const PipelineBoard: React.FC<PipelineBoardProps> = ({ scripts, onOpen, onMove }) => {
+  const [dragOverStage, setDragOverStage] = useState<PipelineStage | null>(null);
+
+  const handleDrop = (e: React.DragEvent, stage: PipelineStage) => {
+    e.preventDefault();
+    setDragOverStage(null);
+    const script = scripts.find(s => s.id === e.dataTransfer.getData('text/plain'));
+    if (script && getStage(script) !== stage) onMove(script, stage);
+  };
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-4">
+      {PIPELINE_STAGES.map(stage => {
+        const column = scripts
+          .filter(s => getStage(s) === stage.id)
+          .sort((a, b) => getStageChangedAt(b) - getStageChangedAt(a));
+        return (
+          <div
+            key={stage.id}
+            onDragOver={e => { e.preventDefault(); setDragOverStage(stage.id); }}
+            onDragLeave={() => setDragOverStage(null)}
+            onDrop={e => handleDrop(e, stage.id)}
+            className={`rounded-2xl border p-3 min-h-[240px] flex flex-col gap-2 transition-all ${
+              dragOverStage === stage.id ? 'border-indigo-500 bg-indigo-500/5' : 'border-slate-800 bg-slate-900/30'
+            }`}
+          >
+            <div className="flex items-center justify-between px-1 mb-1">
+              <span className="text-[10px] font-bold uppercase tracking-widest text-slate-300 flex items-center gap-2">
+                <span className={`w-2 h-2 rounded-full ${stage.dot}`} /> {stage.label}
+              </span>
+              <span className="text-[10px] font-bold text-slate-500">{column.length}</span>
+            </div>
+            {column.map(script => (
+              <div
+                key={script.id}
+                draggable
+                onDragStart={e => e.dataTransfer.setData('text/plain', script.id)}
+                onClick={() => onOpen(script)}
+                className="p-3 rounded-xl bg-slate-950/70 border border-slate-800 hover:border-slate-600 cursor-grab active:cursor-grabbing transition-all"
+              >
+                <div className="text-xs font-bold text-white truncate">{script.ownerName}</div>
+                <div className="text-[10px] text-slate-400 truncate flex items-center gap-1">
+                  <Building size={10} /> {script.businessName}
+                </div>
+                <div className="text-[10px] text-slate-600 mt-1 flex items-center gap-1">
+                  <Clock size={10} /> {daysAgo(getStageChangedAt(script))}
+                </div>
+              </div>
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PipelineBoard;
@@ -0,0 +1,265 @@
+import React, { useState } from 'react';
+import { X, MessageSquareReply, Loader2, Wand2, Copy, Check, Send, Undo2, RefreshCw, FileAudio, Mic, MessageSquare, AlertCircle } from 'lucide-react';
+import { ReplyIntent, SavedScript, SequenceChannel, ThreadMessage } from '../types';
+import { REPLY_INTENTS } from '../constants';
+import { analyzeReply, generateSpeech } from '../services/geminiService';
+import { AUDIO_UPLOAD_TYPES, MAX_AUDIO_FILE_BYTES, prepareAudioFile, AudioChunk } from '../services/audioFiles';
+import { getThread, intentMeta, logReply, threadBefore, updateThreadMessage } from '../services/replies';
+import AudioDownloadButton from './AudioDownloadButton';
+
+interface ReplyThreadDialogProps {
+  script: SavedScript;
+  onUpdate: (updated: SavedScript) => void;
+  onClose: () => void;
+}
+
+const formatTime = (ts: number) => new Date(ts).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const ChannelIcon: React.FC<{ channel: SequenceChannel }> = ({ channel }) =>
+  channel === 'voice_note' ? <Mic size={11} className="text-indigo-400" /> : <MessageSquare size={11} className="text-blue-400" />;
+
+/**
+ * A lead's replies and our answers. Each new reply, pasted or uploaded as a
+ * voice note, is classified and answered in one go, then logged to the thread.
+ */
+const ReplyThreadDialog: React.FC<ReplyThreadDialogProps> = ({ script, onUpdate, onClose }) => {
+  const [replyText, setReplyText] = useState('');
+  const [responseChannel, setResponseChannel] = useState<SequenceChannel>('voice_note');
+  const [status, setStatus] = useState<string | null>(null);
+  const [redraftingId, setRedraftingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const thread = getThread(script);
+  const isBusy = !!status || !!redraftingId;
+
+  const handleAnalyze = async (reply: string | AudioChunk[], replyChannel: SequenceChannel) => {
+    setError(null);
+    try {
+      const analysis = await analyzeReply(script, reply, {
+        responseChannel,
+        onProgress: (done, total) => setStatus(done < total ? `Transcribing part ${done + 1} of ${total}...` : 'Reading the reply...'),
+      });
+      onUpdate(logReply(script, analysis, { reply: replyChannel, response: responseChannel }));
+      setReplyText('');
+    } catch (err: any) {
+      setError(err.message || 'Could not analyze this reply.');
+    } finally {
+      setStatus(null);
+    }
+  };
+
+  const handleText = () => {
+    setStatus('Reading the reply...');
+    handleAnalyze(replyText, 'text');
+  };
+
+  const handleFile = async (file: File) => {
+    if (isBusy) return;
+    setError(null);
+    setStatus(`Reading ${file.name}...`);
+    try {
+      const chunks = await prepareAudioFile(file);
+      setStatus(chunks.length > 1 ? `Transcribing part 1 of ${chunks.length}...` : 'Listening to the reply...');
+      await handleAnalyze(chunks, 'voice_note');
+    } catch (err: any) {
+      setError(err.message || 'Could not process that file.');
+      setStatus(null);
+    }
+  };
+
+  const handleRedraft = async (answer: ThreadMessage) => {
+    const reply = thread.find(m => m.id === answer.inReplyTo);
+    if (!reply) return;
+    setRedraftingId(answer.id);
+    setError(null);
+    try {
+      const analysis = await analyzeReply({ ...script, thread: threadBefore(script, reply.id) }, reply.content, {
+        responseChannel: answer.channel,
+        intent: reply.intent,
+      });
+      onUpdate(updateThreadMessage(script, answer.id, { content: analysis.response, sentAt: undefined }));
+    } catch (err: any) {
+      setError(err.message || 'Could not redraft the answer.');
+    } finally {
+      setRedraftingId(null);
+    }
+  };
+
+  const handleCopy = (message: ThreadMessage) => {
+    navigator.clipboard.writeText(message.content);
+    setCopiedId(message.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  // Voice answers are rendered with the voice and tone the original note used.
+  const renderAnswer = (message: ThreadMessage) =>
+    generateSpeech(message.content, script.voice || 'Zephyr', script.tone || 'Professional', script.language);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[90vh] overflow-y-auto custom-scrollbar p-6 bg-slate-900 rounded-2xl border border-indigo-500/40 shadow-2xl animate-in fade-in zoom-in-95 duration-200 space-y-5"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-start">
+          <div>
+            <span className="text-[10px] font-bold text-indigo-400 uppercase tracking-widest flex items-center gap-1.5"><MessageSquareReply size={12} /> Replies</span>
+            <h3 className="text-white font-bold">{script.ownerName} @ {script.businessName}</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        {thread.length === 0 ? (
+          <p className="text-xs text-slate-500 p-4 rounded-xl bg-slate-950/60 border border-slate-800">
+            No replies logged yet. Paste what {script.ownerName} wrote back or upload their voice note. It is classified, and an answer is drafted in the voice of your original note.
+          </p>
+        ) : (
+          <ol className="space-y-3">
+            {thread.map(message => message.direction === 'inbound' ? (
+              <li key={message.id} className="p-4 rounded-xl border border-slate-800 bg-slate-950/60 space-y-2 mr-8">
+                <div className="flex flex-wrap items-center gap-2 text-[11px]">
+                  <ChannelIcon channel={message.channel} />
+                  <span className="font-bold text-white">{script.ownerName}</span>
+                  <span className="text-slate-500">{formatTime(message.createdAt)}</span>
+                  <select
+                    value={message.intent}
+                    onChange={e => onUpdate(updateThreadMessage(script, message.id, { intent: e.target.value as ReplyIntent, intentReason: undefined }))}
+                    title="Change the classification, then redraft the answer"
+                    className={`ml-auto px-2 py-0.5 rounded-md text-[10px] font-bold uppercase tracking-wider border bg-transparent ${message.intent ? intentMeta(message.intent).color : 'border-slate-700 text-slate-400'}`}
+                  >
+                    {REPLY_INTENTS.map(intent => (
+                      <option key={intent.id} value={intent.id} className="bg-slate-900 text-slate-200">{intent.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <p className="text-xs text-slate-300 leading-relaxed whitespace-pre-wrap">{message.content}</p>
+                {message.intentReason && <p className="text-[10px] text-slate-500 italic">{message.intentReason}</p>}
+              </li>
+            ) : (
+              <li key={message.id} className="p-4 rounded-xl border border-indigo-500/30 bg-indigo-500/5 space-y-2 ml-8">
+                <div className="flex flex-wrap items-center gap-2 text-[11px]">
+                  <span className="font-bold text-indigo-300">Your answer</span>
+                  <select
+                    value={message.channel}
+                    onChange={e => onUpdate(updateThreadMessage(script, message.id, { channel: e.target.value as SequenceChannel }))}
+                    className="bg-slate-950 border border-slate-700 rounded-md px-1.5 py-0.5 text-slate-200"
+                  >
+                    <option value="voice_note">Voice note</option>
+                    <option value="text">Text</option>
+                  </select>
+                  <span className={`ml-auto font-bold uppercase tracking-wider text-[10px] ${message.sentAt ? 'text-green-400' : 'text-slate-500'}`}>
+                    {message.sentAt ? `Sent ${formatTime(message.sentAt)}` : 'Draft'}
+                  </span>
+                </div>
+                <textarea
+                  key={`${message.id}-${message.content}`}
+                  defaultValue={message.content}
+                  onBlur={e => e.target.value !== message.content && onUpdate(updateThreadMessage(script, message.id, { content: e.target.value }))}
+                  className="w-full h-20 bg-slate-950 border border-slate-700 rounded-lg p-2 text-xs text-slate-200 resize-none"
+                />
+                <div className="flex gap-2 justify-end items-center">
+                  <button
+                    onClick={() => handleCopy(message)}
+                    className="px-2 py-1 rounded-md text-[11px] text-slate-400 hover:text-white flex items-center gap-1"
+                  >
+                    {copiedId === message.id ? <Check size={12} className="text-green-400" /> : <Copy size={12} />} Copy
+                  </button>
+                  {message.channel === 'voice_note' && (
+                    <AudioDownloadButton
+                      compact
+                      getAudio={() => renderAnswer(message)}
+                      ownerName={script.ownerName}
+                      businessName={script.businessName}
+                      onError={setError}
+                    />
+                  )}
+                  <button
+                    onClick={() => handleRedraft(message)}
+                    disabled={isBusy}
+                    title="Draft again for the reply's current classification"
+                    className="px-2 py-1 rounded-md text-[11px] text-slate-400 hover:text-white flex items-center gap-1 disabled:opacity-40"
+                  >
+                    {redraftingId === message.id ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />} Redraft
+                  </button>
+                  {message.sentAt ? (
+                    <button
+                      onClick={() => onUpdate(updateThreadMessage(script, message.id, { sentAt: undefined }))}
+                      className="px-2 py-1 rounded-md text-[11px] text-slate-400 hover:text-white flex items-center gap-1"
+                    >
+                      <Undo2 size={12} /> Undo
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => onUpdate(updateThreadMessage(script, message.id, { sentAt: Date.now() }))}
+                      className="px-2 py-1 rounded-md text-[11px] font-bold bg-indigo-600/20 text-indigo-300 hover:bg-indigo-600/30 flex items-center gap-1"
+                    >
+                      <Send size={12} /> Mark Sent
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <div className="p-4 rounded-xl border border-slate-800 space-y-3">
+          <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">New Reply</label>
+          <textarea
+            value={replyText}
+            onChange={e => setReplyText(e.target.value)}
+            disabled={isBusy}
+            placeholder={`Paste what ${script.ownerName} wrote back...`}
+            className="w-full h-20 bg-slate-950 border border-slate-700 rounded-lg p-2 text-xs text-slate-200 resize-none disabled:opacity-60"
+          />
+          <div className="flex flex-wrap items-center gap-2">
+            <label
+              className={`px-3 py-2 rounded-lg border border-dashed text-[11px] font-bold flex items-center gap-1.5 ${
+                isBusy ? 'border-slate-800 text-slate-600 cursor-wait' : 'border-slate-700 text-slate-400 hover:text-white hover:border-indigo-500/50 cursor-pointer'
+              }`}
+              title={`Voice reply: m4a, mp3, wav or ogg, up to ${MAX_AUDIO_FILE_BYTES / 1024 / 1024} MB`}
+            >
+              <FileAudio size={14} /> Upload Voice Reply
+              <input
+                type="file"
+                accept={AUDIO_UPLOAD_TYPES}
+                className="hidden"
+                disabled={isBusy}
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            <label className="text-[11px] text-slate-400 flex items-center gap-1.5 ml-auto">
+              Answer as
+              <select
+                value={responseChannel}
+                onChange={e => setResponseChannel(e.target.value as SequenceChannel)}
+                className="bg-slate-950 border border-slate-700 rounded-md px-1.5 py-1 text-slate-200"
+              >
+                <option value="voice_note">Voice note</option>
+                <option value="text">Text</option>
+              </select>
+            </label>
+            <button
+              onClick={handleText}
+              disabled={isBusy || !replyText.trim()}
+              className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-800 disabled:text-slate-500 text-white rounded-lg text-xs font-bold flex items-center gap-2 shadow-lg shadow-indigo-500/20 transition-all"
+            >
+              {status ? <Loader2 size={14} className="animate-spin" /> : <Wand2 size={14} />} {status || 'Classify & Draft'}
+            </button>
+          </div>
+          {error && (
+            <p className="text-[11px] text-red-400 flex items-center gap-1.5"><AlertCircle size={12} /> {error}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplyThreadDialog;
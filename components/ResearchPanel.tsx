@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { Globe, Upload, Loader2, Search, ChevronDown, ChevronUp, Quote, AlertTriangle, ArrowDownToLine, X } from 'lucide-react';
+import { LeadResearch, ResearchSourceType, VoiceNoteInput } from '../types';
+import { researchLead } from '../services/geminiService';
+import { readFileAsText } from '../services/fileService';
+import { MAX_SOURCE_CHARS, RESEARCH_FILE_TYPES, RESEARCH_SOURCE_LABELS, detectSourceType, prepareSource } from '../services/leadResearch';
+
+interface ResearchPanelProps {
+  // Receives only the fields picked for review; empty picks are left out.
+  onApply: (fields: Partial<VoiceNoteInput>) => void;
+}
+
+const SOURCE_TYPES = Object.keys(RESEARCH_SOURCE_LABELS) as ResearchSourceType[];
+
+const ResearchPanel: React.FC<ResearchPanelProps> = ({ onApply }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [source, setSource] = useState('');
+  const [sourceType, setSourceType] = useState<ResearchSourceType>('website');
+  const [fileName, setFileName] = useState('');
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [research, setResearch] = useState<LeadResearch | null>(null);
+  const [truncated, setTruncated] = useState(false);
+  const [gapIndex, setGapIndex] = useState(0);
+  const [ideaIndex, setIdeaIndex] = useState(0);
+
+  const updateSource = (text: string) => {
+    setSource(text);
+    if (text.trim()) setSourceType(detectSourceType(text));
+  };
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    try {
+      updateSource(await readFileAsText(file));
+      setFileName(file.name);
+    } catch (err: any) {
+      setError(err.message || 'Could not read the file.');
+    }
+  };
+
+  const handleAnalyze = async () => {
+    if (isAnalyzing) return;
+    const prepared = prepareSource(source);
+    setIsAnalyzing(true);
+    setError(null);
+    try {
+      const result = await researchLead(prepared.text, sourceType);
+      setResearch(result);
+      setTruncated(prepared.truncated);
+      // Prefer a gap whose quote was found in the source.
+      setGapIndex(Math.max(0, result.gaps.findIndex(g => g.verified)));
+      setIdeaIndex(0);
+    } catch (err: any) {
+      setError(err.message || 'Research failed.');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const handleApply = () => {
+    if (!research) return;
+    const gap = research.gaps[gapIndex]?.gap;
+    const idea = research.valueIdeas[ideaIndex];
+    onApply({
+      ...(research.ownerName && { ownerName: research.ownerName }),
+      ...(research.businessName && { businessName: research.businessName }),
+      ...(gap && { identifiedGap: gap }),
+      ...(idea && { freeValue: idea }),
+    });
+    setIsOpen(false);
+  };
+
+  const handleClear = () => {
+    setSource('');
+    setFileName('');
+    setResearch(null);
+    setError(null);
+  };
+
+  return (
+    <div className="bg-slate-950/40 border border-slate-800 rounded-xl">
+      <button onClick={() => setIsOpen(open => !open)} className="w-full flex items-center justify-between px-4 py-3 text-left">
+        <span className="flex items-center gap-2 text-xs font-bold text-slate-300">
+          <Globe size={14} className="text-indigo-400" /> Research from a website or profile
+        </span>
+        {isOpen ? <ChevronUp size={14} className="text-slate-500" /> : <ChevronDown size={14} className="text-slate-500" />}
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4 space-y-4 animate-in slide-in-from-top-2 duration-200">
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={sourceType}
+              onChange={e => setSourceType(e.target.value as ResearchSourceType)}
+              className="bg-slate-950 border border-slate-700 rounded-lg px-2 py-2 text-xs text-slate-200"
+            >
+              {SOURCE_TYPES.map(type => <option key={type} value={type}>{RESEARCH_SOURCE_LABELS[type]}</option>)}
+            </select>
+            <label className="px-3 py-2 bg-slate-900 border border-slate-700 hover:border-slate-600 rounded-lg text-xs font-bold text-slate-300 flex items-center gap-1.5 cursor-pointer">
+              <Upload size={12} /> {fileName || 'Upload saved page'}
+              <input
+                type="file"
+                accept={RESEARCH_FILE_TYPES}
+                className="hidden"
+                onChange={e => {
+                  const file = e.target.files?.[0];
+                  if (file) handleFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+            {source && (
+              <button onClick={handleClear} className="text-slate-500 hover:text-white transition-colors" title="Clear">
+                <X size={14} />
+              </button>
+            )}
+          </div>
+
+          <textarea
+            value={source}
+            onChange={e => updateSource(e.target.value)}
+            placeholder="Paste the website HTML or text, an Instagram bio, or a LinkedIn About section..."
+            className="w-full h-28 bg-slate-950/50 border border-slate-700 rounded-lg p-3 text-xs text-slate-200 placeholder:text-slate-600 focus:ring-2 focus:ring-indigo-500/50 resize-none font-mono"
+          />
+
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-[10px] text-slate-500">Long pages are cut to {MAX_SOURCE_CHARS.toLocaleString()} characters of text.</span>
+            <button
+              onClick={handleAnalyze}
+              disabled={isAnalyzing || !source.trim()}
+              className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-bold flex items-center gap-2 disabled:opacity-40"
+            >
+              {isAnalyzing ? <Loader2 size={14} className="animate-spin" /> : <Search size={14} />} Extract Lead Details
+            </button>
+          </div>
+
+          {error && <p className="text-[11px] text-red-400">{error}</p>}
+
+          {research && (
+            <div className="space-y-4 pt-4 border-t border-slate-800">
+              {truncated && <p className="text-[10px] text-amber-400">Only the first part of this page was analyzed.</p>}
+              <div className="grid grid-cols-2 gap-3 text-xs">
+                <div>
+                  <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest block">Owner</span>
+                  <span className="text-slate-200">{research.ownerName || <span className="text-slate-600">Not found</span>}</span>
+                </div>
+                <div>
+                  <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest block">Business</span>
+                  <span className="text-slate-200">{research.businessName || <span className="text-slate-600">Not found</span>}</span>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <span className="text-[10px] font-bold text-orange-400 uppercase tracking-widest block">Candidate Gaps</span>
+                {research.gaps.length === 0 && <p className="text-[11px] text-slate-500">No clear gaps found.</p>}
+                {research.gaps.map((gap, idx) => (
+                  <label key={idx} className={`block p-3 rounded-lg border cursor-pointer ${gapIndex === idx ? 'border-indigo-500 bg-indigo-500/10' : 'border-slate-800 hover:border-slate-700'}`}>
+                    <div className="flex items-start gap-2">
+                      <input type="radio" className="accent-indigo-500 mt-0.5" checked={gapIndex === idx} onChange={() => setGapIndex(idx)} />
+                      <div className="space-y-1">
+                        <div className="text-xs text-slate-200">{gap.gap}</div>
+                        {gap.evidence && (
+                          <div className="text-[11px] text-slate-500 italic flex items-start gap-1.5">
+                            <Quote size={10} className="mt-0.5 shrink-0" /> {gap.evidence}
+                          </div>
+                        )}
+                        {!gap.verified && (
+                          <div className="text-[10px] text-amber-400 flex items-center gap-1"><AlertTriangle size={10} /> Quote not found in the source; double-check it.</div>
+                        )}
+                      </div>
+                    </div>
+                  </label>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <span className="text-[10px] font-bold text-green-400 uppercase tracking-widest block">Free Value Ideas</span>
+                {research.valueIdeas.map((idea, idx) => (
+                  <label key={idx} className="flex items-start gap-2 text-xs text-slate-300 cursor-pointer">
+                    <input type="radio" className="accent-indigo-500 mt-0.5" checked={ideaIndex === idx} onChange={() => setIdeaIndex(idx)} />
+                    {idea}
+                  </label>
+                ))}
+              </div>
+
+              <div className="flex justify-end">
+                <button
+                  onClick={handleApply}
+                  className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-bold flex items-center gap-2"
+                >
+                  <ArrowDownToLine size={14} /> Fill Form for Review
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResearchPanel;
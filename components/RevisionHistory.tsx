@@ -0,0 +1,108 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { RotateCcw, GitCompare } from 'lucide-react';
+import { RevisionSource } from '../types';
+import { REVISION_SOURCES } from '../constants';
+import { diffWords } from '../services/versioning';
+
+export interface RevisionEntry {
+  id: string;
+  createdAt: number;
+  source: RevisionSource;
+  note: string;
+  // Text the diff is computed over.
+  text: string;
+}
+
+interface RevisionHistoryProps {
+  revisions: RevisionEntry[];
+  onRestore: (id: string) => void;
+}
+
+const formatDateTime = (ts: number) =>
+  new Date(ts).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+/**
+ * Version list with a word-level diff between any two revisions. Defaults to
+ * comparing the previous version against the current one.
+ */
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ revisions, onRestore }) => {
+  const latest = revisions.length - 1;
+  const [baseIndex, setBaseIndex] = useState(Math.max(0, latest - 1));
+  const [compareIndex, setCompareIndex] = useState(latest);
+
+  // A restore appends a revision; jump the comparison to it.
+  useEffect(() => {
+    setBaseIndex(Math.max(0, latest - 1));
+    setCompareIndex(latest);
+  }, [latest]);
+
+  const base = revisions[Math.min(baseIndex, latest)];
+  const compare = revisions[Math.min(compareIndex, latest)];
+  const parts = useMemo(() => diffWords(base.text, compare.text), [base, compare]);
+
+  const handleClick = (idx: number, e: React.MouseEvent) => {
+    // Shift-click picks the older side of the comparison.
+    if (e.shiftKey) setBaseIndex(idx);
+    else setCompareIndex(idx);
+  };
+
+  return (
+    <div className="grid md:grid-cols-5 gap-4">
+      <div className="md:col-span-2 space-y-1.5 max-h-[420px] overflow-y-auto custom-scrollbar pr-1">
+        {[...revisions].reverse().map((rev, reversedIdx) => {
+          const idx = latest - reversedIdx;
+          const meta = REVISION_SOURCES[rev.source];
+          const isBase = idx === baseIndex;
+          const isCompare = idx === compareIndex;
+          return (
+            <div
+              key={rev.id}
+              onClick={e => handleClick(idx, e)}
+              className={`p-2.5 rounded-xl border cursor-pointer transition-all ${
+                isCompare ? 'border-indigo-500 bg-indigo-500/10' : isBase ? 'border-slate-500 bg-slate-800/50' : 'border-slate-800 hover:border-slate-700'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-black text-white">
+                  v{idx + 1}
+                  {idx === latest && <span className="ml-1.5 text-[10px] text-green-400 font-bold">current</span>}
+                  {isBase && <span className="ml-1.5 text-[10px] text-slate-400 font-bold">base</span>}
+                </span>
+                <span className={`px-1.5 py-0.5 rounded text-[9px] font-bold uppercase tracking-wider border ${meta.color}`}>{meta.label}</span>
+              </div>
+              <div className="text-[10px] text-slate-500 mt-1">{formatDateTime(rev.createdAt)}</div>
+              {rev.note && <div className="text-[11px] text-slate-400 mt-0.5 truncate" title={rev.note}>{rev.note}</div>}
+              {idx !== latest && (
+                <button
+                  onClick={e => { e.stopPropagation(); onRestore(rev.id); }}
+                  className="mt-1.5 text-[10px] font-bold text-indigo-300 hover:text-white flex items-center gap-1"
+                >
+                  <RotateCcw size={10} /> Restore
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="md:col-span-3 space-y-2">
+        <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest flex items-center gap-2">
+          <GitCompare size={12} /> v{Math.min(baseIndex, latest) + 1} → v{Math.min(compareIndex, latest) + 1}
+          <span className="normal-case tracking-normal font-normal">(click to compare, shift-click to set base)</span>
+        </div>
+        <div className="p-4 rounded-xl bg-slate-950/60 border border-slate-800 text-sm leading-relaxed text-slate-300 max-h-[380px] overflow-y-auto custom-scrollbar">
+          {parts.map((part, idx) => (
+            <React.Fragment key={idx}>
+              {part.type === 'same' && <span>{part.text}</span>}
+              {part.type === 'removed' && <span className="bg-red-500/15 text-red-300 line-through">{part.text}</span>}
+              {part.type === 'added' && <span className="bg-green-500/15 text-green-300">{part.text}</span>}
+              {' '}
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RevisionHistory;
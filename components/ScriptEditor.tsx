@@ -0,0 +1,255 @@
+import React, { useState, useEffect, useImperativeHandle, forwardRef } from 'react';
+import { Undo2, Redo2, History, Wand2, Loader2, Pencil, Check, X } from 'lucide-react';
+import { ScriptSection } from '../types';
+import { SCRIPT_SECTION_ROLES } from '../constants';
+import { formatMarker, getRoleLabel } from '../services/scriptSections';
+
+export interface ScriptChange {
+  kind: 'edit' | 'rewrite' | 'undo' | 'redo';
+  label: string;
+}
+
+interface ScriptEditorProps {
+  sections: ScriptSection[];
+  onChange: (sections: ScriptSection[], change: ScriptChange) => void;
+  onRegenerate: (indices: number[], instruction: string) => Promise<ScriptSection[]>;
+}
+
+export interface ScriptEditorHandle {
+  // Replaces the sections as one undoable change, e.g. for fixes made outside the editor.
+  applyChange: (sections: ScriptSection[], label: string) => void;
+}
+
+interface Revision {
+  sections: ScriptSection[];
+  label: string;
+  at: number;
+}
+
+const QUICK_INSTRUCTIONS = ['Make it shorter', 'Less salesy', 'More casual', 'More specific', 'Stronger ask'];
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable);
+
+/**
+ * Inline editor for a generated script. Sections can be edited in place or
+ * selected and rewritten by instruction while the rest stays fixed. Every
+ * change is kept in an undo/redo history; remount (via `key`) to start a new one.
+ * Changes made outside the editor go through `applyChange` on its ref.
+ */
+const ScriptEditor = forwardRef<ScriptEditorHandle, ScriptEditorProps>(({ sections, onChange, onRegenerate }, ref) => {
+  const [past, setPast] = useState<Revision[]>([]);
+  const [future, setFuture] = useState<Revision[]>([]);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draftText, setDraftText] = useState('');
+  const [instruction, setInstruction] = useState('');
+  const [isRegenerating, setIsRegenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const commit = (next: ScriptSection[], label: string, kind: ScriptChange['kind']) => {
+    setPast(prev => [...prev, { sections, label, at: Date.now() }]);
+    setFuture([]);
+    onChange(next, { kind, label });
+  };
+
+  useImperativeHandle(ref, () => ({
+    applyChange: (next: ScriptSection[], label: string) => commit(next, label, 'rewrite'),
+  }));
+
+  const undo = () => {
+    if (past.length === 0) return;
+    const previous = past[past.length - 1];
+    setPast(past.slice(0, -1));
+    setFuture(prev => [{ sections, label: previous.label, at: Date.now() }, ...prev]);
+    onChange(previous.sections, { kind: 'undo', label: `Undo ${previous.label}` });
+  };
+
+  const redo = () => {
+    if (future.length === 0) return;
+    const [next, ...rest] = future;
+    setFuture(rest);
+    setPast(prev => [...prev, { sections, label: next.label, at: Date.now() }]);
+    onChange(next.sections, { kind: 'redo', label: `Redo ${next.label}` });
+  };
+
+  /** Jumps back to the state just before revision `index` in the past stack. */
+  const restoreTo = (index: number) => {
+    const target = past[index];
+    const undone = past.slice(index);
+    setPast(past.slice(0, index));
+    setFuture(prev => [
+      ...undone.map((rev, i) => ({ sections: i + 1 < undone.length ? undone[i + 1].sections : sections, label: rev.label, at: Date.now() })),
+      ...prev,
+    ]);
+    onChange(target.sections, { kind: 'undo', label: `Undo back to before ${target.label}` });
+  };
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || isTypingTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) { e.preventDefault(); undo(); }
+      else if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); redo(); }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  const toggleSelected = (idx: number) => {
+    setSelected(prev => (prev.includes(idx) ? prev.filter(i => i !== idx) : [...prev, idx].sort((a, b) => a - b)));
+  };
+
+  const startEditing = (idx: number) => {
+    setEditingIndex(idx);
+    setDraftText(sections[idx].text);
+  };
+
+  const finishEditing = () => {
+    if (editingIndex === null) return;
+    const text = draftText.trim();
+    if (text && text !== sections[editingIndex].text) {
+      commit(
+        sections.map((s, i) => (i === editingIndex ? { ...s, text } : s)),
+        `Edited ${getRoleLabel(sections[editingIndex].role)}`,
+        'edit'
+      );
+    }
+    setEditingIndex(null);
+  };
+
+  const handleRegenerate = async (text: string = instruction) => {
+    if (selected.length === 0 || isRegenerating) return;
+    setIsRegenerating(true);
+    setError(null);
+    try {
+      const next = await onRegenerate(selected, text);
+      const roles = selected.map(idx => getRoleLabel(sections[idx].role)).join(', ');
+      commit(next, `Rewrote ${roles}${text ? `: ${text}` : ''}`, 'rewrite');
+      setInstruction('');
+    } catch (err: any) {
+      setError(err.message || "Regeneration failed.");
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] text-slate-500">Click text to edit · click a label to select it for rewriting</span>
+        <div className="flex items-center gap-1">
+          <button onClick={undo} disabled={past.length === 0} title="Undo (Ctrl+Z)" className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30">
+            <Undo2 size={14} />
+          </button>
+          <button onClick={redo} disabled={future.length === 0} title="Redo (Ctrl+Shift+Z)" className="p-1.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30">
+            <Redo2 size={14} />
+          </button>
+          <button
+            onClick={() => setShowHistory(v => !v)}
+            disabled={past.length === 0}
+            className={`px-2 py-1 rounded-lg text-[10px] font-bold flex items-center gap-1 disabled:opacity-30 ${showHistory ? 'bg-slate-800 text-white' : 'text-slate-400 hover:text-white'}`}
+          >
+            <History size={12} /> {past.length}
+          </button>
+        </div>
+      </div>
+
+      {showHistory && past.length > 0 && (
+        <div className="rounded-xl border border-slate-800 bg-slate-950/60 p-2 space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+          {past.map((rev, idx) => (
+            <button
+              key={rev.at + idx}
+              onClick={() => restoreTo(idx)}
+              className="w-full text-left px-2 py-1 rounded-md text-[11px] text-slate-400 hover:bg-slate-800 hover:text-white flex justify-between gap-2"
+              title="Restore the script to before this change"
+            >
+              <span className="truncate">{idx + 1}. {rev.label}</span>
+              <span className="text-slate-600 shrink-0">{new Date(rev.at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="p-6 bg-slate-950/60 rounded-xl border border-slate-800 text-slate-200 leading-relaxed font-medium text-lg min-h-[160px] space-y-3">
+        {sections.map((section, idx) => {
+          const isSelected = selected.includes(idx);
+          return (
+            <div key={idx} className={`rounded-lg -mx-2 px-2 py-1 transition-all ${isSelected ? 'bg-indigo-500/10 ring-1 ring-indigo-500/40' : ''}`}>
+              <button onClick={() => toggleSelected(idx)} className="flex items-center gap-2 text-[10px] font-mono">
+                <span className={`w-3 h-3 rounded border flex items-center justify-center ${isSelected ? 'bg-indigo-500 border-indigo-500' : 'border-slate-600'}`}>
+                  {isSelected && <Check size={10} className="text-white" />}
+                </span>
+                <span className="text-indigo-400">{formatMarker(section)}</span>
+                <span className={`uppercase tracking-widest font-bold ${SCRIPT_SECTION_ROLES.find(r => r.id === section.role)?.color}`}>{getRoleLabel(section.role)}</span>
+              </button>
+              {editingIndex === idx ? (
+                <div className="mt-1 space-y-1">
+                  <textarea
+                    autoFocus
+                    value={draftText}
+                    onChange={e => setDraftText(e.target.value)}
+                    onBlur={finishEditing}
+                    onKeyDown={e => {
+                      if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) finishEditing();
+                      if (e.key === 'Escape') setEditingIndex(null);
+                    }}
+                    rows={Math.max(2, Math.ceil(draftText.length / 60))}
+                    className="w-full bg-slate-900 border border-indigo-500/50 rounded-lg px-3 py-2 text-base focus:outline-none resize-none"
+                  />
+                  <span className="text-[10px] text-slate-500">Ctrl+Enter or click away to save · Esc to cancel</span>
+                </div>
+              ) : (
+                <p onClick={() => startEditing(idx)} className="group cursor-text hover:bg-slate-900/60 rounded-md">
+                  {section.text}
+                  <Pencil size={12} className="inline ml-2 text-slate-600 opacity-0 group-hover:opacity-100" />
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {selected.length > 0 && (
+        <div className="rounded-xl border border-indigo-500/30 bg-indigo-500/5 p-3 space-y-2 animate-in fade-in slide-in-from-top-2 duration-200">
+          <div className="flex flex-wrap gap-1.5">
+            {QUICK_INSTRUCTIONS.map(q => (
+              <button
+                key={q}
+                onClick={() => handleRegenerate(q)}
+                disabled={isRegenerating}
+                className="px-2.5 py-1 rounded-md text-[11px] font-bold bg-slate-900 border border-slate-700 text-slate-300 hover:text-white hover:border-indigo-500 disabled:opacity-40"
+              >
+                {q}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={instruction}
+              onChange={e => setInstruction(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleRegenerate()}
+              placeholder='e.g. "mention their Google reviews"'
+              className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+            />
+            <button
+              onClick={() => handleRegenerate()}
+              disabled={isRegenerating}
+              className="px-4 py-2 rounded-lg text-xs font-bold flex items-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50"
+            >
+              {isRegenerating ? <Loader2 size={14} className="animate-spin" /> : <Wand2 size={14} />}
+              Rewrite {selected.length === 1 ? getRoleLabel(sections[selected[0]].role) : `${selected.length} Sections`}
+            </button>
+            <button onClick={() => setSelected([])} className="p-2 rounded-lg text-slate-500 hover:text-white" title="Clear selection">
+              <X size={14} />
+            </button>
+          </div>
+          {error && <p className="text-xs text-red-400">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default ScriptEditor;
@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { X, Pencil, History, FileText, Loader2 } from 'lucide-react';
+import { CustomTemplate, SavedScript, ScriptSection, VoiceNoteInput } from '../types';
+import { TONE_VOICE_MAP } from '../constants';
+import { regenerateSections } from '../services/geminiService';
+import { getSections, speechText } from '../services/scriptSections';
+import { templateStore } from '../services/storage';
+import { getScriptRevisions, reviseScript, restoreScriptRevision } from '../services/versioning';
+import ScriptEditor, { ScriptChange } from './ScriptEditor';
+import RevisionHistory from './RevisionHistory';
+
+interface ScriptHistoryDialogProps {
+  script: SavedScript;
+  onUpdate: (script: SavedScript) => void;
+  onClose: () => void;
+}
+
+// Library entries keep only the lead's names; the current script text carries the gap and value.
+const leadInputFor = (script: SavedScript): VoiceNoteInput => {
+  const tone = script.tone || 'Professional';
+  return {
+    ownerName: script.ownerName,
+    businessName: script.businessName,
+    identifiedGap: '',
+    freeValue: '',
+    platform: script.platform || 'Instagram',
+    tone,
+    goal: script.goal || 'Permission to Send',
+    selectedVoice: script.voice || TONE_VOICE_MAP[tone],
+  };
+};
+
+const ScriptHistoryDialog: React.FC<ScriptHistoryDialogProps> = ({ script, onUpdate, onClose }) => {
+  const [tab, setTab] = useState<'edit' | 'history'>('edit');
+  const [templates, setTemplates] = useState<CustomTemplate[]>(templateStore.get);
+  const [isRestructuring, setIsRestructuring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Remounts the editor (and clears its undo stack) after a restore or template change.
+  const [editorKey, setEditorKey] = useState(0);
+
+  useEffect(() => templateStore.subscribe(setTemplates), []);
+
+  const sections = getSections(script);
+  const revisions = getScriptRevisions(script);
+
+  const handleEditorChange = (next: ScriptSection[], change: ScriptChange) => {
+    onUpdate(reviseScript(script, { sections: next }, change.kind === 'rewrite' ? 'regeneration' : 'manual_edit', change.label));
+  };
+
+  const handleRegenerate = (indices: number[], instruction: string) =>
+    regenerateSections(leadInputFor(script), sections, indices, instruction, undefined, undefined);
+
+  const handleTemplateChange = async (templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    if (!template || isRestructuring) return;
+    setIsRestructuring(true);
+    setError(null);
+    try {
+      const next = await regenerateSections(
+        leadInputFor(script),
+        sections,
+        sections.map((_, idx) => idx),
+        'Restructure the whole script to follow the custom template, keeping the facts about this lead.',
+        template
+      );
+      onUpdate(reviseScript(script, { sections: next, templateId: template.id, templateName: template.name }, 'template_change', `Switched to template "${template.name}"`));
+      setEditorKey(k => k + 1);
+    } catch (err: any) {
+      setError(err.message || "Could not apply the template.");
+    } finally {
+      setIsRestructuring(false);
+    }
+  };
+
+  const handleRestore = (revisionId: string) => {
+    onUpdate(restoreScriptRevision(script, revisionId));
+    setEditorKey(k => k + 1);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl max-h-[90vh] overflow-y-auto custom-scrollbar p-6 bg-slate-900 rounded-2xl border border-indigo-500/40 shadow-2xl animate-in fade-in zoom-in-95 duration-200 space-y-5"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-start">
+          <div>
+            <span className="text-[10px] font-bold text-indigo-400 uppercase tracking-widest">Script v{revisions.length}</span>
+            <h3 className="text-white font-bold">{script.ownerName} @ {script.businessName}</h3>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="flex bg-slate-950 border border-slate-800 rounded-lg p-1">
+              <button
+                onClick={() => setTab('edit')}
+                className={`px-3 py-1 rounded-md text-xs font-bold flex items-center gap-1.5 ${tab === 'edit' ? 'bg-indigo-600/20 text-indigo-300' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                <Pencil size={12} /> Edit
+              </button>
+              <button
+                onClick={() => setTab('history')}
+                className={`px-3 py-1 rounded-md text-xs font-bold flex items-center gap-1.5 ${tab === 'history' ? 'bg-indigo-600/20 text-indigo-300' : 'text-slate-500 hover:text-slate-300'}`}
+              >
+                <History size={12} /> History <span className="opacity-60">{revisions.length}</span>
+              </button>
+            </div>
+            <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+              <X size={16} />
+            </button>
+          </div>
+        </div>
+
+        {tab === 'edit' ? (
+          <div className="space-y-4">
+            <ScriptEditor key={editorKey} sections={sections} onChange={handleEditorChange} onRegenerate={handleRegenerate} />
+            {templates.length > 0 && (
+              <div className="flex items-center gap-3 text-xs">
+                <span className="text-slate-500 flex items-center gap-1.5"><FileText size={12} /> Restructure with template</span>
+                <select
+                  value=""
+                  disabled={isRestructuring}
+                  onChange={e => handleTemplateChange(e.target.value)}
+                  className="bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-slate-200 focus:ring-1 focus:ring-indigo-500"
+                >
+                  <option value="" disabled>{script.templateName ? `Current: ${script.templateName}` : 'Choose a template...'}</option>
+                  {templates.filter(t => t.id !== script.templateId).map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                </select>
+                {isRestructuring && <Loader2 size={14} className="animate-spin text-indigo-400" />}
+              </div>
+            )}
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            <p className="text-[10px] text-slate-500">Every change is saved as a new version. Cached audio is cleared and re-rendered on next play.</p>
+          </div>
+        ) : (
+          <RevisionHistory
+            revisions={revisions.map(r => ({ id: r.id, createdAt: r.createdAt, source: r.source, note: r.note, text: speechText(r.sections) }))}
+            onRestore={handleRestore}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScriptHistoryDialog;
@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import { X, ListOrdered, Loader2, Wand2, Copy, Check, Send, SkipForward, Undo2 } from 'lucide-react';
+import { OutreachSequence, SavedScript, SequenceChannel, SequenceStep } from '../types';
+import { SEQUENCE_CADENCE, SEQUENCE_STEP_LABELS } from '../constants';
+import { generateSequence } from '../services/geminiService';
+import { isSequenceActive, markStepSent, planSteps, startOfDay, stepDueAt, updateStep, withSequence, writableSteps } from '../services/sequences';
+
+interface SequenceDialogProps {
+  script: SavedScript;
+  onUpdate: (updated: SavedScript) => void;
+  onClose: () => void;
+}
+
+const formatDay = (ts: number) => new Date(ts).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+// <input type="date"> works in local yyyy-mm-dd.
+const toDateInput = (ts: number) => {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+const fromDateInput = (value: string) => {
+  const [y, m, d] = value.split('-').map(Number);
+  return new Date(y, m - 1, d).getTime();
+};
+
+/**
+ * Follow-up cadence for one lead. Until the first generation the plan
+ * (channels, delays, start date) is a local draft; afterwards every change is
+ * saved to the library entry straight away.
+ */
+const SequenceDialog: React.FC<SequenceDialogProps> = ({ script, onUpdate, onClose }) => {
+  const saved = script.sequence;
+  const [draft, setDraft] = useState<Omit<OutreachSequence, 'updatedAt'>>(
+    () => saved || { startedAt: Date.now(), steps: planSteps(script, SEQUENCE_CADENCE) }
+  );
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  // Library changes (including our own saves) replace the draft once a sequence exists.
+  useEffect(() => {
+    if (saved) setDraft(saved);
+  }, [saved]);
+
+  const today = startOfDay(Date.now());
+  const pendingWrites = writableSteps(draft.steps).length;
+
+  const change = (next: Omit<OutreachSequence, 'updatedAt'>) => {
+    setDraft(next);
+    if (saved) onUpdate(withSequence(script, next));
+  };
+
+  const changeStep = (stepId: string, patch: Partial<SequenceStep>) => {
+    if (saved) onUpdate(updateStep(script, stepId, patch));
+    else setDraft(prev => ({ ...prev, steps: prev.steps.map(s => (s.id === stepId ? { ...s, ...patch } : s)) }));
+  };
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const contents = await generateSequence(script, draft.steps);
+      const next = { ...draft, steps: draft.steps.map((step, idx) => ({ ...step, content: contents[idx] })) };
+      setDraft(next);
+      onUpdate(withSequence(script, next));
+    } catch (err: any) {
+      setError(err.message || 'Could not write the sequence.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleCopy = (step: SequenceStep) => {
+    navigator.clipboard.writeText(step.content);
+    setCopiedId(step.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const statusOf = (step: SequenceStep) => {
+    if (step.sentAt) return { label: `Sent ${formatDay(step.sentAt)}`, className: 'text-green-400' };
+    if (step.skipped) return { label: 'Skipped', className: 'text-slate-500' };
+    const dueAt = stepDueAt(draft, step);
+    if (!saved || !isSequenceActive(script)) return { label: formatDay(dueAt), className: 'text-slate-400' };
+    if (dueAt < today) return { label: `Overdue · ${formatDay(dueAt)}`, className: 'text-red-400' };
+    if (dueAt === today) return { label: 'Due today', className: 'text-amber-300' };
+    return { label: formatDay(dueAt), className: 'text-slate-400' };
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[90vh] overflow-y-auto custom-scrollbar p-6 bg-slate-900 rounded-2xl border border-indigo-500/40 shadow-2xl animate-in fade-in zoom-in-95 duration-200 space-y-5"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-start">
+          <div>
+            <span className="text-[10px] font-bold text-indigo-400 uppercase tracking-widest flex items-center gap-1.5"><ListOrdered size={12} /> Follow-up Sequence</span>
+            <h3 className="text-white font-bold">{script.ownerName} @ {script.businessName}</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-xs">
+          <label className="text-slate-400 flex items-center gap-2">
+            Day 0
+            <input
+              type="date"
+              value={toDateInput(draft.startedAt)}
+              onChange={e => e.target.value && change({ ...draft, startedAt: fromDateInput(e.target.value) })}
+              className="bg-slate-950 border border-slate-700 rounded-lg px-2 py-1.5 text-slate-200"
+            />
+          </label>
+          {saved && !isSequenceActive(script) && (
+            <span className="text-[11px] text-slate-500">This lead has moved past "sent", so nothing here comes due.</span>
+          )}
+        </div>
+
+        <ol className="space-y-3">
+          {draft.steps.map((step, idx) => {
+            const isOpener = idx === 0 && step.kind === 'voice_note';
+            const status = statusOf(step);
+            return (
+              <li key={step.id} className={`p-4 rounded-xl border space-y-2 ${step.sentAt || step.skipped ? 'border-slate-800/60 opacity-70' : 'border-slate-800 bg-slate-950/40'}`}>
+                <div className="flex flex-wrap items-center gap-2 text-[11px]">
+                  <span className="font-bold text-white">{SEQUENCE_STEP_LABELS[step.kind].label}</span>
+                  <span className="text-slate-500">Day</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={step.delayDays}
+                    disabled={isOpener}
+                    onChange={e => changeStep(step.id, { delayDays: Math.max(0, Math.round(Number(e.target.value)) || 0) })}
+                    className="w-14 bg-slate-950 border border-slate-700 rounded-md px-1.5 py-0.5 text-slate-200 disabled:opacity-50"
+                  />
+                  <select
+                    value={step.channel}
+                    disabled={isOpener}
+                    onChange={e => changeStep(step.id, { channel: e.target.value as SequenceChannel })}
+                    className="bg-slate-950 border border-slate-700 rounded-md px-1.5 py-0.5 text-slate-200 disabled:opacity-50"
+                  >
+                    <option value="voice_note">Voice note</option>
+                    <option value="text">Text</option>
+                  </select>
+                  <span className={`ml-auto font-bold uppercase tracking-wider text-[10px] ${status.className}`}>{status.label}</span>
+                </div>
+
+                {isOpener ? (
+                  <p className="text-xs text-slate-400 italic line-clamp-3">"{step.content}"</p>
+                ) : (
+                  <textarea
+                    key={`${step.id}-${step.content}`}
+                    defaultValue={step.content}
+                    onBlur={e => e.target.value !== step.content && changeStep(step.id, { content: e.target.value })}
+                    placeholder={SEQUENCE_STEP_LABELS[step.kind].brief}
+                    className="w-full h-16 bg-slate-950 border border-slate-700 rounded-lg p-2 text-xs text-slate-200 resize-none"
+                  />
+                )}
+
+                {saved && (
+                  <div className="flex gap-2 justify-end">
+                    <button
+                      onClick={() => handleCopy(step)}
+                      disabled={!step.content}
+                      className="px-2 py-1 rounded-md text-[11px] text-slate-400 hover:text-white flex items-center gap-1 disabled:opacity-40"
+                    >
+                      {copiedId === step.id ? <Check size={12} className="text-green-400" /> : <Copy size={12} />} Copy
+                    </button>
+                    {step.sentAt || step.skipped ? (
+                      <button
+                        onClick={() => changeStep(step.id, { sentAt: undefined, skipped: false })}
+                        className="px-2 py-1 rounded-md text-[11px] text-slate-400 hover:text-white flex items-center gap-1"
+                      >
+                        <Undo2 size={12} /> Undo
+                      </button>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => changeStep(step.id, { skipped: true })}
+                          className="px-2 py-1 rounded-md text-[11px] text-slate-400 hover:text-white flex items-center gap-1"
+                        >
+                          <SkipForward size={12} /> Skip
+                        </button>
+                        <button
+                          onClick={() => onUpdate(markStepSent(script, step.id))}
+                          disabled={!step.content}
+                          className="px-2 py-1 rounded-md text-[11px] font-bold bg-indigo-600/20 text-indigo-300 hover:bg-indigo-600/30 flex items-center gap-1 disabled:opacity-40"
+                        >
+                          <Send size={12} /> Mark Sent
+                        </button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+
+        {error && <p className="text-[11px] text-red-400">{error}</p>}
+
+        <div className="flex gap-2 justify-end">
+          <button onClick={onClose} className="px-4 py-2 text-xs text-slate-400 hover:text-slate-200 transition-colors">
+            Close
+          </button>
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating || pendingWrites === 0}
+            title={saved ? 'Rewrites every step that has not been sent yet' : undefined}
+            className="px-5 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-800 disabled:text-slate-500 text-white rounded-lg text-xs font-bold flex items-center gap-2 shadow-lg shadow-indigo-500/20 transition-all"
+          >
+            {isGenerating ? <Loader2 size={14} className="animate-spin" /> : <Wand2 size={14} />} {saved ? 'Rewrite Unsent Steps' : 'Generate Sequence'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SequenceDialog;
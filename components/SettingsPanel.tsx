@@ -0,0 +1,170 @@
+import React, { useState, useEffect } from 'react';
+import { Settings, Save, Check, Loader2, Cloud, Server, FlaskConical, Plug, X } from 'lucide-react';
+import { AIProviderId, AISettings } from '../types';
+import { PROVIDER_DEFAULTS, PROVIDER_LABELS, getProvider, saveAISettings } from '../services/providers';
+import WorkspaceTransfer from './WorkspaceTransfer';
+import SyncSettings from './SyncSettings';
+
+interface SettingsPanelProps {
+  settings: AISettings;
+}
+
+const PROVIDER_OPTIONS: { id: AIProviderId; icon: React.ReactNode; description: string }[] = [
+  { id: 'gemini', icon: <Cloud size={18} />, description: 'Hosted Gemini models. Uses the bundled API key unless you override it.' },
+  { id: 'openai-compatible', icon: <Server size={18} />, description: 'Any /v1/chat/completions server: OpenAI, LM Studio, Ollama, vLLM.' },
+  { id: 'mock', icon: <FlaskConical size={18} />, description: 'Deterministic local responses. No network, no quota.' },
+];
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings }) => {
+  const [draft, setDraft] = useState<AISettings>(settings);
+  const [isSaved, setIsSaved] = useState(false);
+  const [testState, setTestState] = useState<'idle' | 'testing' | 'ok' | 'error'>('idle');
+  const [testMessage, setTestMessage] = useState('');
+
+  // Settings can change underneath the form, e.g. after a workspace import.
+  useEffect(() => setDraft(settings), [settings]);
+
+  const updateDraft = (patch: Partial<AISettings>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setIsSaved(false);
+    setTestState('idle');
+  };
+
+  // A key only belongs to the provider it was entered for; never send it to another host.
+  const selectProvider = (provider: AIProviderId) => {
+    if (provider === draft.provider) return;
+    updateDraft({ provider, ...PROVIDER_DEFAULTS[provider], apiKey: provider === settings.provider ? settings.apiKey : '' });
+  };
+
+  const handleSave = () => {
+    saveAISettings(draft);
+    setIsSaved(true);
+    setTimeout(() => setIsSaved(false), 2000);
+  };
+
+  const handleTest = async () => {
+    setTestState('testing');
+    try {
+      const text = await getProvider(draft).generateStructured({
+        task: 'connectionTest',
+        prompt: 'Reply with {"ok": true}.',
+        schema: { type: 'object', properties: { ok: { type: 'boolean' } } },
+        temperature: 0,
+      });
+      JSON.parse(text.replace(/```json|```/gi, '').trim());
+      setTestState('ok');
+      setTestMessage('Connection works.');
+    } catch (error: any) {
+      setTestState('error');
+      setTestMessage(error.message || 'Connection failed.');
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto p-8 animate-in fade-in slide-in-from-bottom-4 duration-500 space-y-8">
+      <div>
+        <h2 className="text-3xl font-bold text-white flex items-center gap-3">
+          <Settings className="text-indigo-400" />
+          AI <span className="gradient-text">Settings</span>
+        </h2>
+        <p className="text-slate-400 text-sm mt-1">Choose which provider and models power script generation, research extraction and voice synthesis.</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {PROVIDER_OPTIONS.map(option => (
+          <button
+            key={option.id}
+            onClick={() => selectProvider(option.id)}
+            className={`text-left p-4 rounded-xl border transition-all ${
+              draft.provider === option.id
+                ? 'bg-indigo-600/20 border-indigo-500 text-white shadow-lg shadow-indigo-500/10'
+                : 'bg-slate-900 border-slate-800 text-slate-400 hover:border-slate-700'
+            }`}
+          >
+            <div className="flex items-center gap-2 font-bold text-sm mb-2">
+              {option.icon} {PROVIDER_LABELS[option.id]}
+            </div>
+            <p className="text-[11px] leading-snug text-slate-500">{option.description}</p>
+          </button>
+        ))}
+      </div>
+
+      {draft.provider !== 'mock' && (
+        <div className="glass-effect rounded-2xl p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <label className="text-xs font-semibold text-slate-400 uppercase">Script Model</label>
+            <input
+              type="text"
+              value={draft.textModel}
+              onChange={e => updateDraft({ textModel: e.target.value })}
+              className="w-full bg-slate-950/50 border border-slate-700 rounded-lg p-3 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500/50"
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs font-semibold text-slate-400 uppercase">Voice Model</label>
+            <input
+              type="text"
+              value={draft.ttsModel}
+              onChange={e => updateDraft({ ttsModel: e.target.value })}
+              className="w-full bg-slate-950/50 border border-slate-700 rounded-lg p-3 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500/50"
+            />
+          </div>
+          {draft.provider === 'openai-compatible' && (
+            <div className="space-y-2 md:col-span-2">
+              <label className="text-xs font-semibold text-slate-400 uppercase">Base URL</label>
+              <input
+                type="url"
+                value={draft.baseUrl}
+                placeholder="http://localhost:11434/v1"
+                onChange={e => updateDraft({ baseUrl: e.target.value })}
+                className="w-full bg-slate-950/50 border border-slate-700 rounded-lg p-3 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500/50"
+              />
+            </div>
+          )}
+          <div className="space-y-2 md:col-span-2">
+            <label className="text-xs font-semibold text-slate-400 uppercase">API Key {draft.provider === 'gemini' && '(optional override)'}</label>
+            <input
+              type="password"
+              value={draft.apiKey}
+              autoComplete="off"
+              onChange={e => updateDraft({ apiKey: e.target.value })}
+              className="w-full bg-slate-950/50 border border-slate-700 rounded-lg p-3 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500/50"
+            />
+            <p className="text-[10px] text-slate-500">Stored in this browser only.</p>
+          </div>
+        </div>
+      )}
+
+      {testState === 'ok' || testState === 'error' ? (
+        <div className={`flex items-center gap-2 p-3 rounded-lg text-sm border ${
+          testState === 'ok' ? 'bg-green-500/10 border-green-500/20 text-green-400' : 'bg-red-500/10 border-red-500/20 text-red-400'
+        }`}>
+          {testState === 'ok' ? <Check size={16} /> : <X size={16} />}
+          {testMessage}
+        </div>
+      ) : null}
+
+      <div className="flex justify-end gap-3">
+        <button
+          onClick={handleTest}
+          disabled={testState === 'testing'}
+          className="px-5 py-2.5 bg-slate-900 border border-slate-700 hover:border-slate-600 text-slate-300 rounded-lg text-xs font-bold flex items-center gap-2 transition-all"
+        >
+          {testState === 'testing' ? <Loader2 size={14} className="animate-spin" /> : <Plug size={14} />} Test Connection
+        </button>
+        <button
+          onClick={handleSave}
+          className="px-5 py-2.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-bold flex items-center gap-2 shadow-lg shadow-indigo-500/20 transition-all active:scale-95"
+        >
+          {isSaved ? <Check size={14} /> : <Save size={14} />} {isSaved ? 'Saved' : 'Save Settings'}
+        </button>
+      </div>
+
+      <SyncSettings />
+
+      <WorkspaceTransfer />
+    </div>
+  );
+};
+
+export default SettingsPanel;
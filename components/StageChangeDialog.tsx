@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { X, Save, History } from 'lucide-react';
+import { PipelineStage, SavedScript } from '../types';
+import { PIPELINE_STAGES } from '../constants';
+import { getStage, getStageHistory } from '../services/pipeline';
+
+interface StageChangeDialogProps {
+  script: SavedScript;
+  initialStage?: PipelineStage;
+  onConfirm: (stage: PipelineStage, note: string) => void;
+  onClose: () => void;
+}
+
+const formatDateTime = (ts: number) =>
+  new Date(ts).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const StageChangeDialog: React.FC<StageChangeDialogProps> = ({ script, initialStage, onConfirm, onClose }) => {
+  const currentStage = getStage(script);
+  const [stage, setStage] = useState<PipelineStage>(initialStage || currentStage);
+  const [note, setNote] = useState('');
+  const history = getStageHistory(script);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md p-6 bg-slate-900 rounded-2xl border border-indigo-500/40 shadow-2xl animate-in fade-in zoom-in-95 duration-200 space-y-5"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-start">
+          <div>
+            <span className="text-[10px] font-bold text-indigo-400 uppercase tracking-widest">Update Stage</span>
+            <h3 className="text-white font-bold">{script.ownerName} @ {script.businessName}</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-3 gap-2">
+          {PIPELINE_STAGES.map(s => (
+            <button
+              key={s.id}
+              onClick={() => setStage(s.id)}
+              className={`px-2 py-2 rounded-lg text-[11px] font-bold border transition-all ${
+                stage === s.id ? s.color : 'bg-slate-950 border-slate-800 text-slate-500 hover:border-slate-700'
+              }`}
+            >
+              {s.label}
+            </button>
+          ))}
+        </div>
+
+        <textarea
+          placeholder="What happened? (e.g. Sent via IG DM, replied asking for pricing)"
+          className="w-full h-20 bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-sm text-slate-200 focus:ring-1 focus:ring-indigo-500 resize-none"
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          autoFocus
+        />
+
+        <div>
+          <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest flex items-center gap-1.5 mb-2">
+            <History size={12} /> Timeline
+          </span>
+          <ol className="space-y-2 max-h-40 overflow-y-auto custom-scrollbar">
+            {[...history].reverse().map((change, idx) => {
+              const meta = PIPELINE_STAGES.find(s => s.id === change.stage)!;
+              return (
+                <li key={idx} className="flex gap-2 text-xs">
+                  <span className={`mt-1 w-2 h-2 rounded-full shrink-0 ${meta.dot}`} />
+                  <div>
+                    <span className="text-slate-200 font-semibold">{meta.label}</span>
+                    <span className="text-slate-500"> · {formatDateTime(change.changedAt)}</span>
+                    {change.note && <p className="text-slate-400">{change.note}</p>}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+
+        <div className="flex gap-2 justify-end">
+          <button onClick={onClose} className="px-4 py-2 text-xs text-slate-400 hover:text-slate-200 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(stage, note)}
+            disabled={stage === currentStage && !note.trim()}
+            className="px-5 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-800 disabled:text-slate-500 text-white rounded-lg text-xs font-bold flex items-center gap-2 shadow-lg shadow-indigo-500/20 transition-all"
+          >
+            <Save size={14} /> Log Update
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StageChangeDialog;
@@ -0,0 +1,264 @@
+import React, { useState, useEffect } from 'react';
+import { X, Fingerprint, Star, Loader2, Wand2, Save, Trash2, Plus, Check } from 'lucide-react';
+import { SavedScript, StyleProfile } from '../types';
+import { activeStyleProfileStore, libraryStore, styleProfileStore } from '../services/storage';
+import { learnStyleProfile } from '../services/geminiService';
+import { averageSentenceLength, buildStyleProfile, defaultExemplarIds, MAX_EXEMPLARS } from '../services/styleProfiles';
+import { gotReply } from '../services/analytics';
+
+interface StyleProfileManagerProps {
+  onClose: () => void;
+}
+
+const emptyProfile = (): StyleProfile => ({
+  id: '',
+  name: '',
+  exemplarIds: [],
+  opener: '',
+  sentenceLength: 0,
+  slang: [],
+  signOff: '',
+  ctaPhrasing: '',
+  notes: '',
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+const StyleProfileManager: React.FC<StyleProfileManagerProps> = ({ onClose }) => {
+  const [profiles, setProfiles] = useState<StyleProfile[]>(styleProfileStore.get);
+  const [activeId, setActiveId] = useState<string | null>(activeStyleProfileStore.get);
+  const [scripts] = useState<SavedScript[]>(libraryStore.get);
+  const [draft, setDraft] = useState<StyleProfile | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [slangText, setSlangText] = useState('');
+  const [isLearning, setIsLearning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => styleProfileStore.subscribe(setProfiles), []);
+  useEffect(() => activeStyleProfileStore.subscribe(setActiveId), []);
+
+  // Starred scripts first, then the ones that got a reply.
+  const candidates = [...scripts].sort((a, b) => Number(!!b.exemplar) - Number(!!a.exemplar) || Number(gotReply(b)) - Number(gotReply(a)));
+
+  const openProfile = (profile: StyleProfile) => {
+    setDraft(profile);
+    setSlangText(profile.slang.join(', '));
+    setSelectedIds(profile.exemplarIds.filter(id => scripts.some(s => s.id === id)));
+    setError(null);
+  };
+
+  const startNew = () => {
+    openProfile({ ...emptyProfile(), name: `Style ${profiles.length + 1}` });
+    setSelectedIds(defaultExemplarIds(scripts));
+  };
+
+  const updateDraft = (patch: Partial<StyleProfile>) => setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+
+  const toggleExemplar = (id: string) => {
+    setSelectedIds(prev => {
+      if (prev.includes(id)) return prev.filter(x => x !== id);
+      return prev.length >= MAX_EXEMPLARS ? prev : [...prev, id];
+    });
+  };
+
+  const handleLearn = async () => {
+    if (!draft) return;
+    const exemplars = scripts.filter(s => selectedIds.includes(s.id));
+    setIsLearning(true);
+    setError(null);
+    try {
+      const learned = await learnStyleProfile(exemplars);
+      const next = buildStyleProfile(draft.name, exemplars, learned, draft.id ? draft : undefined);
+      // Keep unsaved edits to the name and notes; a new draft stays unsaved until Save.
+      setDraft({ ...next, id: draft.id, notes: draft.notes });
+      setSlangText(next.slang.join(', '));
+    } catch (err: any) {
+      setError(err.message || "Could not learn a style.");
+    } finally {
+      setIsLearning(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim()) return;
+    const now = Date.now();
+    const saved: StyleProfile = {
+      ...draft,
+      id: draft.id || now.toString(),
+      name: draft.name.trim(),
+      slang: slangText.split(',').map(w => w.trim()).filter(Boolean),
+      createdAt: draft.createdAt || now,
+      updatedAt: now,
+    };
+    styleProfileStore.update(list => (list.some(p => p.id === saved.id) ? list.map(p => (p.id === saved.id ? saved : p)) : [...list, saved]));
+    setDraft(saved);
+  };
+
+  const handleDelete = (profile: StyleProfile) => {
+    if (!confirm(`Delete the "${profile.name}" style profile?`)) return;
+    styleProfileStore.update(list => list.filter(p => p.id !== profile.id));
+    if (activeId === profile.id) activeStyleProfileStore.set(null);
+    if (draft?.id === profile.id) setDraft(null);
+  };
+
+  const toggleActive = (id: string) => activeStyleProfileStore.set(activeId === id ? null : id);
+
+  const selectedScripts = scripts.filter(s => selectedIds.includes(s.id));
+  const isDirty = !!draft && (!draft.id || JSON.stringify(profiles.find(p => p.id === draft.id)) !== JSON.stringify({ ...draft, slang: slangText.split(',').map(w => w.trim()).filter(Boolean) }));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl max-h-[90vh] overflow-y-auto custom-scrollbar p-6 bg-slate-900 rounded-2xl border border-indigo-500/40 shadow-2xl animate-in fade-in zoom-in-95 duration-200 space-y-5"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-start">
+          <div>
+            <span className="text-[10px] font-bold text-indigo-400 uppercase tracking-widest flex items-center gap-1.5"><Fingerprint size={12} /> Style Profiles</span>
+            <h3 className="text-white font-bold">Learn how you write from your best scripts</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="grid md:grid-cols-5 gap-4">
+          <div className="md:col-span-2 space-y-1.5">
+            {profiles.map(profile => (
+              <div
+                key={profile.id}
+                className={`p-3 rounded-xl border transition-all flex items-center gap-2 ${draft?.id === profile.id ? 'border-indigo-500 bg-indigo-500/10' : 'border-slate-800 hover:border-slate-700'}`}
+              >
+                <button onClick={() => openProfile(profile)} className="flex-1 text-left min-w-0">
+                  <div className="text-xs font-bold text-white truncate">{profile.name}</div>
+                  <div className="text-[10px] text-slate-500 mt-0.5">{profile.exemplarIds.length} exemplar{profile.exemplarIds.length === 1 ? '' : 's'}</div>
+                </button>
+                <button
+                  onClick={() => toggleActive(profile.id)}
+                  title={activeId === profile.id ? 'Stop using for generation' : 'Use for generation'}
+                  className={`px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider border ${activeId === profile.id ? 'bg-indigo-500 border-indigo-500 text-white' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+                >
+                  {activeId === profile.id ? 'Active' : 'Use'}
+                </button>
+                <button onClick={() => handleDelete(profile)} className="p-1 text-slate-600 hover:text-red-400 transition-colors">
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={startNew}
+              className="w-full p-3 rounded-xl border border-dashed border-slate-700 text-slate-400 hover:text-white hover:border-slate-600 text-xs font-bold flex items-center justify-center gap-2"
+            >
+              <Plus size={14} /> New Style Profile
+            </button>
+          </div>
+
+          <div className="md:col-span-3">
+            {!draft ? (
+              <p className="text-xs text-slate-500 p-5 rounded-xl bg-slate-950/60 border border-slate-800">
+                Star your best scripts in the library, then create a profile to learn your opener, sentence length, slang, CTA and sign-off. Keep one profile per persona you write as.
+              </p>
+            ) : (
+              <div className="p-5 rounded-xl bg-slate-950/60 border border-slate-800 space-y-4">
+                <input
+                  value={draft.name}
+                  onChange={e => updateDraft({ name: e.target.value })}
+                  placeholder="Profile name"
+                  className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-sm text-white font-bold focus:ring-1 focus:ring-indigo-500"
+                />
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Exemplars ({selectedIds.length}/{MAX_EXEMPLARS})</label>
+                    <button
+                      onClick={handleLearn}
+                      disabled={isLearning || selectedIds.length === 0}
+                      className="px-3 py-1.5 bg-indigo-600/20 text-indigo-300 hover:bg-indigo-600/30 rounded-lg text-[11px] font-bold flex items-center gap-1.5 disabled:opacity-40"
+                    >
+                      {isLearning ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />}
+                      {draft.opener ? 'Relearn' : 'Learn Style'}
+                    </button>
+                  </div>
+                  <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-1 pr-1">
+                    {candidates.length === 0 ? (
+                      <p className="text-[11px] text-slate-500">Save some scripts to your library first.</p>
+                    ) : candidates.map(script => (
+                      <label key={script.id} className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer px-2 py-1 rounded hover:bg-slate-800/60">
+                        <input type="checkbox" className="accent-indigo-500" checked={selectedIds.includes(script.id)} onChange={() => toggleExemplar(script.id)} />
+                        <span className="truncate flex-1">{script.ownerName} @ {script.businessName}</span>
+                        {script.exemplar && <Star size={11} className="text-yellow-400 fill-yellow-400 shrink-0" />}
+                        {gotReply(script) && <span className="text-[9px] font-bold uppercase text-green-400 shrink-0">replied</span>}
+                      </label>
+                    ))}
+                  </div>
+                  {error && <p className="text-[11px] text-red-400">{error}</p>}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <div className="space-y-1 md:col-span-2">
+                    <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Typical Opener</label>
+                    <input value={draft.opener} onChange={e => updateDraft({ opener: e.target.value })} className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2 text-xs text-slate-200" />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Words per Sentence</label>
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        min={0}
+                        value={draft.sentenceLength}
+                        onChange={e => updateDraft({ sentenceLength: Math.max(0, Number(e.target.value) || 0) })}
+                        className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2 text-xs text-slate-200"
+                      />
+                      {selectedScripts.length > 0 && (
+                        <button
+                          onClick={() => updateDraft({ sentenceLength: averageSentenceLength(selectedScripts) })}
+                          title="Measure from the selected exemplars"
+                          className="px-2 text-[10px] font-bold text-slate-400 hover:text-white border border-slate-700 rounded-lg shrink-0"
+                        >
+                          Measure
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Slang (comma separated)</label>
+                    <input value={slangText} onChange={e => setSlangText(e.target.value)} className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2 text-xs text-slate-200" />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">CTA Phrasing</label>
+                    <input value={draft.ctaPhrasing} onChange={e => updateDraft({ ctaPhrasing: e.target.value })} className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2 text-xs text-slate-200" />
+                  </div>
+                  <div className="space-y-1">
+                    <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Sign-off</label>
+                    <input value={draft.signOff} onChange={e => updateDraft({ signOff: e.target.value })} placeholder="Ends on the ask" className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2 text-xs text-slate-200" />
+                  </div>
+                  <div className="space-y-1 md:col-span-2">
+                    <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Notes</label>
+                    <textarea
+                      value={draft.notes}
+                      onChange={e => updateDraft({ notes: e.target.value })}
+                      placeholder="e.g. Never say 'synergy'. Always mention the city."
+                      className="w-full h-16 bg-slate-950 border border-slate-700 rounded-lg p-2 text-xs text-slate-200 resize-none"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex justify-end">
+                  <button
+                    onClick={handleSave}
+                    disabled={!draft.name.trim() || !isDirty}
+                    className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-bold flex items-center gap-2 disabled:opacity-40"
+                  >
+                    {isDirty ? <Save size={14} /> : <Check size={14} />} {isDirty ? 'Save Profile' : 'Saved'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StyleProfileManager;
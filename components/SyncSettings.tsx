@@ -0,0 +1,136 @@
+import React, { useState, useEffect } from 'react';
+import { Users, RefreshCw, Save, Check, AlertTriangle, CloudOff } from 'lucide-react';
+import { SyncSettings as SyncSettingsValue, SyncState } from '../types';
+import { libraryStore, syncSettingsStore, syncStateStore, templateStore } from '../services/storage';
+import { getPendingChanges, isSyncConfigured, saveSyncSettings, syncNow } from '../services/syncService';
+
+const formatTime = (ts: number) => new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const SyncSettings: React.FC = () => {
+  const [draft, setDraft] = useState<SyncSettingsValue>(syncSettingsStore.get);
+  const [state, setState] = useState<SyncState>(syncStateStore.get);
+  const [pendingCount, setPendingCount] = useState(() => getPendingChanges().length);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [isSaved, setIsSaved] = useState(false);
+
+  useEffect(() => {
+    const refreshPending = () => setPendingCount(getPendingChanges().length);
+    const unsubscribers = [
+      syncStateStore.subscribe(next => { setState(next); refreshPending(); }),
+      libraryStore.subscribe(refreshPending),
+      templateStore.subscribe(refreshPending),
+    ];
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, []);
+
+  const updateDraft = (patch: Partial<SyncSettingsValue>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+    setIsSaved(false);
+  };
+
+  const handleSave = () => {
+    saveSyncSettings(draft);
+    setIsSaved(true);
+    setTimeout(() => setIsSaved(false), 2000);
+  };
+
+  const handleSyncNow = async () => {
+    setIsSyncing(true);
+    await syncNow();
+    setIsSyncing(false);
+  };
+
+  const saved = syncSettingsStore.get();
+  const isActive = isSyncConfigured(saved);
+
+  return (
+    <div className="glass-effect rounded-2xl p-6 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-sm font-bold text-indigo-400 uppercase tracking-widest flex items-center gap-2"><Users size={14} /> Team Sync</h3>
+          <p className="text-[11px] text-slate-500 mt-1">Share the library and templates with your team through a self-hosted sync server (<code className="text-slate-400">npm run sync-server</code>).</p>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer shrink-0">
+          <input type="checkbox" className="accent-indigo-500" checked={draft.enabled} onChange={e => updateDraft({ enabled: e.target.checked })} />
+          Enabled
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2 md:col-span-2">
+          <label className="text-xs font-semibold text-slate-400 uppercase">Server URL</label>
+          <input
+            type="url"
+            value={draft.serverUrl}
+            placeholder="http://localhost:8787"
+            onChange={e => updateDraft({ serverUrl: e.target.value })}
+            className="w-full bg-slate-950/50 border border-slate-700 rounded-lg p-3 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500/50"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs font-semibold text-slate-400 uppercase">Workspace</label>
+          <input
+            type="text"
+            value={draft.workspaceId}
+            placeholder="e.g. agency-team"
+            onChange={e => updateDraft({ workspaceId: e.target.value })}
+            className="w-full bg-slate-950/50 border border-slate-700 rounded-lg p-3 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500/50"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs font-semibold text-slate-400 uppercase">Your Name</label>
+          <input
+            type="text"
+            value={draft.userName}
+            placeholder="Shown on your changes"
+            onChange={e => updateDraft({ userName: e.target.value })}
+            className="w-full bg-slate-950/50 border border-slate-700 rounded-lg p-3 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500/50"
+          />
+        </div>
+        <div className="space-y-2 md:col-span-2">
+          <label className="text-xs font-semibold text-slate-400 uppercase">Access Token (optional)</label>
+          <input
+            type="password"
+            value={draft.token}
+            autoComplete="off"
+            onChange={e => updateDraft({ token: e.target.value })}
+            className="w-full bg-slate-950/50 border border-slate-700 rounded-lg p-3 text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500/50"
+          />
+          <p className="text-[10px] text-slate-500">Only needed if the server was started with SYNC_TOKEN.</p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex-1 text-[11px] space-y-0.5">
+          {isActive ? (
+            <>
+              <div className="text-slate-400">
+                {state.lastSyncedAt ? `Last synced ${formatTime(state.lastSyncedAt)}` : 'Not synced yet'}
+                {' · '}
+                <span className={pendingCount > 0 ? 'text-amber-400' : 'text-slate-500'}>{pendingCount} change{pendingCount === 1 ? '' : 's'} waiting</span>
+              </div>
+              {state.lastError && <div className="text-red-400 flex items-center gap-1.5"><AlertTriangle size={12} /> {state.lastError}</div>}
+            </>
+          ) : (
+            <div className="text-slate-500 flex items-center gap-1.5"><CloudOff size={12} /> Sync is off. Enable it and fill in the server, workspace and your name.</div>
+          )}
+        </div>
+        <button
+          onClick={handleSyncNow}
+          disabled={!isActive || isSyncing}
+          className="px-4 py-2 bg-slate-900 border border-slate-700 hover:border-slate-600 text-slate-200 rounded-lg text-xs font-bold flex items-center gap-2 disabled:opacity-40"
+        >
+          <RefreshCw size={14} className={isSyncing ? 'animate-spin' : ''} /> Sync Now
+        </button>
+        <button
+          onClick={handleSave}
+          className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-bold flex items-center gap-2"
+        >
+          {isSaved ? <Check size={14} /> : <Save size={14} />} {isSaved ? 'Saved' : 'Save Sync Settings'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SyncSettings;
@@ -0,0 +1,319 @@
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { X, Play, Pause, RotateCcw, Mic, Square, Minus, Plus, Download, Keyboard } from 'lucide-react';
+import { ScriptSection } from '../types';
+import { formatMarker, getRoleLabel } from '../services/scriptSections';
+import { downloadBlob } from '../services/fileService';
+
+export interface RecordedTake {
+  id: number;
+  base64: string;
+  mimeType: string;
+  durationSeconds: number;
+}
+
+interface TeleprompterProps {
+  sections: ScriptSection[];
+  onClose: () => void;
+  onTakeRecorded?: (take: RecordedTake) => void;
+}
+
+type Phase = 'ready' | 'countdown' | 'running' | 'paused' | 'finished';
+
+const COUNTDOWN_SECONDS = 3;
+const SPEED_STEPS = [0.5, 0.75, 0.9, 1, 1.1, 1.25, 1.5, 2];
+
+const formatClock = (seconds: number) => {
+  const s = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+};
+
+const Teleprompter: React.FC<TeleprompterProps> = ({ sections, onClose, onTakeRecorded }) => {
+  const segments = useMemo(
+    () => sections.map(s => ({ marker: formatMarker(s), role: getRoleLabel(s.role), text: s.text, start: s.startSeconds, end: s.endSeconds })),
+    [sections]
+  );
+  const totalSeconds = segments.length ? segments[segments.length - 1].end : 0;
+
+  const [phase, setPhase] = useState<Phase>('ready');
+  const [countdown, setCountdown] = useState(COUNTDOWN_SECONDS);
+  const [elapsed, setElapsed] = useState(0);
+  const [speedIndex, setSpeedIndex] = useState(SPEED_STEPS.indexOf(1));
+  const [recordEnabled, setRecordEnabled] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [lastTake, setLastTake] = useState<Blob | null>(null);
+  const [micError, setMicError] = useState<string | null>(null);
+
+  const frameRef = useRef<number | null>(null);
+  const lastTickRef = useRef<number>(0);
+  const segmentRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  const recordStartRef = useRef<number>(0);
+  // Time the recorder spent paused, so the take's duration only counts speech.
+  const pausedMsRef = useRef<number>(0);
+  const pausedAtRef = useRef<number | null>(null);
+
+  const speed = SPEED_STEPS[speedIndex];
+  const activeIndex = segments.findIndex(s => elapsed >= s.start && elapsed < s.end);
+  const currentIndex = activeIndex === -1 ? (elapsed >= totalSeconds ? segments.length - 1 : 0) : activeIndex;
+
+  const stopRecording = useCallback(() => {
+    if (recorderRef.current && recorderRef.current.state !== 'inactive') {
+      recorderRef.current.stop();
+    }
+    setIsRecording(false);
+  }, []);
+
+  const startRecording = async () => {
+    try {
+      setMicError(null);
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      chunksRef.current = [];
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunksRef.current.push(event.data);
+      };
+      recorder.onstop = () => {
+        stream.getTracks().forEach(track => track.stop());
+        const mimeType = recorder.mimeType || 'audio/webm';
+        const blob = new Blob(chunksRef.current, { type: mimeType });
+        const pausedMs = pausedMsRef.current + (pausedAtRef.current !== null ? Date.now() - pausedAtRef.current : 0);
+        const durationSeconds = (Date.now() - recordStartRef.current - pausedMs) / 1000;
+        setLastTake(blob);
+        if (onTakeRecorded) {
+          const reader = new FileReader();
+          reader.onloadend = () => {
+            onTakeRecorded({ id: Date.now(), base64: (reader.result as string).split(',')[1], mimeType, durationSeconds });
+          };
+          reader.readAsDataURL(blob);
+        }
+      };
+      recorder.start();
+      recordStartRef.current = Date.now();
+      pausedMsRef.current = 0;
+      pausedAtRef.current = null;
+      recorderRef.current = recorder;
+      setIsRecording(true);
+    } catch (err) {
+      console.error("Teleprompter microphone error:", err);
+      setMicError("Microphone access denied or not available.");
+    }
+  };
+
+  const begin = () => {
+    setElapsed(0);
+    setLastTake(null);
+    setCountdown(COUNTDOWN_SECONDS);
+    setPhase('countdown');
+  };
+
+  const restart = () => {
+    stopRecording();
+    begin();
+  };
+
+  const togglePause = () => {
+    const recorder = recorderRef.current;
+    if (phase === 'running') {
+      if (recorder?.state === 'recording') {
+        recorder.pause();
+        pausedAtRef.current = Date.now();
+      }
+      setPhase('paused');
+    } else if (phase === 'paused') {
+      if (recorder?.state === 'paused') {
+        recorder.resume();
+        if (pausedAtRef.current !== null) pausedMsRef.current += Date.now() - pausedAtRef.current;
+        pausedAtRef.current = null;
+      }
+      setPhase('running');
+    } else if (phase === 'ready' || phase === 'finished') begin();
+  };
+
+  const jumpToSegment = (index: number) => {
+    const target = segments[Math.min(Math.max(index, 0), segments.length - 1)];
+    if (target) setElapsed(target.start);
+  };
+
+  // Countdown before the prompter starts moving; recording starts with the first word.
+  useEffect(() => {
+    if (phase !== 'countdown') return;
+    if (countdown === 0) {
+      if (recordEnabled) startRecording();
+      setPhase('running');
+      return;
+    }
+    const timer = setTimeout(() => setCountdown(c => c - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [phase, countdown]);
+
+  useEffect(() => {
+    if (phase !== 'running') return;
+    lastTickRef.current = performance.now();
+    const tick = (now: number) => {
+      const delta = ((now - lastTickRef.current) / 1000) * speed;
+      lastTickRef.current = now;
+      setElapsed(prev => Math.min(prev + delta, totalSeconds));
+      frameRef.current = requestAnimationFrame(tick);
+    };
+    frameRef.current = requestAnimationFrame(tick);
+    return () => {
+      if (frameRef.current) cancelAnimationFrame(frameRef.current);
+    };
+  }, [phase, speed, totalSeconds]);
+
+  useEffect(() => {
+    if (phase === 'running' && elapsed >= totalSeconds) setPhase('finished');
+  }, [phase, elapsed, totalSeconds]);
+
+  useEffect(() => {
+    if (phase === 'finished') stopRecording();
+  }, [phase, stopRecording]);
+
+  useEffect(() => {
+    segmentRefs.current[currentIndex]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [currentIndex]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      switch (e.key) {
+        case ' ':
+          e.preventDefault();
+          togglePause();
+          break;
+        case 'ArrowRight':
+          jumpToSegment(currentIndex + 1);
+          break;
+        case 'ArrowLeft':
+          jumpToSegment(currentIndex - 1);
+          break;
+        case 'ArrowUp':
+          e.preventDefault();
+          setSpeedIndex(i => Math.min(i + 1, SPEED_STEPS.length - 1));
+          break;
+        case 'ArrowDown':
+          e.preventDefault();
+          setSpeedIndex(i => Math.max(i - 1, 0));
+          break;
+        case 'r':
+        case 'R':
+          restart();
+          break;
+        case 'Escape':
+          onClose();
+          break;
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  useEffect(() => () => stopRecording(), [stopRecording]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950 flex flex-col animate-in fade-in duration-200">
+      <div className="flex items-center justify-between px-8 py-4 border-b border-slate-800">
+        <div className="flex items-center gap-4 text-xs text-slate-400">
+          <span className="font-mono text-lg text-white">{formatClock(elapsed)}</span>
+          <span>/ {formatClock(totalSeconds)}</span>
+          {isRecording && (
+            <span className="flex items-center gap-2 text-red-400 font-bold uppercase tracking-widest">
+              <span className="w-2 h-2 rounded-full bg-red-500 animate-ping" /> Recording
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setSpeedIndex(i => Math.max(i - 1, 0))} className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title="Slower (↓)">
+            <Minus size={16} />
+          </button>
+          <span className="text-xs font-bold text-slate-300 w-12 text-center">{speed}×</span>
+          <button onClick={() => setSpeedIndex(i => Math.min(i + 1, SPEED_STEPS.length - 1))} className="p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title="Faster (↑)">
+            <Plus size={16} />
+          </button>
+          <label className={`ml-4 flex items-center gap-2 text-xs font-bold cursor-pointer ${recordEnabled ? 'text-red-400' : 'text-slate-500'}`}>
+            <input
+              type="checkbox"
+              className="accent-red-500"
+              checked={recordEnabled}
+              disabled={phase === 'running' || phase === 'countdown'}
+              onChange={e => setRecordEnabled(e.target.checked)}
+            />
+            <Mic size={14} /> Record take
+          </label>
+          <button onClick={onClose} className="ml-4 p-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title="Close (Esc)">
+            <X size={18} />
+          </button>
+        </div>
+      </div>
+
+      <div className="h-1 bg-slate-900">
+        <div className="h-full bg-indigo-500 transition-[width] duration-200" style={{ width: `${totalSeconds ? (elapsed / totalSeconds) * 100 : 0}%` }} />
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar relative">
+        {phase === 'countdown' && (
+          <div className="absolute inset-0 z-10 flex items-center justify-center bg-slate-950/80">
+            <span className="text-9xl font-black text-white animate-in zoom-in-50 duration-300" key={countdown}>{countdown || 'Go'}</span>
+          </div>
+        )}
+        <div className="max-w-4xl mx-auto px-8 py-[40vh] space-y-10">
+          {segments.map((segment, idx) => (
+            <div
+              key={idx}
+              ref={el => { segmentRefs.current[idx] = el; }}
+              onClick={() => jumpToSegment(idx)}
+              className={`transition-all duration-300 cursor-pointer ${
+                idx === currentIndex ? 'opacity-100 scale-100' : idx < currentIndex ? 'opacity-25 scale-95' : 'opacity-40 scale-95'
+              }`}
+            >
+              <div className="text-xs font-mono text-indigo-400 mb-2">{segment.marker} <span className="text-slate-500 uppercase tracking-widest">{segment.role}</span></div>
+              <p className="text-4xl md:text-5xl font-semibold leading-tight text-white">{segment.text}</p>
+              {idx === currentIndex && phase !== 'ready' && (
+                <div className="mt-4 h-1 bg-slate-800 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-purple-500"
+                    style={{ width: `${Math.min(100, ((elapsed - segment.start) / (segment.end - segment.start)) * 100)}%` }}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between px-8 py-4 border-t border-slate-800">
+        <div className="text-[10px] text-slate-500 flex items-center gap-2">
+          <Keyboard size={12} /> Space play/pause · ←/→ section · ↑/↓ speed · R restart · Esc close
+        </div>
+        <div className="flex items-center gap-3">
+          {micError && <span className="text-xs text-red-400">{micError}</span>}
+          {lastTake && (
+            <button
+              onClick={() => downloadBlob(lastTake, `teleprompter-take.${lastTake.type.includes('ogg') ? 'ogg' : 'webm'}`)}
+              className="px-3 py-2 rounded-lg text-xs font-bold flex items-center gap-2 bg-slate-900 border border-slate-700 text-slate-300 hover:text-white"
+            >
+              <Download size={14} /> Download Take
+            </button>
+          )}
+          {isRecording && (
+            <button onClick={stopRecording} className="px-3 py-2 rounded-lg text-xs font-bold flex items-center gap-2 bg-red-500/10 text-red-400 hover:bg-red-500/20">
+              <Square size={14} /> Stop Recording
+            </button>
+          )}
+          <button onClick={restart} className="p-2.5 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800" title="Restart (R)">
+            <RotateCcw size={18} />
+          </button>
+          <button
+            onClick={togglePause}
+            className="px-6 py-2.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-xl text-sm font-bold flex items-center gap-2"
+          >
+            {phase === 'running' ? <Pause size={16} /> : <Play size={16} />}
+            {phase === 'running' ? 'Pause' : phase === 'paused' ? 'Resume' : phase === 'finished' ? 'Again' : 'Start'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Teleprompter;
@@ -0,0 +1,149 @@
+import React, { useState, useMemo } from 'react';
+import { X, Search, LayoutTemplate, Copy, Check, Sparkles } from 'lucide-react';
+import { GalleryTemplate, VoiceNoteInput } from '../types';
+import { GOAL_OPTIONS, PLATFORM_OPTIONS, TEMPLATE_INDUSTRIES } from '../constants';
+import { GALLERY_TEMPLATES, GalleryFilters, getIndustryLabel, searchGallery, suggestTemplates } from '../services/templateGallery';
+
+interface TemplateGalleryProps {
+  // The lead being written for; drives the suggestions at the top.
+  lead?: VoiceNoteInput;
+  // Gallery ids already cloned into the user's templates.
+  clonedIds: string[];
+  initialTemplateId?: string;
+  onClone: (template: GalleryTemplate) => void;
+  onClose: () => void;
+}
+
+const PlaceholderPreview: React.FC<{ content: string }> = ({ content }) => (
+  <p className="text-sm text-slate-300 leading-relaxed">
+    {content.split(/(\{\{[^{}]*\}\})/).map((part, idx) =>
+      part.startsWith('{{')
+        ? <span key={idx} className="px-1 rounded bg-indigo-500/15 text-indigo-300 font-mono text-xs">{part}</span>
+        : <React.Fragment key={idx}>{part}</React.Fragment>
+    )}
+  </p>
+);
+
+const TemplateGallery: React.FC<TemplateGalleryProps> = ({ lead, clonedIds, initialTemplateId, onClone, onClose }) => {
+  const [filters, setFilters] = useState<GalleryFilters>({ query: '', industry: 'all', platform: 'all', goal: 'all' });
+  const [previewId, setPreviewId] = useState<string>(initialTemplateId || GALLERY_TEMPLATES[0].id);
+
+  const results = useMemo(() => searchGallery(filters), [filters]);
+  const suggestions = useMemo(() => (lead ? suggestTemplates(lead) : []), [lead]);
+  const preview = GALLERY_TEMPLATES.find(t => t.id === previewId);
+
+  const updateFilter = (patch: Partial<GalleryFilters>) => setFilters(prev => ({ ...prev, ...patch }));
+
+  const renderCard = (template: GalleryTemplate) => (
+    <button
+      key={template.id}
+      onClick={() => setPreviewId(template.id)}
+      className={`w-full text-left p-3 rounded-xl border transition-all ${previewId === template.id ? 'border-indigo-500 bg-indigo-500/10' : 'border-slate-800 hover:border-slate-700'}`}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs font-bold text-white truncate">{template.name}</span>
+        {clonedIds.includes(template.id) && <Check size={12} className="text-green-400 shrink-0" />}
+      </div>
+      <div className="text-[10px] text-slate-500 mt-0.5">{getIndustryLabel(template.industry)} · {template.goal}</div>
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl max-h-[90vh] overflow-y-auto custom-scrollbar p-6 bg-slate-900 rounded-2xl border border-indigo-500/40 shadow-2xl animate-in fade-in zoom-in-95 duration-200 space-y-5"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-start">
+          <div>
+            <span className="text-[10px] font-bold text-indigo-400 uppercase tracking-widest flex items-center gap-1.5"><LayoutTemplate size={12} /> Template Gallery</span>
+            <h3 className="text-white font-bold">Starter templates by industry and goal</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        {suggestions.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-[10px] font-bold text-amber-300 uppercase tracking-widest flex items-center gap-1.5">
+              <Sparkles size={12} /> Suggested for {lead?.businessName || 'this lead'}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">{suggestions.map(renderCard)}</div>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <div className="relative flex-1 min-w-[180px]">
+            <Search size={14} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" />
+            <input
+              value={filters.query}
+              onChange={e => updateFilter({ query: e.target.value })}
+              placeholder="Search templates..."
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg pl-9 pr-3 py-2 text-xs text-slate-200 focus:ring-1 focus:ring-indigo-500"
+            />
+          </div>
+          <select
+            value={filters.industry}
+            onChange={e => updateFilter({ industry: e.target.value as GalleryFilters['industry'] })}
+            className="bg-slate-950 border border-slate-700 rounded-lg px-2 py-2 text-xs text-slate-200"
+          >
+            <option value="all">All industries</option>
+            {TEMPLATE_INDUSTRIES.map(i => <option key={i.id} value={i.id}>{i.label}</option>)}
+          </select>
+          <select
+            value={filters.platform}
+            onChange={e => updateFilter({ platform: e.target.value as GalleryFilters['platform'] })}
+            className="bg-slate-950 border border-slate-700 rounded-lg px-2 py-2 text-xs text-slate-200"
+          >
+            <option value="all">All platforms</option>
+            {PLATFORM_OPTIONS.map(p => <option key={p} value={p}>{p}</option>)}
+          </select>
+          <select
+            value={filters.goal}
+            onChange={e => updateFilter({ goal: e.target.value as GalleryFilters['goal'] })}
+            className="bg-slate-950 border border-slate-700 rounded-lg px-2 py-2 text-xs text-slate-200"
+          >
+            <option value="all">All goals</option>
+            {GOAL_OPTIONS.map(g => <option key={g} value={g}>{g}</option>)}
+          </select>
+        </div>
+
+        <div className="grid md:grid-cols-5 gap-4">
+          <div className="md:col-span-2 space-y-1.5 max-h-[380px] overflow-y-auto custom-scrollbar pr-1">
+            {results.length === 0 ? (
+              <p className="text-xs text-slate-500 p-3">No templates match these filters.</p>
+            ) : results.map(renderCard)}
+          </div>
+
+          <div className="md:col-span-3">
+            {preview && (
+              <div className="p-5 rounded-xl bg-slate-950/60 border border-slate-800 space-y-4">
+                <div>
+                  <div className="text-sm font-bold text-white">{preview.name}</div>
+                  <p className="text-[11px] text-slate-500 mt-0.5">{preview.description}</p>
+                </div>
+                <div className="flex flex-wrap gap-1.5 text-[10px] font-bold uppercase tracking-wider">
+                  <span className="px-2 py-0.5 rounded border border-slate-700 text-slate-300">{getIndustryLabel(preview.industry)}</span>
+                  <span className="px-2 py-0.5 rounded border border-slate-700 text-slate-300">{preview.goal}</span>
+                  {preview.platforms.map(p => <span key={p} className="px-2 py-0.5 rounded border border-slate-800 text-slate-500">{p}</span>)}
+                </div>
+                <PlaceholderPreview content={preview.content} />
+                <div className="flex justify-end">
+                  <button
+                    onClick={() => onClone(preview)}
+                    className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-bold flex items-center gap-2"
+                  >
+                    <Copy size={14} /> {clonedIds.includes(preview.id) ? 'Clone Again' : 'Clone to My Templates'}
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TemplateGallery;
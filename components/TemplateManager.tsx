@@ -1,21 +1,39 @@
 
-import React, { useState, useEffect, useImperativeHandle, forwardRef } from 'react';
-import { Plus, Save, Trash2, Edit3, X, FileText } from 'lucide-react';
-import { CustomTemplate } from '../types';
+import React, { useState, useEffect, useMemo, useRef, useImperativeHandle, forwardRef } from 'react';
+import { Plus, Save, Trash2, Edit3, X, FileText, History, AlertTriangle, Braces, LayoutTemplate, Sparkles } from 'lucide-react';
+import { CustomTemplate, GalleryTemplate, VoiceNoteInput } from '../types';
+import { getTemplateRevisions, reviseTemplate, restoreTemplateRevision } from '../services/versioning';
+import RevisionHistory from './RevisionHistory';
+import { templateStore } from '../services/storage';
+import { parseTemplate } from '../services/templateVariables';
+import { cloneGalleryTemplate, suggestTemplates } from '../services/templateGallery';
+import TemplateGallery from './TemplateGallery';
+import { TEMPLATE_PLACEHOLDERS } from '../constants';
 
 interface TemplateManagerProps {
   onSelect: (template: CustomTemplate | null) => void;
   activeTemplateId?: string;
+  // Current lead, used to suggest gallery templates.
+  lead?: VoiceNoteInput;
 }
 
 export interface TemplateManagerHandle {
   initNewTemplate: (content: string) => void;
 }
 
-const TemplateManager = forwardRef<TemplateManagerHandle, TemplateManagerProps>(({ onSelect, activeTemplateId }, ref) => {
-  const [templates, setTemplates] = useState<CustomTemplate[]>([]);
+const TemplateManager = forwardRef<TemplateManagerHandle, TemplateManagerProps>(({ onSelect, activeTemplateId, lead }, ref) => {
+  const [templates, setTemplates] = useState<CustomTemplate[]>(templateStore.get);
   const [isEditing, setIsEditing] = useState(false);
   const [currentTemplate, setCurrentTemplate] = useState<Partial<CustomTemplate>>({ name: '', content: '' });
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const contentRef = useRef<HTMLTextAreaElement>(null);
+  // Open with a template id to preview, or '' for the first one.
+  const [galleryPreviewId, setGalleryPreviewId] = useState<string | null>(null);
+
+  const suggestion = useMemo(() => (lead ? suggestTemplates(lead, 1)[0] : undefined), [lead]);
+
+  const parsed = useMemo(() => parseTemplate(currentTemplate.content || ''), [currentTemplate.content]);
+  const hasErrors = parsed.issues.some(i => i.severity === 'error');
 
   // Expose method to parent to trigger "Save as Template" from results
   useImperativeHandle(ref, () => ({
@@ -28,11 +46,6 @@ const TemplateManager = forwardRef<TemplateManagerHandle, TemplateManagerProps>(
   }));
 
   useEffect(() => {
-    const saved = localStorage.getItem('voice_note_templates');
-    if (saved) {
-      setTemplates(JSON.parse(saved));
-    }
-
     const handlePageShow = (event: PageTransitionEvent) => {
       onSelect(null);
     };
@@ -45,9 +58,10 @@ const TemplateManager = forwardRef<TemplateManagerHandle, TemplateManagerProps>(
     };
   }, [onSelect]);
 
+  useEffect(() => templateStore.subscribe(setTemplates), []);
+
   const saveTemplates = (newTemplates: CustomTemplate[]) => {
-    setTemplates(newTemplates);
-    localStorage.setItem('voice_note_templates', JSON.stringify(newTemplates));
+    templateStore.set(newTemplates);
   };
 
   const handleSave = () => {
@@ -55,10 +69,19 @@ const TemplateManager = forwardRef<TemplateManagerHandle, TemplateManagerProps>(
       alert("Please provide both a name and template content.");
       return;
     }
+    if (hasErrors) {
+      alert("Fix the placeholder errors before saving.");
+      return;
+    }
 
     if (currentTemplate.id) {
-      const updated = templates.map(t => t.id === currentTemplate.id ? (currentTemplate as CustomTemplate) : t);
+      const updated = templates.map(t =>
+        t.id === currentTemplate.id
+          ? reviseTemplate(t, { name: currentTemplate.name!, content: currentTemplate.content! }, 'manual_edit', 'Edited template')
+          : t
+      );
       saveTemplates(updated);
+      if (activeTemplateId === currentTemplate.id) onSelect(updated.find(t => t.id === currentTemplate.id)!);
     } else {
       const newTemplate: CustomTemplate = {
         id: Date.now().toString(),
@@ -80,6 +103,42 @@ const TemplateManager = forwardRef<TemplateManagerHandle, TemplateManagerProps>(
     if (activeTemplateId === id) onSelect(null);
   };
 
+  const handleRestore = (templateId: string, revisionId: string) => {
+    const updated = templates.map(t => (t.id === templateId ? restoreTemplateRevision(t, revisionId) : t));
+    saveTemplates(updated);
+    if (activeTemplateId === templateId) onSelect(updated.find(t => t.id === templateId)!);
+  };
+
+  const handleClone = (galleryTemplate: GalleryTemplate) => {
+    const clone = cloneGalleryTemplate(galleryTemplate);
+    saveTemplates([...templates, clone]);
+    onSelect(clone);
+    setGalleryPreviewId(null);
+  };
+
+  // Reuses an earlier clone rather than piling up copies of the same starter.
+  const applySuggestion = (galleryTemplate: GalleryTemplate) => {
+    const existing = templates.find(t => t.galleryId === galleryTemplate.id);
+    if (existing) onSelect(existing);
+    else handleClone(galleryTemplate);
+  };
+
+  const historyTemplate = historyId ? templates.find(t => t.id === historyId) : undefined;
+
+  // Inserts at the cursor so placeholders can be dropped in mid-sentence.
+  const insertPlaceholder = (name: string) => {
+    const token = `{{${name}}}`;
+    const content = currentTemplate.content || '';
+    const el = contentRef.current;
+    const start = el ? el.selectionStart : content.length;
+    const end = el ? el.selectionEnd : content.length;
+    setCurrentTemplate({ ...currentTemplate, content: content.slice(0, start) + token + content.slice(end) });
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
   const handleEdit = (template: CustomTemplate, e: React.MouseEvent) => {
     e.stopPropagation();
     setCurrentTemplate(template);
@@ -93,15 +152,23 @@ const TemplateManager = forwardRef<TemplateManagerHandle, TemplateManagerProps>(
           <FileText size={14} className="text-indigo-400" /> Script Templates
         </h3>
         {!isEditing && (
-          <button 
-            onClick={() => {
-              setCurrentTemplate({ name: '', content: '' });
-              setIsEditing(true);
-            }}
-            className="text-xs text-indigo-400 hover:text-indigo-300 flex items-center gap-1 transition-colors font-medium"
-          >
-            <Plus size={14} /> Create New
-          </button>
+          <div className="flex items-center gap-4">
+            <button 
+              onClick={() => setGalleryPreviewId('')}
+              className="text-xs text-slate-400 hover:text-slate-200 flex items-center gap-1 transition-colors font-medium"
+            >
+              <LayoutTemplate size={14} /> Gallery
+            </button>
+            <button 
+              onClick={() => {
+                setCurrentTemplate({ name: '', content: '' });
+                setIsEditing(true);
+              }}
+              className="text-xs text-indigo-400 hover:text-indigo-300 flex items-center gap-1 transition-colors font-medium"
+            >
+              <Plus size={14} /> Create New
+            </button>
+          </div>
         )}
       </div>
 
@@ -125,11 +192,39 @@ const TemplateManager = forwardRef<TemplateManagerHandle, TemplateManagerProps>(
               autoFocus
             />
             <textarea 
-              placeholder="Write your template style here... Use [ownerName], [businessName], [identifiedGap], [freeValue] as placeholders for the AI to fill."
-              className="w-full h-32 bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-sm text-slate-200 focus:ring-1 focus:ring-indigo-500 resize-none font-mono text-xs leading-relaxed"
+              ref={contentRef}
+              placeholder="Write your template style here... Use {{ownerName}}, {{businessName}}, {{gap}}, {{value}} and {{cta}} as slots, or add your own like {{competitor}}, {{reviewCount:number}} or {{caseStudy:url?}} (? = optional)."
+              className={`w-full h-32 bg-slate-950 border rounded-lg p-2.5 text-sm text-slate-200 focus:ring-1 focus:ring-indigo-500 resize-none font-mono text-xs leading-relaxed ${hasErrors ? 'border-red-500/60' : 'border-slate-700'}`}
               value={currentTemplate.content}
               onChange={e => setCurrentTemplate({...currentTemplate, content: e.target.value})}
             />
+            <div className="flex flex-wrap items-center gap-1.5">
+              <Braces size={12} className="text-slate-500" />
+              {TEMPLATE_PLACEHOLDERS.map(p => (
+                <button
+                  key={p.name}
+                  onClick={() => insertPlaceholder(p.name)}
+                  className="px-2 py-0.5 rounded-md text-[10px] font-mono bg-slate-950 border border-slate-700 text-slate-400 hover:text-white hover:border-indigo-500"
+                  title={p.label}
+                >
+                  {`{{${p.name}}}`}
+                </button>
+              ))}
+            </div>
+            {parsed.placeholders.some(p => !p.builtIn) && (
+              <div className="text-[10px] text-slate-500">
+                Extra form fields: {parsed.placeholders.filter(p => !p.builtIn).map(p => `${p.label} (${p.type}${p.optional ? ', optional' : ''})`).join(' · ')}
+              </div>
+            )}
+            {parsed.issues.length > 0 && (
+              <ul className="space-y-1">
+                {parsed.issues.map(issue => (
+                  <li key={issue.message} className={`text-[11px] flex items-start gap-1.5 ${issue.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`}>
+                    <AlertTriangle size={12} className="shrink-0 mt-0.5" /> {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
             <div className="flex gap-2 justify-end pt-2">
               <button 
                 onClick={() => { setIsEditing(false); setCurrentTemplate({ name: '', content: '' }); }}
@@ -139,7 +234,8 @@ const TemplateManager = forwardRef<TemplateManagerHandle, TemplateManagerProps>(
               </button>
               <button 
                 onClick={handleSave}
-                className="px-5 py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-bold flex items-center gap-2 shadow-lg shadow-indigo-500/20 transition-all active:scale-95"
+                disabled={hasErrors}
+                className="px-5 py-2 disabled:opacity-50 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-bold flex items-center gap-2 shadow-lg shadow-indigo-500/20 transition-all active:scale-95"
               >
                 <Save size={14} /> {currentTemplate.id ? 'Update Template' : 'Save Template'}
               </button>
@@ -177,6 +273,13 @@ const TemplateManager = forwardRef<TemplateManagerHandle, TemplateManagerProps>(
                 >
                   <Edit3 size={12} />
                 </button>
+                <button 
+                  onClick={(e) => { e.stopPropagation(); setHistoryId(template.id); }} 
+                  className="p-1 hover:text-indigo-400 transition-colors"
+                  title="Version history"
+                >
+                  <History size={12} />
+                </button>
                 <button 
                   onClick={(e) => handleDelete(template.id, e)} 
                   className="p-1 hover:text-red-400 transition-colors"
@@ -189,6 +292,54 @@ const TemplateManager = forwardRef<TemplateManagerHandle, TemplateManagerProps>(
           ))}
         </div>
       )}
+
+      {!isEditing && !activeTemplateId && suggestion && (
+        <div className="flex items-center gap-2 text-[11px] text-slate-400 animate-in fade-in duration-200">
+          <Sparkles size={12} className="text-amber-300" />
+          <span>Suggested for this lead: <span className="text-slate-200 font-bold">{suggestion.name}</span></span>
+          <button onClick={() => applySuggestion(suggestion)} className="text-indigo-400 hover:text-indigo-300 font-bold">Use</button>
+          <button onClick={() => setGalleryPreviewId(suggestion.id)} className="text-slate-500 hover:text-slate-300">Preview</button>
+        </div>
+      )}
+
+      {galleryPreviewId !== null && (
+        <TemplateGallery
+          lead={lead}
+          clonedIds={templates.map(t => t.galleryId).filter((id): id is string => !!id)}
+          initialTemplateId={galleryPreviewId || undefined}
+          onClone={handleClone}
+          onClose={() => setGalleryPreviewId(null)}
+        />
+      )}
+
+      {historyTemplate && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4" onClick={() => setHistoryId(null)}>
+          <div
+            className="w-full max-w-3xl p-6 bg-slate-900 rounded-2xl border border-indigo-500/40 shadow-2xl animate-in fade-in zoom-in-95 duration-200 space-y-5"
+            onClick={e => e.stopPropagation()}
+          >
+            <div className="flex justify-between items-start">
+              <div>
+                <span className="text-[10px] font-bold text-indigo-400 uppercase tracking-widest">Template History</span>
+                <h3 className="text-white font-bold">{historyTemplate.name}</h3>
+              </div>
+              <button onClick={() => setHistoryId(null)} className="text-slate-500 hover:text-white transition-colors">
+                <X size={16} />
+              </button>
+            </div>
+            <RevisionHistory
+              revisions={getTemplateRevisions(historyTemplate).map(r => ({
+                id: r.id,
+                createdAt: r.createdAt,
+                source: r.source,
+                note: r.name !== historyTemplate.name ? `${r.note ? `${r.note} · ` : ''}named "${r.name}"` : r.note,
+                text: r.content,
+              }))}
+              onRestore={(revisionId) => handleRestore(historyTemplate.id, revisionId)}
+            />
+          </div>
+        </div>
+      )}
     </div>
   );
 });
@@ -0,0 +1,73 @@
+import React from 'react';
+import { ScrollText, X } from 'lucide-react';
+import { AudioResearch, ResearchField } from '../types';
+
+interface TranscriptReviewProps {
+  research: AudioResearch;
+  onDismiss: () => void;
+}
+
+const FIELDS: { field: ResearchField; label: string; color: string }[] = [
+  { field: 'ownerName', label: "Owner's Name", color: 'bg-indigo-500/25 text-indigo-200' },
+  { field: 'businessName', label: 'Business Name', color: 'bg-blue-500/25 text-blue-200' },
+  { field: 'identifiedGap', label: 'Gap', color: 'bg-orange-500/25 text-orange-200' },
+  { field: 'freeValue', label: 'Free Value', color: 'bg-green-500/25 text-green-200' },
+];
+
+type Span = { start: number; end: number; color: string };
+
+/** Splits the transcript so each field's source excerpt can be highlighted in place. */
+const highlight = (transcript: string, research: AudioResearch): React.ReactNode[] => {
+  const lower = transcript.toLowerCase();
+  const spans: Span[] = [];
+  for (const { field, color } of FIELDS) {
+    const source = research.sources[field];
+    const start = source ? lower.indexOf(source.toLowerCase()) : -1;
+    if (start === -1) continue;
+    const end = start + source!.length;
+    // Overlapping excerpts keep the first highlight.
+    if (!spans.some(s => start < s.end && end > s.start)) spans.push({ start, end, color });
+  }
+  spans.sort((a, b) => a.start - b.start);
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  spans.forEach((span, idx) => {
+    if (span.start > cursor) parts.push(transcript.slice(cursor, span.start));
+    parts.push(<mark key={idx} className={`rounded px-0.5 ${span.color}`}>{transcript.slice(span.start, span.end)}</mark>);
+    cursor = span.end;
+  });
+  parts.push(transcript.slice(cursor));
+  return parts;
+};
+
+const TranscriptReview: React.FC<TranscriptReviewProps> = ({ research, onDismiss }) => (
+  <div className="p-4 bg-slate-950/40 border border-slate-800 rounded-xl space-y-3 animate-in slide-in-from-top-2 duration-300">
+    <div className="flex items-center justify-between">
+      <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest flex items-center gap-1.5"><ScrollText size={12} /> From your memo</span>
+      <button onClick={onDismiss} className="text-slate-500 hover:text-white transition-colors" title="Hide transcript">
+        <X size={14} />
+      </button>
+    </div>
+    <div className="grid md:grid-cols-5 gap-4">
+      <div className="md:col-span-2 space-y-2">
+        {FIELDS.map(({ field, label, color }) => (
+          <div key={field} className="text-xs">
+            <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{label}</span>
+            <div className="text-slate-200">{research.fields[field] || <span className="text-slate-600">Not mentioned</span>}</div>
+            {research.fields[field] && (
+              research.sources[field]
+                ? <div className={`inline-block mt-0.5 text-[10px] rounded px-1 ${color}`}>"{research.sources[field]}"</div>
+                : <div className="text-[10px] text-amber-400/80">Not found word for word in the transcript</div>
+            )}
+          </div>
+        ))}
+      </div>
+      <p className="md:col-span-3 text-xs text-slate-400 leading-relaxed max-h-48 overflow-y-auto custom-scrollbar whitespace-pre-wrap">
+        {research.transcript ? highlight(research.transcript, research) : <span className="text-slate-600">No transcript returned.</span>}
+      </p>
+    </div>
+  </div>
+);
+
+export default TranscriptReview;
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { X, Languages, Loader2, Bookmark } from 'lucide-react';
+import { SavedScript, ScriptLanguage, ScriptSection } from '../types';
+import { LANGUAGE_OPTIONS, SCRIPT_LANGUAGES } from '../constants';
+import { translateScript } from '../services/geminiService';
+import { formatMarker, getSections, renderScript } from '../services/scriptSections';
+
+interface TranslateScriptDialogProps {
+  script: SavedScript;
+  onSave: (translation: SavedScript) => void;
+  onClose: () => void;
+}
+
+const TranslateScriptDialog: React.FC<TranslateScriptDialogProps> = ({ script, onSave, onClose }) => {
+  const sourceLanguage = script.language || 'en';
+  const [language, setLanguage] = useState<ScriptLanguage>(LANGUAGE_OPTIONS.find(l => l !== sourceLanguage)!);
+  const [sections, setSections] = useState<ScriptSection[] | null>(null);
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleTranslate = async () => {
+    setIsTranslating(true);
+    setError(null);
+    try {
+      setSections(await translateScript(getSections(script), language, script.tone));
+    } catch (err: any) {
+      setError(err.message || 'Translation failed.');
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!sections) return;
+    // A translation is a new outreach draft: no stage, history, revisions or cached audio carry over.
+    onSave({
+      id: Date.now().toString(),
+      title: `${script.title} (${SCRIPT_LANGUAGES[language].nativeName})`,
+      content: renderScript(sections),
+      sections,
+      ownerName: script.ownerName,
+      businessName: script.businessName,
+      createdAt: Date.now(),
+      voice: script.voice,
+      tone: script.tone,
+      platform: script.platform,
+      goal: script.goal,
+      ...(script.templateId && { templateId: script.templateId, templateName: script.templateName }),
+      language,
+      translatedFrom: script.id,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-950/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg p-6 bg-slate-900 rounded-2xl border border-indigo-500/40 shadow-2xl animate-in fade-in zoom-in-95 duration-200 space-y-5"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-start">
+          <div>
+            <span className="text-[10px] font-bold text-indigo-400 uppercase tracking-widest flex items-center gap-1.5"><Languages size={12} /> Translate Script</span>
+            <h3 className="text-white font-bold">{script.ownerName} @ {script.businessName}</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-slate-400">{SCRIPT_LANGUAGES[sourceLanguage].nativeName} →</span>
+          <select
+            value={language}
+            onChange={e => { setLanguage(e.target.value as ScriptLanguage); setSections(null); }}
+            className="flex-1 bg-slate-950 border border-slate-700 rounded-lg p-2 text-xs text-slate-200"
+          >
+            {LANGUAGE_OPTIONS.filter(l => l !== sourceLanguage).map(l => <option key={l} value={l}>{SCRIPT_LANGUAGES[l].label}</option>)}
+          </select>
+          <button
+            onClick={handleTranslate}
+            disabled={isTranslating}
+            className="px-4 py-2 bg-indigo-600/20 text-indigo-300 hover:bg-indigo-600/30 rounded-lg text-xs font-bold flex items-center gap-2 disabled:opacity-40"
+          >
+            {isTranslating ? <Loader2 size={14} className="animate-spin" /> : <Languages size={14} />} Translate
+          </button>
+        </div>
+
+        {error && <p className="text-[11px] text-red-400">{error}</p>}
+
+        {sections && (
+          <ol className="space-y-2 max-h-72 overflow-y-auto custom-scrollbar">
+            {sections.map((section, idx) => (
+              <li key={idx} className="text-xs">
+                <span className="font-mono text-[10px] text-indigo-300">{formatMarker(section)}</span>
+                <p className="text-slate-300 leading-relaxed">{section.text}</p>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        <div className="flex gap-2 justify-end">
+          <button onClick={onClose} className="px-4 py-2 text-xs text-slate-400 hover:text-slate-200 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!sections}
+            className="px-5 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:bg-slate-800 disabled:text-slate-500 text-white rounded-lg text-xs font-bold flex items-center gap-2 shadow-lg shadow-indigo-500/20 transition-all"
+          >
+            <Bookmark size={14} /> Save Translation
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TranslateScriptDialog;
@@ -0,0 +1,169 @@
+import React, { useState, useMemo } from 'react';
+import { Columns, Check, Bookmark, Gauge, Merge, MousePointerClick, X } from 'lucide-react';
+import { ScriptVariant, VoiceNoteInput } from '../types';
+import { PLATFORM_PROFILES } from '../constants';
+import { getDurationStatus } from '../services/scriptUtils';
+import { estimateSectionsDuration, formatMarker, normalizeSections } from '../services/scriptSections';
+
+interface VariantComparisonProps {
+  variants: ScriptVariant[];
+  activeLabel: string | null;
+  savedLabels: string[];
+  onPick: (variant: ScriptVariant) => void;
+  onSave: (variant: ScriptVariant) => void;
+  platform: VoiceNoteInput['platform'];
+}
+
+const VariantComparison: React.FC<VariantComparisonProps> = ({ variants, activeLabel, savedLabels, onPick, onSave, platform }) => {
+  const { minSeconds, maxSeconds } = PLATFORM_PROFILES[platform];
+  const [isMerging, setIsMerging] = useState(false);
+  // Segment index -> label of the variant that supplies it.
+  const [mergeSelection, setMergeSelection] = useState<Record<number, string>>({});
+
+  const segmentsByLabel = useMemo(
+    () => Object.fromEntries(variants.map(v => [v.label, v.sections])),
+    [variants]
+  );
+
+  const segmentCount = Math.max(0, ...variants.map(v => segmentsByLabel[v.label].length));
+
+  const mergedVariant = useMemo((): ScriptVariant | null => {
+    if (!isMerging || Object.keys(mergeSelection).length === 0) return null;
+    const base = variants[0];
+    const parts: string[] = [];
+    const segments = Array.from({ length: segmentCount }, (_, idx) => {
+      const label = mergeSelection[idx] || base.label;
+      const source = segmentsByLabel[label][idx] || segmentsByLabel[base.label][idx];
+      parts.push(`${label}${idx + 1}`);
+      return source;
+    }).filter(Boolean);
+    const ctaLabel = mergeSelection[segmentCount - 1] || base.label;
+    const ctaSource = variants.find(v => v.label === ctaLabel) || base;
+    return {
+      ...ctaSource,
+      label: `Merged ${parts.join('+')}`,
+      // Sections from different drafts can overlap in time; re-flow them into one timeline.
+      sections: normalizeSections(segments),
+    };
+  }, [isMerging, mergeSelection, variants, segmentsByLabel, segmentCount]);
+
+  const toggleMerge = () => {
+    setIsMerging(m => !m);
+    setMergeSelection({});
+  };
+
+  return (
+    <div className="glass-effect rounded-2xl p-6 space-y-5 border-indigo-500/20">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-indigo-400 uppercase tracking-widest flex items-center gap-2">
+          <Columns size={16} /> Compare Variants
+        </h3>
+        <button
+          onClick={toggleMerge}
+          className={`px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-2 transition-all ${
+            isMerging ? 'bg-purple-500/20 text-purple-300 border border-purple-500/40' : 'bg-slate-900 text-slate-400 border border-slate-800 hover:text-white'
+          }`}
+        >
+          {isMerging ? <X size={14} /> : <Merge size={14} />} {isMerging ? 'Cancel Merge' : 'Merge Sections'}
+        </button>
+      </div>
+
+      {isMerging && (
+        <p className="text-[11px] text-purple-300/80 flex items-center gap-2">
+          <MousePointerClick size={12} /> Click a section in any variant to use it in the merged script.
+        </p>
+      )}
+
+      <div className="grid gap-4" style={{ gridTemplateColumns: `repeat(${Math.min(variants.length, 3)}, minmax(0, 1fr))` }}>
+        {variants.map(variant => {
+          const seconds = estimateSectionsDuration(variant.sections);
+          const status = getDurationStatus(seconds, minSeconds, maxSeconds);
+          const isActive = activeLabel === variant.label;
+          const isSaved = savedLabels.includes(variant.label);
+          return (
+            <div
+              key={variant.label}
+              className={`rounded-xl border p-4 flex flex-col gap-3 bg-slate-950/40 ${isActive ? 'border-indigo-500 shadow-lg shadow-indigo-500/10' : 'border-slate-800'}`}
+            >
+              <div className="flex items-start justify-between">
+                <div>
+                  <span className="text-xs font-black text-white">Variant {variant.label}</span>
+                  <div className="text-[10px] text-slate-500 uppercase tracking-wider">{variant.tone} · {variant.opener}</div>
+                  <div className={`text-[10px] font-bold mt-1 uppercase flex items-center gap-1.5 ${status.color}`}>
+                    <Gauge size={12} /> {status.label} (~{seconds}s)
+                  </div>
+                </div>
+                <div className="flex gap-1">
+                  <button
+                    onClick={() => onSave(variant)}
+                    disabled={isSaved}
+                    title="Save variant to library"
+                    className={`p-1.5 rounded-lg ${isSaved ? 'text-green-400 bg-green-500/10' : 'text-slate-500 hover:text-yellow-400 hover:bg-yellow-500/10'}`}
+                  >
+                    {isSaved ? <Check size={14} /> : <Bookmark size={14} />}
+                  </button>
+                </div>
+              </div>
+
+              <div className="flex-1 space-y-1.5 text-sm text-slate-300 leading-relaxed">
+                {segmentsByLabel[variant.label].map((segment, idx) => {
+                  const selected = isMerging && mergeSelection[idx] === variant.label;
+                  return (
+                    <div
+                      key={idx}
+                      onClick={() => isMerging && setMergeSelection(prev => ({ ...prev, [idx]: variant.label }))}
+                      className={`rounded-lg px-2 py-1 transition-all ${isMerging ? 'cursor-pointer hover:bg-purple-500/10' : ''} ${selected ? 'bg-purple-500/20 ring-1 ring-purple-500/50' : ''}`}
+                    >
+                      <span className="text-[10px] font-mono text-indigo-400 mr-1">{formatMarker(segment)}</span>
+                      {segment.text}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <p className="text-[11px] text-blue-300/80 italic">"{variant.followUp}"</p>
+
+              <button
+                onClick={() => onPick(variant)}
+                className={`w-full py-2 rounded-lg text-xs font-bold transition-all ${isActive ? 'bg-indigo-500 text-white' : 'bg-indigo-600/10 text-indigo-400 hover:bg-indigo-600/20'}`}
+              >
+                {isActive ? 'Selected' : 'Use This Variant'}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {mergedVariant && (
+        <div className="rounded-xl border border-purple-500/40 bg-purple-500/5 p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-black text-purple-300">{mergedVariant.label}</span>
+            <span className="text-[10px] text-slate-500">~{estimateSectionsDuration(mergedVariant.sections)}s</span>
+          </div>
+          <div className="space-y-1 text-sm text-slate-200">
+            {mergedVariant.sections.map((section, idx) => (
+              <p key={idx}><span className="text-[10px] font-mono text-indigo-400 mr-1">{formatMarker(section)}</span>{section.text}</p>
+            ))}
+          </div>
+          <div className="flex gap-2 justify-end">
+            <button
+              onClick={() => onSave(mergedVariant)}
+              disabled={savedLabels.includes(mergedVariant.label)}
+              className="px-3 py-1.5 rounded-lg text-xs font-bold flex items-center gap-2 bg-slate-900 border border-slate-700 text-slate-300 hover:text-yellow-400 disabled:opacity-40"
+            >
+              <Bookmark size={14} /> Save Merged
+            </button>
+            <button
+              onClick={() => onPick(mergedVariant)}
+              className="px-3 py-1.5 rounded-lg text-xs font-bold bg-purple-600 hover:bg-purple-500 text-white"
+            >
+              Use Merged Script
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VariantComparison;
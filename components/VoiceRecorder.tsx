@@ -1,12 +1,21 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { Mic, Square, Loader2, Sparkles, AlertCircle } from 'lucide-react';
+import { baseMimeType } from '../services/audioFiles';
 
 interface VoiceRecorderProps {
-  onAudioCaptured: (base64: string, mimeType: string) => Promise<void>;
+  onAudioCaptured: (base64: string, mimeType: string, durationSeconds: number) => Promise<void>;
+  idleLabel?: string;
+  idleHint?: string;
+  processingHint?: string;
 }
 
-const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ onAudioCaptured }) => {
+const VoiceRecorder: React.FC<VoiceRecorderProps> = ({
+  onAudioCaptured,
+  idleLabel = "Record Research",
+  idleHint = "Click the mic and describe your research findings aloud",
+  processingHint = "AI is parsing your thoughts...",
+}) => {
   const [isRecording, setIsRecording] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -17,6 +26,7 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ onAudioCaptured }) => {
   const animationFrameRef = useRef<number | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
+  const startedAtRef = useRef<number>(0);
 
   const startRecording = async () => {
     try {
@@ -44,14 +54,17 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ onAudioCaptured }) => {
       };
 
       mediaRecorder.onstop = async () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
+        const durationSeconds = (Date.now() - startedAtRef.current) / 1000;
+        // Browsers record in different containers (Safari uses mp4), so report what was actually recorded.
+        const mimeType = baseMimeType(mediaRecorder.mimeType || 'audio/webm');
+        const audioBlob = new Blob(audioChunksRef.current, { type: mimeType });
         const reader = new FileReader();
         reader.readAsDataURL(audioBlob);
         reader.onloadend = async () => {
           const base64Audio = (reader.result as string).split(',')[1];
           setIsProcessing(true);
           try {
-            await onAudioCaptured(base64Audio, 'audio/webm');
+            await onAudioCaptured(base64Audio, mimeType, durationSeconds);
           } catch (e) {
             setError("Failed to process audio. Try speaking more clearly.");
           } finally {
@@ -63,6 +76,7 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ onAudioCaptured }) => {
       };
 
       mediaRecorder.start();
+      startedAtRef.current = Date.now();
       setIsRecording(true);
       drawWaveform();
     } catch (err) {
@@ -143,7 +157,7 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ onAudioCaptured }) => {
         <div className="flex-1 flex flex-col justify-center">
           <div className="flex items-center justify-between mb-1">
             <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">
-              {isRecording ? "Listening..." : isProcessing ? "Extracting insights..." : "Record Research"}
+              {isRecording ? "Listening..." : isProcessing ? "Extracting insights..." : idleLabel}
             </span>
             {isRecording && <span className="flex h-2 w-2 rounded-full bg-red-500 animate-ping"></span>}
           </div>
@@ -153,10 +167,10 @@ const VoiceRecorder: React.FC<VoiceRecorderProps> = ({ onAudioCaptured }) => {
               <canvas ref={canvasRef} className="w-full h-full" width={300} height={32} />
             ) : isProcessing ? (
               <div className="text-[10px] text-indigo-400 flex items-center gap-2 italic">
-                <Sparkles size={10} className="animate-pulse" /> AI is parsing your thoughts...
+                <Sparkles size={10} className="animate-pulse" /> {processingHint}
               </div>
             ) : (
-              <span className="text-[10px] text-slate-600 italic">Click the mic and describe your research findings aloud</span>
+              <span className="text-[10px] text-slate-600 italic">{idleHint}</span>
             )}
           </div>
         </div>
@@ -0,0 +1,161 @@
+import React, { useState, useRef, useMemo } from 'react';
+import { HardDriveDownload, HardDriveUpload, Loader2, AlertTriangle, Check, X } from 'lucide-react';
+import { downloadBlob, readFileAsText } from '../services/fileService';
+import {
+  ImportMode, ParsedBundle, applyImport, bundleFilename, exportWorkspace, parseBundle, planImport,
+} from '../services/workspaceBundle';
+
+const WorkspaceTransfer: React.FC = () => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [includeAudio, setIncludeAudio] = useState(true);
+  const [includeApiKey, setIncludeApiKey] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [parsed, setParsed] = useState<ParsedBundle | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [doneMessage, setDoneMessage] = useState<string | null>(null);
+
+  const plan = useMemo(() => (parsed ? planImport(parsed.bundle, mode) : null), [parsed, mode]);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const bundle = await exportWorkspace({ includeAudio, includeApiKey });
+      downloadBlob(new Blob([JSON.stringify(bundle)], { type: 'application/json' }), bundleFilename());
+    } catch (err) {
+      console.error("Workspace export error:", err);
+      setError("Export failed. The audio cache may be unavailable; try again without cached audio.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setDoneMessage(null);
+    try {
+      setParsed(parseBundle(await readFileAsText(file)));
+      setFileName(file.name);
+    } catch (err: any) {
+      setParsed(null);
+      setError(err.message || "Could not read that file.");
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    if (plan.mode === 'replace' && !confirm("Replace your whole workspace with this export? Current scripts, templates, goals, style profiles and cached audio will be removed.")) return;
+    setIsImporting(true);
+    setError(null);
+    try {
+      await applyImport(plan);
+      const { scriptsAdded, scriptsUpdated, templatesAdded, templatesUpdated, goalsAdded, goalsUpdated, styleProfilesAdded, styleProfilesUpdated } = plan.summary;
+      setDoneMessage(`Imported ${scriptsAdded + scriptsUpdated} scripts, ${templatesAdded + templatesUpdated} templates, ${goalsAdded + goalsUpdated} goals and ${styleProfilesAdded + styleProfilesUpdated} style profiles.`);
+      setParsed(null);
+    } catch (err) {
+      console.error("Workspace import error:", err);
+      setError("Import failed part-way. Your existing data was kept where it could not be written.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="glass-effect rounded-2xl p-6 space-y-6">
+      <div>
+        <h3 className="text-sm font-bold text-indigo-400 uppercase tracking-widest">Workspace Backup</h3>
+        <p className="text-[11px] text-slate-500 mt-1">Scripts, templates, goals, style profiles, settings and cached audio live in this browser only. Export them to move browsers or keep a backup.</p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+          <input type="checkbox" className="accent-indigo-500" checked={includeAudio} onChange={e => setIncludeAudio(e.target.checked)} />
+          Include cached audio
+        </label>
+        <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+          <input type="checkbox" className="accent-indigo-500" checked={includeApiKey} onChange={e => setIncludeApiKey(e.target.checked)} />
+          Include API key
+        </label>
+        <div className="flex-1" />
+        <button
+          onClick={handleExport}
+          disabled={isExporting}
+          className="px-4 py-2 bg-slate-900 border border-slate-700 hover:border-slate-600 text-slate-200 rounded-lg text-xs font-bold flex items-center gap-2"
+        >
+          {isExporting ? <Loader2 size={14} className="animate-spin" /> : <HardDriveDownload size={14} />} Export Workspace
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-4 py-2 bg-slate-900 border border-slate-700 hover:border-slate-600 text-slate-200 rounded-lg text-xs font-bold flex items-center gap-2"
+        >
+          <HardDriveUpload size={14} /> Import...
+        </button>
+        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleFile} />
+      </div>
+
+      {parsed && plan && (
+        <div className="rounded-xl border border-indigo-500/30 bg-indigo-500/5 p-4 space-y-4 animate-in fade-in duration-200">
+          <div className="flex items-start justify-between">
+            <div>
+              <div className="text-xs font-bold text-white">{fileName}</div>
+              <div className="text-[10px] text-slate-500">
+                Exported {new Date(parsed.bundle.exportedAt).toLocaleString()} · {parsed.bundle.scripts.length} scripts · {parsed.bundle.templates.length} templates · {parsed.bundle.goals.length} goals · {parsed.bundle.styleProfiles.length} style profiles · {parsed.bundle.audio.length} audio clips
+                {parsed.sourceVersion < parsed.bundle.version && ` · upgraded from v${parsed.sourceVersion}`}
+              </div>
+            </div>
+            <button onClick={() => setParsed(null)} className="text-slate-500 hover:text-white"><X size={14} /></button>
+          </div>
+
+          {parsed.warnings.map(w => (
+            <p key={w} className="text-[11px] text-amber-400 flex items-center gap-1.5"><AlertTriangle size={12} /> {w}</p>
+          ))}
+
+          <div className="grid grid-cols-2 gap-2">
+            {(['merge', 'replace'] as ImportMode[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`text-left p-3 rounded-lg border text-xs transition-all ${mode === m ? 'border-indigo-500 bg-indigo-600/20 text-white' : 'border-slate-800 text-slate-400 hover:border-slate-700'}`}
+              >
+                <div className="font-bold capitalize">{m}</div>
+                <div className="text-[10px] text-slate-500 mt-0.5">
+                  {m === 'merge' ? 'Add new entries, update ones changed more recently in the export, keep your settings.' : 'Wipe this workspace and use the export as-is, including settings.'}
+                </div>
+              </button>
+            ))}
+          </div>
+
+          <div className="text-[11px] text-slate-300 space-y-0.5">
+            <div>Scripts: <span className="text-green-400">{plan.summary.scriptsAdded} new</span> · <span className="text-blue-300">{plan.summary.scriptsUpdated} updated</span> · <span className="text-slate-500">{plan.summary.scriptsSkipped} duplicates skipped</span></div>
+            <div>Templates: <span className="text-green-400">{plan.summary.templatesAdded} new</span> · <span className="text-blue-300">{plan.summary.templatesUpdated} updated</span> · <span className="text-slate-500">{plan.summary.templatesSkipped} duplicates skipped</span></div>
+            <div>Goals: <span className="text-green-400">{plan.summary.goalsAdded} new</span> · <span className="text-blue-300">{plan.summary.goalsUpdated} updated</span> · <span className="text-slate-500">{plan.summary.goalsSkipped} duplicates skipped</span></div>
+            <div>Style profiles: <span className="text-green-400">{plan.summary.styleProfilesAdded} new</span> · <span className="text-blue-300">{plan.summary.styleProfilesUpdated} updated</span> · <span className="text-slate-500">{plan.summary.styleProfilesSkipped} duplicates skipped</span></div>
+            <div>Audio clips: {plan.summary.audio}</div>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleImport}
+              disabled={isImporting}
+              className={`px-5 py-2 rounded-lg text-xs font-bold flex items-center gap-2 text-white ${mode === 'replace' ? 'bg-red-600 hover:bg-red-500' : 'bg-indigo-600 hover:bg-indigo-500'}`}
+            >
+              {isImporting ? <Loader2 size={14} className="animate-spin" /> : <HardDriveUpload size={14} />}
+              {mode === 'replace' ? 'Replace Workspace' : 'Merge Into Workspace'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-400 flex items-center gap-1.5"><X size={12} /> {error}</p>}
+      {doneMessage && <p className="text-xs text-green-400 flex items-center gap-1.5"><Check size={12} /> {doneMessage}</p>}
+    </div>
+  );
+};
+
+export default WorkspaceTransfer;
@@ -0,0 +1,187 @@
+import { BuiltInGoal, OutreachGoal, PipelineStage, PlatformProfile, ReplyIntent, SequenceChannel, SequenceStepKind, RevisionSource, ScriptLanguage, ScriptSectionRole, TemplateIndustry, VoiceNoteInput, VoiceOption } from './types';
+
+export const PLATFORM_OPTIONS: VoiceNoteInput['platform'][] = ['LinkedIn', 'Instagram', 'WhatsApp'];
+
+// Voice notes on LinkedIn and Instagram are capped at 60 seconds; WhatsApp has no cap but long notes get skipped.
+export const PLATFORM_PROFILES: Record<VoiceNoteInput['platform'], PlatformProfile> = {
+  LinkedIn: {
+    minSeconds: 30,
+    maxSeconds: 55,
+    followUpMaxChars: 300,
+    emoji: 'none',
+    greeting: 'Hi [Name]',
+    avoidGreetings: ['yo', 'sup', 'hey guys', 'hiya'],
+    norms: 'Peer-to-peer professional. Mention how you found them; no slang or hype.',
+  },
+  Instagram: {
+    minSeconds: 20,
+    maxSeconds: 45,
+    followUpMaxChars: 150,
+    emoji: 'sparing',
+    greeting: 'Hey [Name]',
+    avoidGreetings: ['dear', 'greetings', 'good morning', 'good afternoon'],
+    norms: 'Casual and quick. Reference a specific post, reel or their bio.',
+  },
+  WhatsApp: {
+    minSeconds: 25,
+    maxSeconds: 50,
+    followUpMaxChars: 200,
+    emoji: 'sparing',
+    greeting: "Hi [Name], it's [your name] here",
+    avoidGreetings: ['yo', 'sup', 'dear'],
+    norms: 'They may not have your number saved: say who you are and where you found them in the first line.',
+  },
+};
+
+export const TONE_OPTIONS: VoiceNoteInput['tone'][] = ['Casual', 'Professional', 'Direct', 'Warm'];
+
+export const GOAL_OPTIONS: BuiltInGoal[] = ['Permission to Send', 'Testimonial/Feedback', 'Book a Call', 'Quick Question'];
+
+// Defaults for the built-in goals, in GOAL_OPTIONS order. Users can override all but the name.
+export const BUILT_IN_GOALS: OutreachGoal[] = [
+  {
+    id: 'permission',
+    name: 'Permission to Send',
+    ctaInstructions: 'Ask for permission to send the free work over. Low pressure; a yes should cost them nothing.',
+    examplePhrasings: ['Mind if I send it over?', 'Want me to shoot it across so you can take a look?'],
+    targetSeconds: 40,
+    builtIn: true,
+    createdAt: 0,
+    updatedAt: 0,
+  },
+  {
+    id: 'testimonial',
+    name: 'Testimonial/Feedback',
+    ctaInstructions: 'Offer the work for free in exchange for honest feedback or a short testimonial if it helps.',
+    examplePhrasings: ['All I would ask is your honest feedback once you have tried it.', 'If it helps, a quick testimonial would mean a lot.'],
+    targetSeconds: 45,
+    builtIn: true,
+    createdAt: 0,
+    updatedAt: 0,
+  },
+  {
+    id: 'book-call',
+    name: 'Book a Call',
+    ctaInstructions: 'Ask for a short call to walk through the work. Name a length (10-15 minutes) and make it easy to say yes.',
+    examplePhrasings: ['Are you free for a quick 15-minute call this week?', 'Easier to walk you through it live. Got 10 minutes Thursday?'],
+    targetSeconds: 45,
+    builtIn: true,
+    createdAt: 0,
+    updatedAt: 0,
+  },
+  {
+    id: 'quick-question',
+    name: 'Quick Question',
+    ctaInstructions: 'End on one simple question about their business that is easy to answer in a sentence. No pitch in the ask.',
+    examplePhrasings: ['Quick question: is that something you are already working on?', 'Curious, where do most of your new clients come from right now?'],
+    targetSeconds: 30,
+    builtIn: true,
+    createdAt: 0,
+    updatedAt: 0,
+  },
+];
+
+export const TONE_VOICE_MAP: Record<string, VoiceOption> = {
+  'Casual': 'Puck',
+  'Professional': 'Charon',
+  'Direct': 'Fenrir',
+  'Warm': 'Kore'
+};
+
+export const LANGUAGE_OPTIONS: ScriptLanguage[] = ['en', 'es', 'pt', 'de'];
+
+// speechLocale is the BCP-47 code passed to TTS; opener is the cultural guidance given to the model.
+export const SCRIPT_LANGUAGES: Record<ScriptLanguage, { label: string; nativeName: string; speechLocale: string; opener: string }> = {
+  en: {
+    label: 'English',
+    nativeName: 'English',
+    speechLocale: 'en-US',
+    opener: 'A first-name greeting that goes straight to the specific detail.',
+  },
+  es: {
+    label: 'Spanish',
+    nativeName: 'Español',
+    speechLocale: 'es-US',
+    opener: 'Open warmly ("Hola [Name], ¿qué tal?") with a friendly line before the detail. Use "tú", or "usted" for a Professional tone.',
+  },
+  pt: {
+    label: 'Portuguese (Brazil)',
+    nativeName: 'Português',
+    speechLocale: 'pt-BR',
+    opener: 'Open personally ("Oi [Name], tudo bem?") and keep it warm and informal. Use "você".',
+  },
+  de: {
+    label: 'German',
+    nativeName: 'Deutsch',
+    speechLocale: 'de-DE',
+    opener: 'A short greeting ("Hallo [Name]") and straight to the point, without hype. Use "du" for Casual, otherwise "Sie".',
+  },
+};
+
+export const PIPELINE_STAGES: { id: PipelineStage; label: string; color: string; dot: string }[] = [
+  { id: 'drafted', label: 'Drafted', color: 'text-slate-300 bg-slate-700/40 border-slate-600/50', dot: 'bg-slate-400' },
+  { id: 'sent', label: 'Sent', color: 'text-blue-300 bg-blue-500/10 border-blue-500/30', dot: 'bg-blue-400' },
+  { id: 'replied', label: 'Replied', color: 'text-indigo-300 bg-indigo-500/10 border-indigo-500/30', dot: 'bg-indigo-400' },
+  { id: 'call_booked', label: 'Call Booked', color: 'text-purple-300 bg-purple-500/10 border-purple-500/30', dot: 'bg-purple-400' },
+  { id: 'closed', label: 'Closed', color: 'text-green-300 bg-green-500/10 border-green-500/30', dot: 'bg-green-400' },
+  { id: 'ghosted', label: 'Ghosted', color: 'text-red-300 bg-red-500/10 border-red-500/30', dot: 'bg-red-400' },
+];
+
+// Default cadence: the voice note, a text on day 2, a bump on day 5 and a breakup message on day 10.
+export const SEQUENCE_CADENCE: { kind: SequenceStepKind; channel: SequenceChannel; delayDays: number }[] = [
+  { kind: 'voice_note', channel: 'voice_note', delayDays: 0 },
+  { kind: 'follow_up', channel: 'text', delayDays: 2 },
+  { kind: 'bump', channel: 'text', delayDays: 5 },
+  { kind: 'breakup', channel: 'text', delayDays: 10 },
+];
+
+export const SEQUENCE_STEP_LABELS: Record<SequenceStepKind, { label: string; brief: string }> = {
+  voice_note: { label: 'Voice Note', brief: 'The opening voice note.' },
+  follow_up: { label: 'Follow-up', brief: 'Check they saw the note and restate the free value in one line. Make replying easy.' },
+  bump: { label: 'Bump', brief: 'A short, light nudge with one new angle or detail. Never guilt them for not replying.' },
+  breakup: { label: 'Breakup', brief: 'A polite last message: close the loop, leave the door open, no pressure.' },
+};
+
+// How a lead's reply reads, and what our answer should do with it.
+export const REPLY_INTENTS: { id: ReplyIntent; label: string; color: string; brief: string }[] = [
+  { id: 'interested', label: 'Interested', color: 'text-green-300 bg-green-500/10 border-green-500/30', brief: 'Thank them, deliver what was promised and propose one concrete next step.' },
+  { id: 'objection', label: 'Objection', color: 'text-amber-300 bg-amber-500/10 border-amber-500/30', brief: 'Acknowledge the concern without arguing, answer it in a sentence or two, then re-ask softly.' },
+  { id: 'not_now', label: 'Not Now', color: 'text-blue-300 bg-blue-500/10 border-blue-500/30', brief: 'Respect the timing, leave the free value with them and ask when to check back.' },
+  { id: 'unsubscribe', label: 'Unsubscribe', color: 'text-red-300 bg-red-500/10 border-red-500/30', brief: 'Confirm you will not message again and thank them. No pitch and no ask.' },
+];
+
+// Framework order. Generated scripts are expected to follow it, one section per role.
+export const SCRIPT_SECTION_ROLES: { id: ScriptSectionRole; label: string; color: string }[] = [
+  { id: 'pattern_interrupt', label: 'Pattern Interrupt', color: 'text-amber-300' },
+  { id: 'observation', label: 'Observation', color: 'text-blue-300' },
+  { id: 'work_done', label: 'Work Done', color: 'text-purple-300' },
+  { id: 'cta', label: 'CTA', color: 'text-green-300' },
+];
+
+// Built-in template placeholders. `field` is the form input that fills it; without one the model writes the slot.
+// `checked` placeholders must show up in the generated script.
+export const TEMPLATE_PLACEHOLDERS: { name: string; label: string; field?: keyof VoiceNoteInput; checked: boolean; aliases: string[] }[] = [
+  { name: 'ownerName', label: "Owner's Name", field: 'ownerName', checked: true, aliases: ['owner'] },
+  { name: 'businessName', label: 'Business Name', field: 'businessName', checked: true, aliases: ['business'] },
+  { name: 'gap', label: 'The Gap', field: 'identifiedGap', checked: true, aliases: ['identifiedGap'] },
+  { name: 'value', label: 'Free Value', field: 'freeValue', checked: true, aliases: ['freeValue'] },
+  { name: 'cta', label: 'Call to Action', checked: true, aliases: [] },
+  { name: 'platform', label: 'Platform', field: 'platform', checked: false, aliases: [] },
+  { name: 'goal', label: 'Goal', field: 'goal', checked: false, aliases: [] },
+];
+
+// Keywords are matched against the lead's business, gap and value to suggest gallery templates.
+export const TEMPLATE_INDUSTRIES: { id: TemplateIndustry; label: string; keywords: string[] }[] = [
+  { id: 'fitness', label: 'Fitness', keywords: ['gym', 'fitness', 'coach', 'coaching', 'trainer', 'training', 'yoga', 'pilates', 'crossfit', 'studio', 'workout', 'nutrition', 'members', 'membership', 'classes'] },
+  { id: 'agency', label: 'Agencies', keywords: ['agency', 'marketing', 'design', 'studio', 'consulting', 'consultancy', 'clients', 'retainer', 'portfolio', 'case study', 'seo', 'ads', 'branding', 'creative'] },
+  { id: 'ecommerce', label: 'E-commerce', keywords: ['shop', 'store', 'shopify', 'ecommerce', 'e-commerce', 'product', 'products', 'checkout', 'cart', 'brand', 'orders', 'listing', 'amazon', 'etsy'] },
+  { id: 'local_services', label: 'Local Services', keywords: ['plumber', 'plumbing', 'dentist', 'dental', 'salon', 'barber', 'restaurant', 'cafe', 'clinic', 'roofing', 'cleaning', 'landscaping', 'electrician', 'google reviews', 'google maps', 'bookings', 'local'] },
+];
+
+export const REVISION_SOURCES: Record<RevisionSource, { label: string; color: string }> = {
+  created: { label: 'Created', color: 'text-slate-300 bg-slate-700/40 border-slate-600/50' },
+  manual_edit: { label: 'Manual Edit', color: 'text-blue-300 bg-blue-500/10 border-blue-500/30' },
+  regeneration: { label: 'Regenerated', color: 'text-purple-300 bg-purple-500/10 border-purple-500/30' },
+  template_change: { label: 'Template Change', color: 'text-amber-300 bg-amber-500/10 border-amber-500/30' },
+  restore: { label: 'Restored', color: 'text-green-300 bg-green-500/10 border-green-500/30' },
+};
@@ -0,0 +1,233 @@
+#!/usr/bin/env node
+/**
+ * Self-hosted sync server for team-shared libraries and templates.
+ *
+ * Stores one JSON file per workspace under SYNC_DATA_DIR. Every accepted write
+ * bumps the workspace sequence number; clients pull everything above the last
+ * number they saw and push changes against the revision they last saw, so a
+ * write based on a stale copy comes back as a conflict for the client to merge.
+ *
+ *   SYNC_PORT             port to listen on (default 8787)
+ *   SYNC_HOST             address to bind (default 127.0.0.1, this machine only)
+ *   SYNC_DATA_DIR         where workspace files are kept (default ./sync-data)
+ *   SYNC_TOKEN            shared secret; clients send it as a Bearer token
+ *   SYNC_ALLOWED_ORIGINS  space- or comma-separated app origins allowed to call
+ *                         the server (default: localhost origins only)
+ *
+ * Binding to any other address than loopback needs SYNC_TOKEN or
+ * SYNC_ALLOWED_ORIGINS, so the team's data is not open to the whole network.
+ */
+import http from 'node:http';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+const PORT = Number(process.env.SYNC_PORT) || 8787;
+const HOST = process.env.SYNC_HOST || '127.0.0.1';
+const DATA_DIR = path.resolve(process.env.SYNC_DATA_DIR || 'sync-data');
+const TOKEN = process.env.SYNC_TOKEN || '';
+const ALLOWED_ORIGINS = (process.env.SYNC_ALLOWED_ORIGINS || '').split(/[\s,]+/).filter(Boolean).map(o => o.replace(/\/+$/, ''));
+const LOOPBACK_HOSTS = new Set(['localhost', '127.0.0.1', '[::1]', '::1']);
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+const MAX_CHANGES_PER_PUSH = 500;
+const WORKSPACE_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const KINDS = new Set(['script', 'template', 'goal']);
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Loaded workspaces, and a per-workspace promise chain so writes never interleave.
+const workspaces = new Map();
+const locks = new Map();
+
+const workspaceFile = id => path.join(DATA_DIR, `${id}.json`);
+
+async function loadWorkspace(id) {
+  if (workspaces.has(id)) return workspaces.get(id);
+  let workspace;
+  try {
+    workspace = JSON.parse(await fs.readFile(workspaceFile(id), 'utf8'));
+  } catch (error) {
+    if (error.code !== 'ENOENT') throw error;
+    workspace = { id, seq: 0, records: {} };
+  }
+  workspaces.set(id, workspace);
+  return workspace;
+}
+
+async function saveWorkspace(workspace) {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  // Write then rename, so a crash mid-write never leaves a truncated file.
+  const tmp = `${workspaceFile(workspace.id)}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(workspace));
+  await fs.rename(tmp, workspaceFile(workspace.id));
+}
+
+function withLock(id, task) {
+  const run = (locks.get(id) || Promise.resolve()).then(task);
+  locks.set(id, run.catch(() => {}));
+  return run;
+}
+
+const isValidData = (kind, id, data) => {
+  if (data === null) return true;
+  if (!data || typeof data !== 'object' || data.id !== id) return false;
+  if (kind === 'goal') return typeof data.name === 'string' && typeof data.ctaInstructions === 'string';
+  return typeof data.content === 'string' && (kind === 'script' || typeof data.name === 'string');
+};
+
+function validateChange(change) {
+  if (!change || !KINDS.has(change.kind) || typeof change.id !== 'string' || !change.id) {
+    throw new HttpError(400, 'Each change needs a kind of "script", "template" or "goal" and an id.');
+  }
+  if (typeof change.baseRev !== 'number' || !isValidData(change.kind, change.id, change.data)) {
+    throw new HttpError(400, `Malformed change for ${change.kind} ${change.id}.`);
+  }
+}
+
+/** Changes since `since`, oldest first. */
+async function handlePull(id, since) {
+  const workspace = await loadWorkspace(id);
+  const records = Object.values(workspace.records)
+    .filter(record => record.rev > since)
+    .sort((a, b) => a.rev - b.rev);
+  return { seq: workspace.seq, records };
+}
+
+/**
+ * Applies each change whose baseRev matches the stored revision. Anything
+ * else is returned as a conflict carrying the server's current copy. Changes
+ * go into a copy of the workspace that replaces the cached one only once it
+ * is on disk, so a failed write never hands out revisions that were not kept.
+ */
+function handlePush(id, body) {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) throw new HttpError(400, 'Expected a JSON object with a list of changes.');
+  const user = typeof body.user === 'string' && body.user.trim() ? body.user.trim().slice(0, 80) : 'Unknown';
+  const changes = Array.isArray(body.changes) ? body.changes : null;
+  if (!changes) throw new HttpError(400, 'Expected a list of changes.');
+  if (changes.length > MAX_CHANGES_PER_PUSH) throw new HttpError(413, `Push at most ${MAX_CHANGES_PER_PUSH} changes at a time.`);
+  changes.forEach(validateChange);
+
+  return withLock(id, async () => {
+    const saved = await loadWorkspace(id);
+    const workspace = { ...saved, records: { ...saved.records } };
+    const applied = [];
+    const conflicts = [];
+    for (const change of changes) {
+      const key = `${change.kind}:${change.id}`;
+      const current = workspace.records[key];
+      if (current && current.rev !== change.baseRev) {
+        conflicts.push(current);
+        continue;
+      }
+      workspace.seq += 1;
+      const record = {
+        kind: change.kind,
+        id: change.id,
+        data: change.data,
+        rev: workspace.seq,
+        updatedAt: typeof change.updatedAt === 'number' ? change.updatedAt : Date.now(),
+        updatedBy: user,
+      };
+      workspace.records[key] = record;
+      applied.push(record);
+    }
+    if (applied.length > 0) {
+      await saveWorkspace(workspace);
+      workspaces.set(id, workspace);
+    }
+    return { seq: workspace.seq, applied, conflicts };
+  });
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', chunk => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request body too large.'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch {
+        reject(new HttpError(400, 'Request body is not valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+// Without a configured list, only the app served from this machine may call the server.
+const isAllowedOrigin = origin => {
+  if (ALLOWED_ORIGINS.length > 0) return ALLOWED_ORIGINS.includes(origin);
+  try {
+    return LOOPBACK_HOSTS.has(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+};
+
+function send(res, status, payload) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(payload === undefined ? '' : JSON.stringify(payload));
+}
+
+async function route(req, res) {
+  const url = new URL(req.url || '/', 'http://localhost');
+  // Browsers always send Origin on cross-origin requests; other clients are left to the token.
+  const origin = req.headers.origin;
+  res.setHeader('Vary', 'Origin');
+  if (origin) {
+    if (!isAllowedOrigin(origin)) throw new HttpError(403, `Origin ${origin} is not allowed to use this sync server.`);
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  }
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (url.pathname === '/health') return send(res, 200, { ok: true });
+
+  if (TOKEN && req.headers.authorization !== `Bearer ${TOKEN}`) {
+    throw new HttpError(401, 'Missing or wrong sync token.');
+  }
+
+  const match = url.pathname.match(/^\/api\/workspaces\/([^/]+)\/changes$/);
+  if (!match) throw new HttpError(404, 'Not found.');
+  const id = decodeURIComponent(match[1]);
+  if (!WORKSPACE_PATTERN.test(id)) throw new HttpError(400, 'Workspace ids may use letters, numbers, "-" and "_" (up to 64).');
+
+  if (req.method === 'GET') {
+    const since = Number(url.searchParams.get('since')) || 0;
+    return send(res, 200, await handlePull(id, since));
+  }
+  if (req.method === 'POST') {
+    return send(res, 200, await handlePush(id, await readBody(req)));
+  }
+  throw new HttpError(405, 'Method not allowed.');
+}
+
+const server = http.createServer((req, res) => {
+  route(req, res).catch(error => {
+    if (error instanceof HttpError) return send(res, error.status, { error: error.message });
+    console.error('Sync Server Error:', error);
+    send(res, 500, { error: 'Internal server error.' });
+  });
+});
+
+if (!LOOPBACK_HOSTS.has(HOST) && !TOKEN && ALLOWED_ORIGINS.length === 0) {
+  console.error(`Refusing to listen on ${HOST} without SYNC_TOKEN or SYNC_ALLOWED_ORIGINS: anyone on the network could read and overwrite the workspace.`);
+  process.exit(1);
+}
+
+server.listen(PORT, HOST, () => {
+  console.log(`Sync server listening on http://${HOST}:${PORT} (data in ${DATA_DIR}${TOKEN ? ', token required' : ''})`);
+});
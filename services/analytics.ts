@@ -0,0 +1,164 @@
+import { PipelineStage, SavedScript } from "../types";
+import { getStage, getStageHistory } from "./pipeline";
+
+export type AnalyticsDimension = 'tone' | 'goal' | 'platform' | 'voice' | 'template';
+
+export interface GroupStat {
+  key: string;
+  sent: number;
+  replied: number;
+  rate: number;
+  // 95% Wilson score interval for the reply rate.
+  low: number;
+  high: number;
+  // Two-proportion z-test against every other group combined.
+  pValue: number | null;
+  weak: boolean;
+  weakReason?: string;
+}
+
+export interface TrendPoint {
+  weekStart: number;
+  sent: number;
+  replied: number;
+  rate: number;
+}
+
+// Below this many sent notes a rate is too noisy to compare.
+export const MIN_SAMPLE = 10;
+
+const REPLY_STAGES: PipelineStage[] = ['replied', 'call_booked', 'closed'];
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const Z_95 = 1.96;
+
+export function wasSent(script: SavedScript): boolean {
+  return getStage(script) !== 'drafted' || getStageHistory(script).some(c => c.stage !== 'drafted');
+}
+
+export function gotReply(script: SavedScript): boolean {
+  return getStageHistory(script).some(c => REPLY_STAGES.includes(c.stage)) || REPLY_STAGES.includes(getStage(script));
+}
+
+/** Timestamp the note went out: the first non-draft stage change. */
+export function sentAt(script: SavedScript): number {
+  const firstMove = getStageHistory(script).find(c => c.stage !== 'drafted');
+  return firstMove ? firstMove.changedAt : script.createdAt;
+}
+
+export function dimensionValue(script: SavedScript, dimension: AnalyticsDimension): string {
+  switch (dimension) {
+    case 'tone': return script.tone || 'Unknown';
+    case 'goal': return script.goal || 'Unknown';
+    case 'platform': return script.platform || 'Unknown';
+    case 'voice': return script.voice || 'Unknown';
+    case 'template': return script.templateName || 'Default AI';
+  }
+}
+
+export function wilsonInterval(successes: number, total: number): { low: number; high: number } {
+  if (total === 0) return { low: 0, high: 0 };
+  const p = successes / total;
+  const denom = 1 + (Z_95 * Z_95) / total;
+  const centre = p + (Z_95 * Z_95) / (2 * total);
+  const margin = Z_95 * Math.sqrt((p * (1 - p)) / total + (Z_95 * Z_95) / (4 * total * total));
+  return { low: Math.max(0, (centre - margin) / denom), high: Math.min(1, (centre + margin) / denom) };
+}
+
+// Abramowitz & Stegun 7.1.26 approximation of the standard normal CDF.
+const normalCdf = (z: number): number => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+export function twoProportionPValue(x1: number, n1: number, x2: number, n2: number): number | null {
+  if (n1 === 0 || n2 === 0) return null;
+  const pooled = (x1 + x2) / (n1 + n2);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+  if (se === 0) return 1;
+  const z = (x1 / n1 - x2 / n2) / se;
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+// Joins the values of a combination, e.g. "Casual · Instagram".
+export const COMBINATION_SEPARATOR = ' · ';
+
+/**
+ * Reply rates per value of one dimension, or per combination of values when
+ * several are given, considering only notes that were actually sent. Groups
+ * are flagged weak when the sample is small or the difference from the rest
+ * of the library is not significant at p < 0.05.
+ */
+export function groupStats(scripts: SavedScript[], dimensions: AnalyticsDimension[]): GroupStat[] {
+  const sent = scripts.filter(wasSent);
+  const totalReplied = sent.filter(gotReply).length;
+  const groups = new Map<string, SavedScript[]>();
+  sent.forEach(s => {
+    const key = dimensions.map(d => dimensionValue(s, d)).join(COMBINATION_SEPARATOR);
+    groups.set(key, [...(groups.get(key) || []), s]);
+  });
+
+  return [...groups.entries()]
+    .map(([key, members]) => {
+      const replied = members.filter(gotReply).length;
+      const { low, high } = wilsonInterval(replied, members.length);
+      const pValue = twoProportionPValue(replied, members.length, totalReplied - replied, sent.length - members.length);
+      let weakReason: string | undefined;
+      if (members.length < MIN_SAMPLE) weakReason = `Only ${members.length} sent (need ${MIN_SAMPLE}+)`;
+      else if (pValue === null) weakReason = 'Nothing to compare against';
+      else if (pValue >= 0.05) weakReason = `Not significant vs. rest (p=${pValue.toFixed(2)})`;
+      return {
+        key,
+        sent: members.length,
+        replied,
+        rate: members.length ? replied / members.length : 0,
+        low,
+        high,
+        pValue,
+        weak: !!weakReason,
+        weakReason,
+      };
+    })
+    .sort((a, b) => b.rate - a.rate || b.sent - a.sent);
+}
+
+const startOfWeek = (ts: number): number => {
+  const d = new Date(ts);
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return d.getTime();
+};
+
+export function weeklyTrend(scripts: SavedScript[], weeks: number = 12, now: number = Date.now()): TrendPoint[] {
+  const lastWeek = startOfWeek(now);
+  const points: TrendPoint[] = Array.from({ length: weeks }, (_, idx) => ({
+    weekStart: lastWeek - (weeks - 1 - idx) * WEEK_MS,
+    sent: 0,
+    replied: 0,
+    rate: 0,
+  }));
+  scripts.filter(wasSent).forEach(s => {
+    const week = startOfWeek(sentAt(s));
+    const point = points.find(p => Math.abs(p.weekStart - week) < WEEK_MS / 2);
+    if (!point) return;
+    point.sent++;
+    if (gotReply(s)) point.replied++;
+  });
+  points.forEach(p => { p.rate = p.sent ? p.replied / p.sent : 0; });
+  return points;
+}
+
+export function overallStats(scripts: SavedScript[]) {
+  const sent = scripts.filter(wasSent);
+  const replied = sent.filter(gotReply).length;
+  const booked = sent.filter(s => getStageHistory(s).some(c => c.stage === 'call_booked' || c.stage === 'closed')).length;
+  return {
+    total: scripts.length,
+    sent: sent.length,
+    replied,
+    booked,
+    replyRate: sent.length ? replied / sent.length : 0,
+    bookRate: sent.length ? booked / sent.length : 0,
+  };
+}
@@ -0,0 +1,81 @@
+import { decodeBase64 } from "./geminiService";
+
+export type AudioExportFormat = 'wav' | 'mp3';
+
+// Gemini TTS returns headerless 16-bit little-endian mono PCM at 24 kHz.
+export const TTS_SAMPLE_RATE = 24000;
+export const TTS_CHANNELS = 1;
+
+const writeString = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+};
+
+/**
+ * Wraps raw 16-bit PCM bytes in a canonical 44-byte RIFF/WAVE header.
+ */
+export function encodeWav(pcm: Uint8Array, sampleRate: number = TTS_SAMPLE_RATE, numChannels: number = TTS_CHANNELS): Blob {
+  const bitsPerSample = 16;
+  const blockAlign = numChannels * (bitsPerSample / 8);
+  const byteRate = sampleRate * blockAlign;
+  // PCM data must hold whole frames; drop a trailing partial sample if present.
+  const dataLength = pcm.byteLength - (pcm.byteLength % blockAlign);
+
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, byteRate, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitsPerSample, true);
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  return new Blob([header, pcm.slice(0, dataLength)], { type: 'audio/wav' });
+}
+
+/**
+ * Encodes mono 16-bit PCM to MP3. The encoder is loaded on demand so it only
+ * costs bandwidth when someone actually exports a compressed file.
+ */
+export async function encodeMp3(pcm: Uint8Array, sampleRate: number = TTS_SAMPLE_RATE, kbps: number = 96): Promise<Blob> {
+  const { Mp3Encoder } = await import('@breezystack/lamejs');
+  const samples = new Int16Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.byteLength / 2));
+  const encoder = new Mp3Encoder(1, sampleRate, kbps);
+  const chunks: BlobPart[] = [];
+  const frameSize = 1152;
+
+  for (let i = 0; i < samples.length; i += frameSize) {
+    const encoded = encoder.encodeBuffer(samples.subarray(i, i + frameSize));
+    if (encoded.length > 0) chunks.push(new Uint8Array(encoded));
+  }
+  const tail = encoder.flush();
+  if (tail.length > 0) chunks.push(new Uint8Array(tail));
+
+  return new Blob(chunks, { type: 'audio/mpeg' });
+}
+
+export async function encodeSpeech(base64Audio: string, format: AudioExportFormat): Promise<Blob> {
+  const pcm = decodeBase64(base64Audio);
+  return format === 'mp3' ? encodeMp3(pcm) : encodeWav(pcm);
+}
+
+const slugify = (value: string): string =>
+  value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+export function buildAudioFilename(ownerName: string, businessName: string, format: AudioExportFormat): string {
+  const base = [slugify(ownerName), slugify(businessName)].filter(Boolean).join('-') || 'voice-note';
+  return `${base}-voice-note.${format}`;
+}
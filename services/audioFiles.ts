@@ -0,0 +1,117 @@
+import { encodeWav } from "./audioExport";
+import { bytesToBase64 } from "./providers/pcm";
+import { formatSeconds } from "./scriptUtils";
+
+export const AUDIO_UPLOAD_TYPES = '.m4a,.mp3,.wav,.ogg,.oga,.opus,.webm,audio/*';
+export const MAX_AUDIO_FILE_BYTES = 25 * 1024 * 1024;
+export const MAX_AUDIO_SECONDS = 15 * 60;
+// Longer files are split into parts of this length and transcribed one by one.
+export const CHUNK_SECONDS = 120;
+// Speech needs no more than this; it keeps decoded files and WAV chunks small.
+const CHUNK_SAMPLE_RATE = 16000;
+// Formats every provider accepts as-is; the OpenAI-compatible one only takes wav and mp3.
+const PASSTHROUGH_TYPES = ['audio/wav', 'audio/mpeg'];
+// Short files above this are re-encoded anyway, so one request stays well inside inline upload limits.
+const MAX_PASSTHROUGH_BYTES = 4 * 1024 * 1024;
+
+export interface AudioChunk {
+  // Base64 without the data: prefix.
+  data: string;
+  mimeType: string;
+  startSeconds: number;
+  endSeconds: number;
+}
+
+const EXTENSION_MIME: Record<string, string> = {
+  m4a: 'audio/mp4',
+  mp4: 'audio/mp4',
+  aac: 'audio/aac',
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/ogg',
+  webm: 'audio/webm',
+};
+
+/** "audio/webm;codecs=opus" -> "audio/webm" */
+export const baseMimeType = (mimeType: string) => mimeType.split(';')[0].trim().toLowerCase();
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+/** Identifies the container from the file's first bytes, or null when unknown. */
+export function sniffAudioMime(bytes: Uint8Array): string | null {
+  if (bytes.length < 12) return null;
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WAVE') return 'audio/wav';
+  if (ascii(bytes, 0, 4) === 'OggS') return 'audio/ogg';
+  if (ascii(bytes, 4, 4) === 'ftyp') return 'audio/mp4';
+  if (ascii(bytes, 0, 3) === 'ID3' || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0 && (bytes[1] & 0x06) !== 0)) return 'audio/mpeg';
+  if (bytes[0] === 0xff && (bytes[1] & 0xf6) === 0xf0) return 'audio/aac';
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return 'audio/webm';
+  return null;
+}
+
+/**
+ * MIME type from the file contents, then the extension, then what the browser
+ * reported. Browsers often report m4a as "audio/x-m4a" or nothing at all.
+ */
+export function detectAudioMime(fileName: string, reportedType: string, bytes: Uint8Array): string | null {
+  const sniffed = sniffAudioMime(bytes);
+  if (sniffed) return sniffed;
+  const extension = fileName.split('.').pop()?.toLowerCase() || '';
+  if (EXTENSION_MIME[extension]) return EXTENSION_MIME[extension];
+  const reported = baseMimeType(reportedType);
+  return reported.startsWith('audio/') ? reported : null;
+}
+
+const toMonoPcm = (buffer: AudioBuffer, startFrame: number, endFrame: number): Uint8Array => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, idx) => buffer.getChannelData(idx));
+  const samples = new Int16Array(endFrame - startFrame);
+  for (let i = 0; i < samples.length; i++) {
+    let sum = 0;
+    for (const channel of channels) sum += channel[startFrame + i];
+    const value = Math.max(-1, Math.min(1, sum / channels.length));
+    samples[i] = Math.round(value * 32767);
+  }
+  return new Uint8Array(samples.buffer);
+};
+
+/**
+ * Checks an uploaded memo against the size and duration limits and returns it
+ * ready to send. Short, small wav or mp3 files go as-is; anything else is
+ * re-encoded as 16 kHz mono WAV, split into CHUNK_SECONDS parts.
+ */
+export async function prepareAudioFile(file: File): Promise<AudioChunk[]> {
+  if (file.size > MAX_AUDIO_FILE_BYTES) {
+    throw new Error(`${file.name} is ${(file.size / 1024 / 1024).toFixed(1)} MB. The limit is ${MAX_AUDIO_FILE_BYTES / 1024 / 1024} MB.`);
+  }
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const mimeType = detectAudioMime(file.name, file.type, bytes);
+  if (!mimeType) throw new Error(`${file.name} is not a supported audio file. Use m4a, mp3, wav or ogg.`);
+
+  let buffer: AudioBuffer;
+  try {
+    // decodeAudioData resamples to the context's rate, which keeps long files small in memory.
+    buffer = await new OfflineAudioContext(1, 1, CHUNK_SAMPLE_RATE).decodeAudioData(bytes.slice().buffer);
+  } catch (error) {
+    console.error("Audio Decode Error:", error);
+    throw new Error(`Could not read ${file.name}. The file may be damaged or in a format this browser cannot play.`);
+  }
+
+  if (buffer.duration > MAX_AUDIO_SECONDS) {
+    throw new Error(`${file.name} is ${formatSeconds(buffer.duration)} long. The limit is ${MAX_AUDIO_SECONDS / 60} minutes.`);
+  }
+  if (buffer.duration <= CHUNK_SECONDS && PASSTHROUGH_TYPES.includes(mimeType) && file.size <= MAX_PASSTHROUGH_BYTES) {
+    return [{ data: bytesToBase64(bytes), mimeType, startSeconds: 0, endSeconds: buffer.duration }];
+  }
+
+  const chunks: AudioChunk[] = [];
+  for (let start = 0; start < buffer.duration; start += CHUNK_SECONDS) {
+    const end = Math.min(buffer.duration, start + CHUNK_SECONDS);
+    const pcm = toMonoPcm(buffer, Math.floor(start * buffer.sampleRate), Math.floor(end * buffer.sampleRate));
+    const wav = new Uint8Array(await encodeWav(pcm, buffer.sampleRate, 1).arrayBuffer());
+    chunks.push({ data: bytesToBase64(wav), mimeType: 'audio/wav', startSeconds: start, endSeconds: end });
+  }
+  return chunks;
+}
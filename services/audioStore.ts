@@ -0,0 +1,68 @@
+import { VoiceOption } from "../types";
+
+const DB_NAME = 'voice_note_audio';
+const STORE_NAME = 'audio';
+const DB_VERSION = 1;
+
+export interface StoredAudio {
+  scriptId: string;
+  // Base64 encoded 16-bit mono PCM at 24 kHz, as returned by generateSpeech.
+  audio: string;
+  voice: VoiceOption;
+  tone: string;
+  createdAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'scriptId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error || new Error("Could not open the audio cache."));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = action(tx.objectStore(STORE_NAME));
+    // Resolve on commit, so a write that aborts later (e.g. over quota) is reported.
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error || request.error);
+    tx.onabort = () => reject(tx.error || request.error || new Error("The audio cache write was aborted."));
+  });
+};
+
+export async function getStoredAudio(scriptId: string): Promise<StoredAudio | null> {
+  const record = await runRequest<StoredAudio | undefined>('readonly', store => store.get(scriptId));
+  return record ?? null;
+}
+
+export async function putStoredAudio(record: StoredAudio): Promise<void> {
+  await runRequest('readwrite', store => store.put(record));
+}
+
+export async function deleteStoredAudio(scriptId: string): Promise<void> {
+  await runRequest('readwrite', store => store.delete(scriptId));
+}
+
+export async function listStoredAudio(): Promise<StoredAudio[]> {
+  return runRequest<StoredAudio[]>('readonly', store => store.getAll());
+}
+
+export async function clearStoredAudio(): Promise<void> {
+  await runRequest('readwrite', store => store.clear());
+}
@@ -0,0 +1,58 @@
+import { BatchItem, VoiceNoteInput, VoiceNoteResult } from "../types";
+
+export interface BatchQueueOptions {
+  concurrency: number;
+  maxRetries: number;
+  retryDelayMs?: number;
+  signal?: AbortSignal;
+  onUpdate: (item: BatchItem) => void;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs a worker over every queued item with at most `concurrency` requests in
+ * flight. Failed items are retried with linear backoff up to `maxRetries`
+ * times before being marked as failed. Each state change is reported through
+ * `onUpdate` so the UI can render per-row progress.
+ */
+export async function runBatchQueue(
+  items: BatchItem[],
+  worker: (input: VoiceNoteInput) => Promise<VoiceNoteResult>,
+  options: BatchQueueOptions
+): Promise<void> {
+  const { concurrency, maxRetries, retryDelayMs = 1500, signal, onUpdate } = options;
+  const pending = [...items];
+
+  const runNext = async (): Promise<void> => {
+    while (pending.length > 0) {
+      if (signal?.aborted) return;
+      let item = pending.shift()!;
+
+      for (let attempt = 1; attempt <= maxRetries + 1; attempt++) {
+        if (signal?.aborted) {
+          onUpdate({ ...item, status: 'queued' });
+          return;
+        }
+        item = { ...item, status: 'running', attempts: item.attempts + 1, error: undefined };
+        onUpdate(item);
+        try {
+          const result = await worker(item.input);
+          onUpdate({ ...item, status: 'done', result });
+          break;
+        } catch (error: any) {
+          const message = error?.message || 'Generation failed.';
+          if (attempt > maxRetries) {
+            onUpdate({ ...item, status: 'failed', error: message });
+          } else {
+            onUpdate({ ...item, status: 'queued', error: message });
+            await wait(retryDelayMs * attempt);
+          }
+        }
+      }
+    }
+  };
+
+  const lanes = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, runNext);
+  await Promise.all(lanes);
+}
@@ -0,0 +1,185 @@
+import { CsvColumnMapping, CsvField, VoiceNoteInput, BatchItem, ScriptLanguage } from "../types";
+import { PLATFORM_OPTIONS, TONE_OPTIONS, TONE_VOICE_MAP, LANGUAGE_OPTIONS, SCRIPT_LANGUAGES } from "../constants";
+import { renderScript } from "./scriptSections";
+import { getGoals } from "./goals";
+
+export interface ParsedCsv {
+  headers: string[];
+  rows: string[][];
+  // 1-based source line each row starts on, parallel to rows.
+  lines: number[];
+}
+
+export const CSV_FIELDS: { field: CsvField; label: string; required: boolean }[] = [
+  { field: 'ownerName', label: "Owner's Name", required: true },
+  { field: 'businessName', label: 'Business Name', required: true },
+  { field: 'identifiedGap', label: 'Gap Identified', required: true },
+  { field: 'freeValue', label: 'Free Value', required: true },
+  { field: 'platform', label: 'Platform', required: false },
+  { field: 'tone', label: 'Tone', required: false },
+  { field: 'goal', label: 'Goal', required: false },
+  { field: 'language', label: 'Language', required: false },
+];
+
+// Loose header aliases so typical spreadsheet exports map without manual work.
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+  ownerName: ['ownername', 'owner', 'name', 'firstname', 'contact', 'contactname'],
+  businessName: ['businessname', 'business', 'company', 'companyname', 'brand'],
+  identifiedGap: ['identifiedgap', 'gap', 'problem', 'issue', 'observation'],
+  freeValue: ['freevalue', 'value', 'offer', 'sidekick', 'freework'],
+  platform: ['platform', 'channel', 'network'],
+  tone: ['tone', 'style'],
+  goal: ['goal', 'cta', 'objective'],
+  language: ['language', 'lang', 'locale'],
+};
+
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z]/g, '');
+
+/**
+ * Parses RFC 4180 style CSV text. Handles quoted fields, escaped quotes ("")
+ * and newlines inside quotes. Blank lines are dropped; each row keeps the
+ * line it started on so errors can point back at the file.
+ */
+export function parseCSV(text: string): ParsedCsv {
+  const records: { cells: string[]; line: number }[] = [];
+  let field = '';
+  let record: string[] = [];
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+  const src = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < src.length; i++) {
+    const char = src[i];
+    if (inQuotes) {
+      if (char === '"') {
+        if (src[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n' || (char === '\r' && src[i + 1] !== '\n')) line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && src[i + 1] === '\n') i++;
+      record.push(field);
+      records.push({ cells: record, line: recordLine });
+      record = [];
+      field = '';
+      recordLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push({ cells: record, line: recordLine });
+  }
+
+  const nonEmpty = records.filter(r => r.cells.some(cell => cell.trim() !== ''));
+  const [headerRow, ...rows] = nonEmpty;
+  return {
+    headers: (headerRow?.cells || []).map(h => h.trim()),
+    rows: rows.map(r => r.cells),
+    lines: rows.map(r => r.line),
+  };
+}
+
+export function guessColumnMapping(headers: string[]): CsvColumnMapping {
+  const mapping = {} as CsvColumnMapping;
+  for (const { field } of CSV_FIELDS) {
+    const match = headers.find(h => HEADER_ALIASES[field].includes(normalizeHeader(h)));
+    mapping[field] = match ?? null;
+  }
+  return mapping;
+}
+
+export function getMissingRequiredFields(mapping: CsvColumnMapping): CsvField[] {
+  return CSV_FIELDS.filter(f => f.required && !mapping[f.field]).map(f => f.field);
+}
+
+const matchOption = <T extends string>(raw: string, options: T[]): T | undefined => {
+  const needle = raw.trim().toLowerCase();
+  if (!needle) return undefined;
+  return options.find(o => o.toLowerCase() === needle || o.toLowerCase().startsWith(needle));
+};
+
+// Accepts "es", "es-MX", "Spanish" or "Español".
+const matchLanguage = (raw: string): ScriptLanguage | undefined => {
+  const needle = raw.trim().toLowerCase();
+  if (!needle) return undefined;
+  return LANGUAGE_OPTIONS.find(id =>
+    needle === id || needle.startsWith(`${id}-`) || needle.startsWith(`${id}_`)
+    || SCRIPT_LANGUAGES[id].label.toLowerCase().startsWith(needle) || SCRIPT_LANGUAGES[id].nativeName.toLowerCase() === needle
+  );
+};
+
+/**
+ * Turns parsed CSV rows into generator inputs. Optional columns that are
+ * missing or unrecognised fall back to the supplied defaults. Goals match
+ * built-in and custom goal names.
+ */
+export function buildLeadInputs(
+  csv: ParsedCsv,
+  mapping: CsvColumnMapping,
+  defaults: Pick<VoiceNoteInput, 'platform' | 'tone' | 'goal' | 'language'>
+): VoiceNoteInput[] {
+  const indexOf = (field: CsvField) => (mapping[field] ? csv.headers.indexOf(mapping[field]!) : -1);
+  const cell = (row: string[], field: CsvField) => {
+    const idx = indexOf(field);
+    return idx >= 0 ? (row[idx] || '').trim() : '';
+  };
+
+  const goalNames = getGoals().map(g => g.name);
+  return csv.rows.map(row => {
+    const tone = matchOption(cell(row, 'tone'), TONE_OPTIONS) || defaults.tone;
+    return {
+      ownerName: cell(row, 'ownerName'),
+      businessName: cell(row, 'businessName'),
+      identifiedGap: cell(row, 'identifiedGap'),
+      freeValue: cell(row, 'freeValue'),
+      platform: matchOption(cell(row, 'platform'), PLATFORM_OPTIONS) || defaults.platform,
+      tone,
+      goal: matchOption(cell(row, 'goal'), goalNames) || defaults.goal,
+      language: matchLanguage(cell(row, 'language')) || defaults.language,
+      selectedVoice: TONE_VOICE_MAP[tone],
+    };
+  });
+}
+
+const escapeCell = (value: string): string => {
+  if (/[",\r\n]/.test(value)) return `"${value.replace(/"/g, '""')}"`;
+  return value;
+};
+
+export function toCSV(headers: string[], rows: string[][]): string {
+  return [headers, ...rows].map(r => r.map(escapeCell).join(',')).join('\r\n');
+}
+
+export function batchResultsToCSV(items: BatchItem[]): string {
+  const headers = ['ownerName', 'businessName', 'platform', 'tone', 'goal', 'language', 'status', 'script', 'followUp', 'error'];
+  const rows = items.map(item => [
+    item.input.ownerName,
+    item.input.businessName,
+    item.input.platform,
+    item.input.tone,
+    item.input.goal,
+    item.input.language || 'en',
+    item.status,
+    item.result ? renderScript(item.result.sections) : '',
+    item.result?.followUp || '',
+    item.error || '',
+  ]);
+  return toCSV(headers, rows);
+}
@@ -1,6 +1,17 @@
 
-import { GoogleGenAI, Type, Modality, GenerateContentResponse } from "@google/genai";
-import { VoiceNoteInput, VoiceNoteResult, CustomTemplate, SavedScript, VoiceOption } from "../types";
+import { VoiceNoteInput, VoiceNoteResult, CustomTemplate, SavedScript, StyleProfile, LeadResearch, ResearchSourceType, AudioResearch, ResearchField, ScriptLanguage, VoiceOption, ScriptVariant, VariantSpread, DeliveryAnalysis, SectionDeliveryStatus, ScriptSection, SequenceStep, SequenceChannel, ReplyIntent, ReplyAnalysis } from "../types";
+import { countFillerWords, formatSeconds, wordsPerMinute } from "./scriptUtils";
+import { formatMarker, getRoleLabel, normalizeSections } from "./scriptSections";
+import { getProvider, JsonSchema } from "./providers";
+import { fillTemplate, getRequiredSlots } from "./templateVariables";
+import { LearnedStyle, exemplarText, formatStyleProfile } from "./styleProfiles";
+import { RESEARCH_SOURCE_LABELS, quoteFound } from "./leadResearch";
+import { AudioChunk } from "./audioFiles";
+import { formatPlatformProfile } from "./platformProfiles";
+import { formatGoal } from "./goals";
+import { writableSteps } from "./sequences";
+import { formatThread, getThread, isReplyIntent } from "./replies";
+import { REPLY_INTENTS, SCRIPT_LANGUAGES, SCRIPT_SECTION_ROLES, SEQUENCE_STEP_LABELS } from "../constants";
 
 /**
  * Sanitizes input strings to prevent malformed payloads or prompt interference.
@@ -10,13 +21,13 @@ const sanitize = (val: string): string => {
 };
 
 const SYSTEM_INSTRUCTION = `
-You are a Voice Note Script Specialist. Your goal is to transform business research into a high-converting voice note script (35-50s) and a micro-text follow-up.
+You are a Voice Note Script Specialist. Your goal is to transform business research into a high-converting voice note script and a micro-text follow-up, both fitted to the PLATFORM rules in the prompt.
 
 Core Framework:
 1. Pattern Interrupt: Immediate name use + specific detail proving research.
 2. The Observation: Politely point out a "leaky hole" or gap.
 3. The Work Done: Mention the specific value you already created.
-4. The CTA (Goal-driven): Based on the user's selected goal.
+4. The CTA (Goal-driven): Follow the GOAL block: its CTA instructions, example asks and target length.
 
 Tone Guidelines:
 - "Casual": Peer-to-peer, energetic, informal.
@@ -24,9 +35,36 @@ Tone Guidelines:
 - "Direct": Efficiency-focused, no fluff.
 - "Warm": Friendly, helpful, empathetic.
 
+Language:
+- Write the sections and the follow-up in the Language given in the CONTEXT, as a native speaker would say them.
+- Templates and style examples may be in English; follow their structure, not their wording.
+
+Return the script as 'sections', one per framework step in order, each with its role,
+target startSeconds/endSeconds within the note, and the spoken text (no markers in the text).
+
 Output strictly in valid JSON format.
 `;
 
+const SECTIONS_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      role: { type: 'string', enum: SCRIPT_SECTION_ROLES.map(r => r.id) },
+      startSeconds: { type: 'integer' },
+      endSeconds: { type: 'integer' },
+      text: { type: 'string' }
+    },
+    required: ["role", "startSeconds", "endSeconds", "text"]
+  }
+};
+
+const toSections = (raw: unknown): ScriptSection[] => {
+  const sections = normalizeSections(Array.isArray(raw) ? raw : []);
+  if (sections.length === 0) throw new Error("No script sections returned");
+  return sections;
+};
+
 /**
  * Extracts JSON from model response text, handling potential Markdown code blocks.
  */
@@ -40,66 +78,217 @@ const parseSafeJSON = (text: string) => {
   }
 };
 
-export async function processAudioResearch(base64Audio: string, mimeType: string): Promise<Partial<VoiceNoteInput>> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
+// Narrowing for model output, which is only as well-formed as the model made it.
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+const asString = (value: unknown): string => (typeof value === 'string' ? value : '');
+
+const RESEARCH_FIELDS: ResearchField[] = ['ownerName', 'businessName', 'identifiedGap', 'freeValue'];
+
+const RESEARCH_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    transcript: { type: 'string' },
+    ...Object.fromEntries(RESEARCH_FIELDS.map(field => [field, { type: 'string' }])),
+    sources: {
+      type: 'object',
+      properties: Object.fromEntries(RESEARCH_FIELDS.map(field => [field, { type: 'string' }]))
+    }
+  }
+};
+
+const RESEARCH_TASK = `
+    Extract the research details: ownerName, businessName, identifiedGap, freeValue.
+    In 'sources', give for each field the exact words from the transcript it was taken from (empty if it was not mentioned).
+`;
+
+/**
+ * Transcribes one part of a long memo. Parts are transcribed separately and
+ * joined, so each stays within the provider's inline audio limit.
+ */
+async function transcribeChunk(chunk: AudioChunk, index: number, total: number): Promise<string> {
+  const text = await getProvider().generateStructured({
+    task: 'audioTranscript',
+    prompt: `
+    This is part ${index + 1} of ${total} of a voice memo (${formatSeconds(chunk.startSeconds)} to ${formatSeconds(chunk.endSeconds)}).
+    Return 'transcript': a verbatim transcript of this part. It may start or end mid-sentence.
+  `,
+    audio: { data: chunk.data, mimeType: chunk.mimeType },
+    schema: { type: 'object', properties: { transcript: { type: 'string' } }, required: ["transcript"] },
+    temperature: 0.1,
+  });
+  return asString(asRecord(parseSafeJSON(text)).transcript).trim();
+}
+
+/**
+ * Extracts lead details from a research memo and returns them with the
+ * transcript. A single part is handled in one request; longer memos are
+ * transcribed part by part first, then the details are read from the text.
+ */
+export async function processAudioResearch(chunks: AudioChunk[], onProgress?: (done: number, total: number) => void): Promise<AudioResearch> {
+  if (chunks.length === 0) throw new Error("No audio to process.");
+
+  try {
+    let result: Record<string, unknown>;
+    let transcript: string;
+    if (chunks.length === 1) {
+      const text = await getProvider().generateStructured({
+        task: 'audioResearch',
+        prompt: `
+    Listen to this voice note.
+    Return 'transcript': a verbatim transcript.
+    ${RESEARCH_TASK}
+  `,
+        audio: { data: chunks[0].data, mimeType: chunks[0].mimeType },
+        schema: RESEARCH_SCHEMA,
+        temperature: 0.1, // Low temperature for high extraction accuracy
+      });
+      result = asRecord(parseSafeJSON(text));
+      transcript = asString(result.transcript).trim();
+    } else {
+      const parts: string[] = [];
+      for (let i = 0; i < chunks.length; i++) {
+        onProgress?.(i, chunks.length);
+        parts.push(await transcribeChunk(chunks[i], i, chunks.length));
+      }
+      onProgress?.(chunks.length, chunks.length);
+      transcript = parts.filter(Boolean).join('\n\n');
+      const text = await getProvider().generateStructured({
+        task: 'audioResearch',
+        prompt: `
+    This is the transcript of a voice memo.
+
+    TRANSCRIPT:
+${transcript}
+    ${RESEARCH_TASK}
+  `,
+        schema: RESEARCH_SCHEMA,
+        temperature: 0.1,
+      });
+      result = asRecord(parseSafeJSON(text));
+    }
+
+    const fields: AudioResearch['fields'] = {};
+    const sources: AudioResearch['sources'] = {};
+    const resultSources = asRecord(result.sources);
+    for (const field of RESEARCH_FIELDS) {
+      const value = sanitize(asString(result[field]));
+      if (value) fields[field] = value;
+      const source = sanitize(asString(resultSources[field]));
+      if (source && quoteFound(transcript, source)) sources[field] = source;
+    }
+    return { transcript, fields, sources };
+  } catch (error) {
+    console.error("Audio Processing Error:", error);
+    throw new Error("Unable to parse the audio research. Please speak more clearly or fill fields manually.");
+  }
+}
+
+/**
+ * Pulls lead details out of pasted website, Instagram or LinkedIn text. Pass
+ * the output of prepareSource. Evidence quotes are checked against the source
+ * so made-up quotes can be flagged before they reach the form.
+ */
+export async function researchLead(rawSource: string, sourceType: ResearchSourceType): Promise<LeadResearch> {
+  // Pasted text must not be able to close the SOURCE block and add instructions after it.
+  const sourceText = rawSource.replace(/SOURCE\s+(START|END)/gi, '');
+  if (!sourceText.trim()) throw new Error("Paste some website or profile text first.");
+
   const prompt = `
-    Listen to this voice note and extract the research details.
-    Return JSON with: ownerName, businessName, identifiedGap, freeValue.
+    This is text copied from a business's ${RESEARCH_SOURCE_LABELS[sourceType]}.
+
+    SOURCE START
+${sourceText}
+    SOURCE END
+
+    TASK:
+    1. 'ownerName': the owner's or founder's first name, empty if the source does not say.
+    2. 'businessName': the business name.
+    3. 'gaps': up to 4 specific weaknesses a freelancer could fix (unclear offer, no booking link, weak call to action, missing reviews, etc.).
+       Each has the 'gap' in one sentence and 'evidence': a short exact quote from the SOURCE that shows it.
+    4. 'valueIdeas': up to 4 small pieces of free work that would fix one of the gaps, each one sentence.
   `;
 
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      // Corrected multi-modal contents structure to use a single Content object with parts
-      contents: {
-        parts: [
-          { inlineData: { data: base64Audio, mimeType } },
-          { text: prompt }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            ownerName: { type: Type.STRING },
-            businessName: { type: Type.STRING },
-            identifiedGap: { type: Type.STRING },
-            freeValue: { type: Type.STRING }
-          }
+    const text = await getProvider().generateStructured({
+      task: 'leadResearch',
+      prompt,
+      schema: {
+        type: 'object',
+        properties: {
+          ownerName: { type: 'string' },
+          businessName: { type: 'string' },
+          gaps: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                gap: { type: 'string' },
+                evidence: { type: 'string' }
+              },
+              required: ["gap", "evidence"]
+            }
+          },
+          valueIdeas: { type: 'array', items: { type: 'string' } }
         },
-        temperature: 0.1, // Low temperature for high extraction accuracy
-      }
+        required: ["ownerName", "businessName", "gaps", "valueIdeas"]
+      },
+      temperature: 0.2,
     });
 
-    const result = parseSafeJSON(response.text || '{}');
+    const result = parseSafeJSON(text);
+    const gaps: unknown[] = Array.isArray(result.gaps) ? result.gaps : [];
+    const ideas: unknown[] = Array.isArray(result.valueIdeas) ? result.valueIdeas : [];
     return {
       ownerName: sanitize(result.ownerName || ''),
       businessName: sanitize(result.businessName || ''),
-      identifiedGap: sanitize(result.identifiedGap || ''),
-      freeValue: sanitize(result.freeValue || '')
+      gaps: gaps
+        .map(asRecord)
+        .filter(g => asString(g.gap).trim())
+        .map(g => {
+          const evidence = sanitize(asString(g.evidence));
+          return { gap: sanitize(asString(g.gap)), evidence, verified: quoteFound(sourceText, evidence) };
+        }),
+      valueIdeas: ideas.map(idea => sanitize(String(idea))).filter(Boolean),
     };
   } catch (error) {
-    console.error("Audio Processing Error:", error);
-    throw new Error("Unable to parse the audio research. Please speak more clearly or fill fields manually.");
+    console.error("Lead Research Error:", error);
+    throw new Error("Could not extract lead details from that text. Please check it and try again.");
   }
 }
 
-export async function generateVoiceNote(input: VoiceNoteInput, activeTemplate?: CustomTemplate, referenceScript?: SavedScript): Promise<VoiceNoteResult> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
+/**
+ * Builds the shared CONTEXT / platform / goal / template / reference / style profile block used by every script prompt.
+ */
+const buildScriptContext = (input: VoiceNoteInput, activeTemplate?: CustomTemplate, referenceScript?: SavedScript, styleProfile?: StyleProfile): string => {
+  const safeInput: VoiceNoteInput = {
+    ...input,
+    ownerName: sanitize(input.ownerName),
+    businessName: sanitize(input.businessName),
+    identifiedGap: sanitize(input.identifiedGap),
+    freeValue: sanitize(input.freeValue),
+    variables: Object.fromEntries(Object.entries(input.variables || {}).map(([k, v]) => [k, sanitize(v)])),
+  };
+  const slots = activeTemplate ? getRequiredSlots(activeTemplate.content, safeInput) : [];
+  const slotSection = slots.length > 0
+    ? `\nREQUIRED SLOTS (the script must include every one of these):\n${slots.map(s => `- ${s.label}: ${s.value}`).join('\n')}`
+    : '';
   const templateSection = activeTemplate 
-    ? `\nCUSTOM TEMPLATE TO FOLLOW (Structure and Style):\n"${activeTemplate.content}"`
+    ? `\nCUSTOM TEMPLATE TO FOLLOW (Structure and Style):\n"${fillTemplate(activeTemplate.content, safeInput)}"${slotSection}`
     : `\nDEFAULT STYLE EXAMPLE:\n"Hey [Name], checked out [Business] and noticed [Gap]. Already mocked up [Value]. Mind if I send it over?"`;
 
   const referenceSection = referenceScript
     ? `\nSTYLE REFERENCE (Mirror this energy):\n"${referenceScript.content}"`
     : "";
 
-  const prompt = `
-    Generate a voice note script for ${input.platform}.
-    
+  const profileSection = styleProfile ? formatStyleProfile(styleProfile) : "";
+
+  const language = SCRIPT_LANGUAGES[input.language || 'en'];
+  const languageSection = input.language && input.language !== 'en'
+    ? `\nLANGUAGE: Write everything in ${language.label}, adapted to local norms rather than translated.\nOpener: ${language.opener}`
+    : "";
+
+  return `
     CONTEXT:
     - Owner: ${sanitize(input.ownerName)}
     - Business: ${sanitize(input.businessName)}
@@ -107,63 +296,595 @@ export async function generateVoiceNote(input: VoiceNoteInput, activeTemplate?:
     - Free Value: ${sanitize(input.freeValue)}
     - Tone: ${input.tone}
     - Goal: ${input.goal}
+    - Language: ${language.label}
 
+    ${formatPlatformProfile(input.platform)}
+    ${formatGoal(input.goal, input.platform)}
     ${templateSection}
     ${referenceSection}
+    ${profileSection}
+    ${languageSection}
+  `;
+};
 
+export async function generateVoiceNote(input: VoiceNoteInput, activeTemplate?: CustomTemplate, referenceScript?: SavedScript, styleProfile?: StyleProfile): Promise<VoiceNoteResult> {
+  const prompt = `
+    Generate a voice note script for ${input.platform}.
+    ${buildScriptContext(input, activeTemplate, referenceScript, styleProfile)}
     TASK:
-    1. Provide 'script' string with markers like [0-5s].
-    2. Provide 'followUp' string (1 sentence).
+    1. Provide 'sections': pattern_interrupt, observation, work_done, cta, with target seconds within the PLATFORM length, aiming for the GOAL target length.
+    2. Provide 'followUp' string (1 sentence, within the PLATFORM character limit).
   `;
 
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: prompt,
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            script: { type: Type.STRING },
-            followUp: { type: Type.STRING }
-          },
-          required: ["script", "followUp"]
+    const text = await getProvider().generateStructured({
+      task: 'voiceNote',
+      prompt,
+      systemInstruction: SYSTEM_INSTRUCTION,
+      schema: {
+        type: 'object',
+        properties: {
+          sections: SECTIONS_SCHEMA,
+          followUp: { type: 'string' }
         },
-        temperature: 0.7,
+        required: ["sections", "followUp"]
       },
+      temperature: 0.7,
     });
 
-    return parseSafeJSON(response.text || '{}') as VoiceNoteResult;
+    const parsed = parseSafeJSON(text);
+    return { sections: toSections(parsed.sections), followUp: parsed.followUp || '' };
   } catch (error) {
-    console.error("Gemini Generation Error:", error);
+    console.error("Script Generation Error:", error);
     throw new Error("The script generator encountered an error. Please check your internet connection and try again.");
   }
 }
 
-export async function generateSpeech(text: string, voice: VoiceOption, tone: string): Promise<string> {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const cleanText = text.replace(/\[.*?\]/g, '').trim();
-  const prompt = `Voice this script in a ${tone.toLowerCase()} tone: "${cleanText}"`;
+/**
+ * Rewrites only the sections at `indices`, following a free-form instruction
+ * ("make it shorter", "mention their Google reviews"). Every other section is
+ * passed as fixed context and returned untouched.
+ */
+export async function regenerateSections(
+  input: VoiceNoteInput,
+  sections: ScriptSection[],
+  indices: number[],
+  instruction: string,
+  activeTemplate?: CustomTemplate,
+  referenceScript?: SavedScript,
+  styleProfile?: StyleProfile
+): Promise<ScriptSection[]> {
+  const targets = indices.filter(idx => idx >= 0 && idx < sections.length);
+  if (targets.length === 0) return sections;
+
+  const prompt = `
+    Revise part of an existing voice note script for ${input.platform}.
+    ${buildScriptContext(input, activeTemplate, referenceScript, styleProfile)}
+    CURRENT SCRIPT:
+${sections.map((s, idx) => `    ${idx + 1}. ${targets.includes(idx) ? '>>' : '  '} ${formatMarker(s)} (${getRoleLabel(s.role)}) ${s.text}`).join('\n')}
+
+    INSTRUCTION: ${sanitize(instruction) || 'Rewrite it with a fresh angle.'}
+
+    TASK:
+    Rewrite only the sections marked '>>' (numbers: ${targets.map(idx => idx + 1).join(', ')}).
+    Keep each rewritten section in its role and time window, and make it flow with the unchanged sections around it.
+    Return 'sections' with one entry per rewritten section: 'index' (its number above) and the new 'text'.
+  `;
+
+  try {
+    const text = await getProvider().generateStructured({
+      task: 'regenerateSections',
+      prompt,
+      systemInstruction: SYSTEM_INSTRUCTION,
+      schema: {
+        type: 'object',
+        properties: {
+          sections: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                index: { type: 'integer' },
+                text: { type: 'string' }
+              },
+              required: ["index", "text"]
+            }
+          }
+        },
+        required: ["sections"]
+      },
+      temperature: 0.8,
+    });
+
+    const parsed = parseSafeJSON(text);
+    const rewrites: { index?: number; text?: string }[] = Array.isArray(parsed.sections) ? parsed.sections : [];
+    const byIndex = new Map<number, string>();
+    rewrites.forEach((r, pos) => {
+      const idx = typeof r.index === 'number' ? r.index - 1 : targets[pos];
+      if (targets.includes(idx) && typeof r.text === 'string' && r.text.trim()) byIndex.set(idx, r.text.trim());
+    });
+    if (byIndex.size === 0) throw new Error("No rewritten sections returned");
+
+    return sections.map((section, idx) => (byIndex.has(idx) ? { ...section, text: byIndex.get(idx)! } : section));
+  } catch (error) {
+    console.error("Section Regeneration Error:", error);
+    throw new Error("Could not rewrite the selected section. Please try again.");
+  }
+}
+
+const VARIANT_LABELS = ['A', 'B', 'C', 'D', 'E', 'F'];
+const TONE_ROTATION: VoiceNoteInput['tone'][] = ['Casual', 'Professional', 'Direct', 'Warm'];
+const OPENER_STYLES = ['Compliment on a specific detail', 'Curiosity question', 'Mutual context / how I found you', 'Bold observation'];
+
+/**
+ * Generates several distinct drafts in a single request. With a spread, each
+ * variant is pinned to a different tone or opener style so the drafts are
+ * meaningfully different rather than paraphrases of each other.
+ */
+export async function generateVoiceNoteVariants(
+  input: VoiceNoteInput,
+  count: number,
+  spread: VariantSpread,
+  activeTemplate?: CustomTemplate,
+  referenceScript?: SavedScript,
+  styleProfile?: StyleProfile
+): Promise<ScriptVariant[]> {
+  const total = Math.min(Math.max(count, 2), VARIANT_LABELS.length);
+  const plan = VARIANT_LABELS.slice(0, total).map((label, idx) => ({
+    label,
+    tone: spread === 'tones' ? TONE_ROTATION[(TONE_ROTATION.indexOf(input.tone) + idx) % TONE_ROTATION.length] : input.tone,
+    opener: spread === 'openers' ? OPENER_STYLES[idx % OPENER_STYLES.length] : 'Writer\'s choice',
+  }));
+
+  const prompt = `
+    Generate ${total} distinct voice note script variants for ${input.platform}.
+    ${buildScriptContext(input, activeTemplate, referenceScript, styleProfile)}
+    VARIANT PLAN:
+${plan.map(p => `    - ${p.label}: tone=${p.tone}; opener=${p.opener}`).join('\n')}
+
+    TASK:
+    Return 'variants', one entry per plan line in the same order. Each entry has:
+    1. 'label' matching the plan.
+    2. 'sections' (pattern_interrupt, observation, work_done, cta with target seconds within the PLATFORM length, aiming for the GOAL target length), following that variant's tone and opener.
+    3. 'followUp' string (1 sentence, within the PLATFORM character limit).
+    Variants must differ in wording and angle, not just synonyms.
+  `;
+
+  try {
+    const text = await getProvider().generateStructured({
+      task: 'voiceNoteVariants',
+      prompt,
+      systemInstruction: SYSTEM_INSTRUCTION,
+      schema: {
+        type: 'object',
+        properties: {
+          variants: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                label: { type: 'string' },
+                sections: SECTIONS_SCHEMA,
+                followUp: { type: 'string' }
+              },
+              required: ["label", "sections", "followUp"]
+            }
+          }
+        },
+        required: ["variants"]
+      },
+      temperature: 0.9,
+    });
+
+    const parsed = parseSafeJSON(text);
+    const variants: { label?: string; sections?: unknown; followUp?: string }[] = Array.isArray(parsed.variants) ? parsed.variants : [];
+    if (variants.length === 0) throw new Error("No variants returned");
+
+    return variants.slice(0, total).map((v, idx) => {
+      const planned = plan.find(p => p.label === v.label) || plan[idx];
+      return { label: planned.label, tone: planned.tone, opener: planned.opener, sections: toSections(v.sections), followUp: v.followUp || '' };
+    });
+  } catch (error) {
+    console.error("Variant Generation Error:", error);
+    throw new Error("The script generator could not produce variants. Please try again.");
+  }
+}
+
+/**
+ * Reads the recurring habits out of a set of exemplar scripts: how they open,
+ * slang, how the ask is phrased and how they sign off.
+ */
+export async function learnStyleProfile(exemplars: SavedScript[]): Promise<LearnedStyle> {
+  if (exemplars.length === 0) throw new Error("Pick at least one exemplar script to learn from.");
+
+  const prompt = `
+    These voice note scripts were all written by the same person and are examples of their best outreach.
+
+    EXEMPLARS:
+${exemplars.map((s, idx) => `    ${idx + 1}. "${sanitize(exemplarText(s))}"`).join('\n')}
+
+    TASK:
+    Describe the writing habits they share, so new scripts can be written the same way.
+    1. 'opener': how they typically open, as a short pattern with an example (e.g. "Hey [Name], quick one.").
+    2. 'slang': informal words and pet phrases they reuse (empty if none).
+    3. 'ctaPhrasing': how they phrase the ask.
+    4. 'signOff': how they close the note (empty if they end on the ask).
+  `;
+
+  try {
+    const text = await getProvider().generateStructured({
+      task: 'styleProfile',
+      prompt,
+      schema: {
+        type: 'object',
+        properties: {
+          opener: { type: 'string' },
+          slang: { type: 'array', items: { type: 'string' } },
+          ctaPhrasing: { type: 'string' },
+          signOff: { type: 'string' }
+        },
+        required: ["opener", "slang", "ctaPhrasing", "signOff"]
+      },
+      temperature: 0.2,
+    });
+
+    const result = parseSafeJSON(text);
+    return {
+      opener: sanitize(result.opener || ''),
+      slang: Array.isArray(result.slang) ? result.slang.map((w: unknown) => sanitize(String(w))).filter(Boolean) : [],
+      ctaPhrasing: sanitize(result.ctaPhrasing || ''),
+      signOff: sanitize(result.signOff || '')
+    };
+  } catch (error) {
+    console.error("Style Profile Error:", error);
+    throw new Error("Could not learn a style from these scripts. Please try again.");
+  }
+}
+
+/**
+ * Translates a script section by section. Roles and timing windows are kept,
+ * so the timing markers stay valid; only the spoken text changes.
+ */
+export async function translateScript(sections: ScriptSection[], language: ScriptLanguage, tone?: VoiceNoteInput['tone']): Promise<ScriptSection[]> {
+  const target = SCRIPT_LANGUAGES[language];
+  const prompt = `
+    Translate this voice note script into ${target.label}.
+
+    SCRIPT:
+${sections.map((s, idx) => `    ${idx + 1}. ${formatMarker(s)} (${getRoleLabel(s.role)}) ${s.text}`).join('\n')}
+
+    TASK:
+    Return 'sections' with one entry per numbered line: 'index' (its number above) and the translated 'text'.
+    Write it the way a native speaker would say it out loud${tone ? ` in a ${tone.toLowerCase()} tone` : ''}, adapting idioms instead of translating word for word.
+    Opener: ${target.opener}
+    Keep names, business names and numbers as they are, and keep each section about as long to say as the original.
+  `;
+
+  try {
+    const text = await getProvider().generateStructured({
+      task: 'translateScript',
+      prompt,
+      schema: {
+        type: 'object',
+        properties: {
+          sections: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                index: { type: 'integer' },
+                text: { type: 'string' }
+              },
+              required: ["index", "text"]
+            }
+          }
+        },
+        required: ["sections"]
+      },
+      temperature: 0.3,
+    });
+
+    const parsed = parseSafeJSON(text);
+    const returned: { index?: number; text?: string }[] = Array.isArray(parsed.sections) ? parsed.sections : [];
+    const byIndex = new Map<number, string>();
+    returned.forEach((r, pos) => {
+      const idx = typeof r.index === 'number' ? r.index - 1 : pos;
+      if (idx >= 0 && idx < sections.length && typeof r.text === 'string' && r.text.trim()) byIndex.set(idx, r.text.trim());
+    });
+    if (byIndex.size < sections.length) throw new Error("Some sections were not translated");
+
+    return sections.map((section, idx) => ({ ...section, text: byIndex.get(idx)! }));
+  } catch (error) {
+    console.error("Translation Error:", error);
+    throw new Error(`Could not translate this script into ${target.label}. Please try again.`);
+  }
+}
+
+/**
+ * Writes the messages of a follow-up sequence in one request, so each step
+ * can build on the ones before it. Sent steps and the opening voice note are
+ * passed as context and left untouched. Returns the content per step index.
+ */
+export async function generateSequence(script: SavedScript, steps: SequenceStep[]): Promise<string[]> {
+  const targets = writableSteps(steps);
+  if (targets.length === 0) return steps.map(s => s.content);
+
+  const platform = script.platform || 'Instagram';
+  const language = SCRIPT_LANGUAGES[script.language || 'en'];
+  const describe = (step: SequenceStep, idx: number) => {
+    const head = `Day ${step.delayDays} · ${SEQUENCE_STEP_LABELS[step.kind].label} · ${step.channel === 'voice_note' ? 'voice note' : 'text'}`;
+    return targets.includes(idx)
+      ? `    ${idx + 1}. >> ${head}: ${SEQUENCE_STEP_LABELS[step.kind].brief}`
+      : `    ${idx + 1}.    ${head}${step.sentAt ? ' (sent)' : ''}: "${sanitize(step.content)}"`;
+  };
+
+  const prompt = `
+    Write the follow-up messages of a multi-touch outreach sequence on ${platform}.
+
+    CONTEXT:
+    - Owner: ${sanitize(script.ownerName)}
+    - Business: ${sanitize(script.businessName)}
+    - Tone: ${script.tone || 'Casual'}
+    - Goal: ${script.goal || 'Permission to Send'}
+    - Language: ${language.label}
+    ${formatPlatformProfile(platform)}
+    ${formatGoal(script.goal || 'Permission to Send', platform)}
+    SEQUENCE:
+${steps.map(describe).join('\n')}
+
+    TASK:
+    Write every step marked '>>' (numbers: ${targets.map(idx => idx + 1).join(', ')}), in ${language.label}.
+    Each step builds on the earlier ones: refer back to what was already said without repeating it, and keep the GOAL's ask.
+    Text steps are 1-2 sentences within the PLATFORM follow-up character limit. Voice note steps are spoken, about 15 seconds.
+    Return 'steps' with one entry per written step: 'index' (its number above) and the 'content'.
+  `;
+
+  try {
+    const text = await getProvider().generateStructured({
+      task: 'sequence',
+      prompt,
+      schema: {
+        type: 'object',
+        properties: {
+          steps: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                index: { type: 'integer' },
+                content: { type: 'string' }
+              },
+              required: ["index", "content"]
+            }
+          }
+        },
+        required: ["steps"]
+      },
+      temperature: 0.7,
+    });
+
+    const parsed = parseSafeJSON(text);
+    const returned: { index?: number; content?: string }[] = Array.isArray(parsed.steps) ? parsed.steps : [];
+    const byIndex = new Map<number, string>();
+    returned.forEach((r, pos) => {
+      const idx = typeof r.index === 'number' ? r.index - 1 : targets[pos];
+      if (targets.includes(idx) && typeof r.content === 'string' && r.content.trim()) byIndex.set(idx, r.content.trim());
+    });
+    if (byIndex.size === 0) throw new Error("No sequence steps returned");
+
+    return steps.map((step, idx) => byIndex.get(idx) ?? step.content);
+  } catch (error) {
+    console.error("Sequence Generation Error:", error);
+    throw new Error("Could not write the follow-up sequence. Please try again.");
+  }
+}
+
+const REPLY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    transcript: { type: 'string' },
+    intent: { type: 'string', enum: REPLY_INTENTS.map(i => i.id) },
+    reason: { type: 'string' },
+    response: { type: 'string' }
+  },
+  required: ["intent", "reason", "response"]
+};
+
+interface ReplyOptions {
+  // Channel the answer will go out on.
+  responseChannel: SequenceChannel;
+  // Keeps this classification instead of asking for one, e.g. when the user corrected it.
+  intent?: ReplyIntent;
+  onProgress?: (done: number, total: number) => void;
+}
+
+/**
+ * Classifies a lead's reply and drafts our answer in the voice of the original
+ * script. Text replies and short voice replies take a single request; longer
+ * voice replies are transcribed part by part first, as in processAudioResearch.
+ * The script's thread so far is passed as context.
+ */
+export async function analyzeReply(script: SavedScript, reply: string | AudioChunk[], options: ReplyOptions): Promise<ReplyAnalysis> {
+  if (typeof reply === 'string' ? !reply.trim() : reply.length === 0) throw new Error("No reply to analyze.");
+
+  const platform = script.platform || 'Instagram';
+  const language = SCRIPT_LANGUAGES[script.language || 'en'];
+  const thread = getThread(script);
+
+  const task = (replyBlock: string) => `
+    A lead answered our outreach on ${platform}. ${replyBlock}
+
+    CONTEXT:
+    - Owner: ${sanitize(script.ownerName)}
+    - Business: ${sanitize(script.businessName)}
+    - Tone: ${script.tone || 'Casual'}
+    - Goal: ${script.goal || 'Permission to Send'}
+    - Language: ${language.label}
+    ${formatPlatformProfile(platform)}
+    ${formatGoal(script.goal || 'Permission to Send', platform)}
+    OUR VOICE NOTE:
+    "${sanitize(exemplarText(script))}"
+${thread.length > 0 ? `
+    THREAD SO FAR:
+${formatThread(thread)}
+` : ''}
+    TASK:
+    ${options.intent
+      ? `The reply has been classified as '${options.intent}'. Return it as 'intent'.`
+      : `Classify the reply as 'intent': ${REPLY_INTENTS.map(i => `'${i.id}'`).join(', ')}.`} Give a one-sentence 'reason'.
+    Then write 'response', our answer, in ${language.label}:
+${REPLY_INTENTS.map(i => `    - ${i.id}: ${i.brief}`).join('\n')}
+    Any next step or re-ask works toward the GOAL.
+    Sound like OUR VOICE NOTE: the same tone, words and sentence length, as if the same person sent it.
+    ${options.responseChannel === 'voice_note'
+      ? 'It is a spoken voice note of about 20 seconds. No emoji, links or markers.'
+      : 'It is a text message within the PLATFORM follow-up character limit.'}
+  `;
+
+  try {
+    let transcript: string;
+    let text: string;
+    if (typeof reply === 'string') {
+      transcript = sanitize(reply);
+      text = await getProvider().generateStructured({
+        task: 'replyAnalysis',
+        prompt: task(`Their reply:\n\n    REPLY:\n    "${transcript}"`),
+        schema: REPLY_SCHEMA,
+        temperature: 0.5,
+      });
+    } else if (reply.length === 1) {
+      text = await getProvider().generateStructured({
+        task: 'replyAnalysis',
+        prompt: task("Listen to their voice note reply.\n    Return 'transcript': a verbatim transcript."),
+        audio: { data: reply[0].data, mimeType: reply[0].mimeType },
+        schema: { ...REPLY_SCHEMA, required: ["transcript", ...REPLY_SCHEMA.required!] },
+        temperature: 0.5,
+      });
+      transcript = '';
+    } else {
+      const parts: string[] = [];
+      for (let i = 0; i < reply.length; i++) {
+        options.onProgress?.(i, reply.length);
+        parts.push(await transcribeChunk(reply[i], i, reply.length));
+      }
+      options.onProgress?.(reply.length, reply.length);
+      transcript = sanitize(parts.filter(Boolean).join('\n\n'));
+      text = await getProvider().generateStructured({
+        task: 'replyAnalysis',
+        prompt: task(`This is the transcript of their voice note reply.\n\n    REPLY:\n    "${transcript}"`),
+        schema: REPLY_SCHEMA,
+        temperature: 0.5,
+      });
+    }
+
+    // Every path ends with a sanitized transcript, whether typed, transcribed in parts or in one go.
+    const result = asRecord(parseSafeJSON(text));
+    if (!transcript) transcript = sanitize(asString(result.transcript));
+    const intent = options.intent || result.intent;
+    const response = asString(result.response).trim();
+    if (!transcript) throw new Error("No transcript returned");
+    if (!isReplyIntent(intent)) throw new Error(`Unknown reply intent: ${intent}`);
+    if (!response) throw new Error("No response returned");
+    return { transcript, intent, reason: asString(result.reason).trim(), response };
+  } catch (error) {
+    console.error("Reply Analysis Error:", error);
+    throw new Error("Could not read this reply or draft an answer. Please try again.");
+  }
+}
+
+const DELIVERY_STATUSES: SectionDeliveryStatus[] = ['delivered', 'partial', 'skipped', 'ad_libbed'];
+
+/**
+ * Compares a recording of the user reading their script against the script
+ * itself, section by section. Duration comes from the recorder; pacing and
+ * filler counts are computed locally from the verbatim transcript.
+ */
+export async function analyzeDelivery(base64Audio: string, mimeType: string, sections: ScriptSection[], durationSeconds: number): Promise<DeliveryAnalysis> {
+  const prompt = `
+    This is a recording of someone reading a voice note script aloud.
+
+    SCRIPT SECTIONS:
+${sections.map((s, idx) => `    ${idx + 1}. ${formatMarker(s)} (${getRoleLabel(s.role)}) ${s.text}`).join('\n')}
+
+    TASK:
+    1. 'transcript': verbatim transcript, keeping filler words (um, uh, like, you know).
+    2. 'sections': one entry per script section in the same order, with 'marker', 'spokenText' (what was actually said for it),
+       'status' (delivered = said essentially as written, partial = some parts missing or reworded, skipped = not said, ad_libbed = replaced with different content),
+       and a short coaching 'note'.
+    3. 'adLibs': spoken sentences that do not belong to any section.
+    4. 'summary': 1-2 sentences of delivery feedback (energy, clarity, pacing).
+  `;
 
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: prompt }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: voice },
+    const text = await getProvider().generateStructured({
+      task: 'deliveryAnalysis',
+      prompt,
+      audio: { data: base64Audio, mimeType },
+      schema: {
+        type: 'object',
+        properties: {
+          transcript: { type: 'string' },
+          sections: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                marker: { type: 'string' },
+                spokenText: { type: 'string' },
+                status: { type: 'string', enum: DELIVERY_STATUSES },
+                note: { type: 'string' }
+              },
+              required: ["status"]
+            }
           },
+          adLibs: { type: 'array', items: { type: 'string' } },
+          summary: { type: 'string' }
         },
+        required: ["transcript", "sections", "summary"]
       },
+      temperature: 0.2,
     });
 
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) throw new Error("TTS candidate was empty");
-    return base64Audio;
+    const result = parseSafeJSON(text);
+    const transcript: string = result.transcript || '';
+    const returned: unknown[] = Array.isArray(result.sections) ? result.sections : [];
+
+    return {
+      transcript,
+      durationSeconds: Math.round(durationSeconds),
+      wordsPerMinute: wordsPerMinute(transcript, durationSeconds),
+      fillerWords: countFillerWords(transcript),
+      sections: sections.map((section, idx) => {
+        const match = asRecord(returned[idx]);
+        const status = DELIVERY_STATUSES.find(s => s === match.status);
+        return {
+          marker: formatMarker(section),
+          scriptText: section.text,
+          spokenText: asString(match.spokenText),
+          status: status || 'skipped',
+          note: asString(match.note)
+        };
+      }),
+      adLibs: Array.isArray(result.adLibs) ? result.adLibs.filter(Boolean) : [],
+      summary: result.summary || ''
+    };
+  } catch (error) {
+    console.error("Delivery Analysis Error:", error);
+    throw new Error("Could not analyze your recording. Please try again in a quieter spot.");
+  }
+}
+
+/**
+ * Synthesizes a spoken take. Pass speechText(sections) for structured
+ * scripts; markers left in legacy text are stripped here as a fallback.
+ */
+export async function generateSpeech(text: string, voice: VoiceOption, tone: string, language?: ScriptLanguage): Promise<string> {
+  const cleanText = text.replace(/\[.*?\]/g, '').trim();
+  // English keeps the provider's defaults.
+  const spoken = language && language !== 'en' ? { name: SCRIPT_LANGUAGES[language].label, locale: SCRIPT_LANGUAGES[language].speechLocale } : undefined;
+
+  try {
+    return await getProvider().synthesizeSpeech({ text: cleanText, voice, tone, language: spoken });
   } catch (error) {
     console.error("TTS Generation Error:", error);
     throw new Error("Voice synthesis failed. Please try a different persona.");
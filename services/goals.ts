@@ -0,0 +1,56 @@
+import { OutreachGoal, VoiceNoteInput } from "../types";
+import { BUILT_IN_GOALS, PLATFORM_PROFILES } from "../constants";
+import { goalStore } from "./storage";
+
+const BUILT_IN_IDS = BUILT_IN_GOALS.map(g => g.id);
+
+export const isCustomized = (goal: OutreachGoal, custom: OutreachGoal[]) =>
+  !!goal.builtIn && custom.some(c => c.id === goal.id);
+
+/** Built-in goals (with any stored overrides) first, then custom goals in the order they were added. */
+export function getGoals(custom: OutreachGoal[] = goalStore.get()): OutreachGoal[] {
+  return [
+    ...BUILT_IN_GOALS.map(goal => {
+      const override = custom.find(c => c.id === goal.id);
+      // Overrides keep the built-in name: saved scripts, analytics and CSVs refer to goals by name.
+      return override ? { ...override, name: goal.name, builtIn: true } : goal;
+    }),
+    ...custom.filter(c => !BUILT_IN_IDS.includes(c.id)),
+  ];
+}
+
+/**
+ * The goal definition behind a script's goal name. A goal that has since been
+ * deleted still gets a usable generic ask.
+ */
+export function resolveGoal(name: string, custom?: OutreachGoal[]): OutreachGoal {
+  const goal = getGoals(custom).find(g => g.name.toLowerCase() === name.trim().toLowerCase());
+  return goal || {
+    id: '',
+    name,
+    ctaInstructions: `End with a clear, low-pressure ask for: ${name}.`,
+    examplePhrasings: [],
+    targetSeconds: 40,
+    createdAt: 0,
+    updatedAt: 0,
+  };
+}
+
+/** Goal target length, clamped to what the platform allows. */
+export function goalTargetSeconds(goal: OutreachGoal, platform: VoiceNoteInput['platform']): number {
+  const { minSeconds, maxSeconds } = PLATFORM_PROFILES[platform];
+  return Math.min(maxSeconds, Math.max(minSeconds, goal.targetSeconds));
+}
+
+/** The GOAL block injected into generation prompts. */
+export function formatGoal(name: string, platform: VoiceNoteInput['platform']): string {
+  const goal = resolveGoal(name);
+  const examples = goal.examplePhrasings.map(p => p.trim()).filter(Boolean);
+  return `
+    GOAL: ${goal.name}
+    - CTA: ${goal.ctaInstructions.trim() || `A clear ask for: ${goal.name}.`}
+    - Target length: about ${goalTargetSeconds(goal, platform)}s${examples.length > 0 ? `
+    - Example asks (match the intent, vary the wording):
+${examples.map(e => `      "${e}"`).join('\n')}` : ''}
+  `;
+}
@@ -0,0 +1,79 @@
+import { ResearchSourceType } from "../types";
+
+// Keeps the prompt well inside model context limits; home pages rarely need more.
+export const MAX_SOURCE_CHARS = 12000;
+
+export const RESEARCH_FILE_TYPES = '.html,.htm,.txt,.md,text/html,text/plain';
+
+export const RESEARCH_SOURCE_LABELS: Record<ResearchSourceType, string> = {
+  website: 'Website',
+  instagram: 'Instagram bio',
+  linkedin: 'LinkedIn About',
+  other: 'Other text',
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', '#39': "'", mdash: '-', ndash: '-', hellip: '...' };
+
+// Numeric entities outside Unicode, surrogates and NUL are left as written.
+const fromCodePoint = (match: string, code: number) =>
+  code > 0 && code <= 0x10ffff && (code < 0xd800 || code > 0xdfff) ? String.fromCodePoint(code) : match;
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&#(\d+);/g, (match, code) => fromCodePoint(match, Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (match, code) => fromCodePoint(match, parseInt(code, 16)))
+    .replace(/&([a-z0-9#]+);/gi, (match, name) => ENTITIES[name.toLowerCase()] ?? match);
+
+export const looksLikeHtml = (text: string) => /<(html|head|body|div|p|meta|title)[\s>]/i.test(text);
+
+const metaContent = (html: string, name: string) =>
+  html.match(new RegExp(`<meta[^>]+(?:name|property)=["']${name}["'][^>]*content=["']([^"']*)["']`, 'i'))?.[1]
+  || html.match(new RegExp(`<meta[^>]+content=["']([^"']*)["'][^>]*(?:name|property)=["']${name}["']`, 'i'))?.[1]
+  || '';
+
+/**
+ * Reduces a saved page to its readable text. The title and meta description
+ * are kept up front because they usually name the business.
+ */
+export function htmlToText(html: string): string {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1] || '';
+  const description = metaContent(html, 'description') || metaContent(html, 'og:description');
+  const body = html
+    .replace(/<(script|style|noscript|svg|template|iframe)[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<head[\s\S]*?<\/head>/i, ' ')
+    .replace(/<(br|\/p|\/div|\/li|\/ul|\/nav|\/h[1-6]|\/section|\/article|\/header|\/footer|\/tr|\/td)[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ');
+  const lines = [title, description, body]
+    .map(decodeEntities)
+    .join('\n')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+  // Menus and footers repeat the same lines across a page.
+  return [...new Set(lines)].join('\n');
+}
+
+/** Best guess at where pasted text came from. */
+export function detectSourceType(text: string): ResearchSourceType {
+  if (looksLikeHtml(text)) return 'website';
+  if (/linkedin|\b(experience|endorsements|connections)\b/i.test(text)) return 'linkedin';
+  if (/instagram|\b(followers|following|posts)\b|link in bio|📍/i.test(text)) return 'instagram';
+  return 'other';
+}
+
+/** Plain text ready for the prompt, and whether it had to be cut short. */
+export function prepareSource(raw: string): { text: string; truncated: boolean } {
+  const text = (looksLikeHtml(raw) ? htmlToText(raw) : raw.replace(/[ \t]+/g, ' ')).trim();
+  return text.length > MAX_SOURCE_CHARS
+    ? { text: text.slice(0, MAX_SOURCE_CHARS), truncated: true }
+    : { text, truncated: false };
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/[“”"'‘’]/g, '').replace(/\s+/g, ' ').trim();
+
+/** Whether an evidence quote actually appears in the source, ignoring case, quotes and spacing. */
+export function quoteFound(source: string, quote: string): boolean {
+  const needle = normalize(quote).replace(/^\.+|\.+$/g, '');
+  return needle.length > 0 && normalize(source).includes(needle);
+}
@@ -0,0 +1,33 @@
+import { PipelineStage, SavedScript, StageChange } from "../types";
+
+export function getStage(script: SavedScript): PipelineStage {
+  return script.stage || 'drafted';
+}
+
+/**
+ * Full stage timeline for an entry. Entries saved before pipeline tracking
+ * get a synthesized 'drafted' event at their creation time.
+ */
+export function getStageHistory(script: SavedScript): StageChange[] {
+  if (script.stageHistory && script.stageHistory.length > 0) return script.stageHistory;
+  return [{ stage: 'drafted', changedAt: script.createdAt, note: '' }];
+}
+
+export function applyStageChange(script: SavedScript, stage: PipelineStage, note: string, changedAt: number = Date.now()): SavedScript {
+  return {
+    ...script,
+    stage,
+    stageHistory: [...getStageHistory(script), { stage, changedAt, note: note.trim() }],
+  };
+}
+
+export function getStageChangedAt(script: SavedScript): number {
+  const history = getStageHistory(script);
+  return history[history.length - 1].changedAt;
+}
+
+export function countByStage(scripts: SavedScript[]): Record<PipelineStage, number> {
+  const counts: Record<PipelineStage, number> = { drafted: 0, sent: 0, replied: 0, call_booked: 0, closed: 0, ghosted: 0 };
+  scripts.forEach(s => { counts[getStage(s)]++; });
+  return counts;
+}
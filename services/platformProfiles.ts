@@ -0,0 +1,159 @@
+import { PlatformIssue, PlatformProfile, VoiceNoteInput, VoiceNoteResult } from "../types";
+import { PLATFORM_PROFILES } from "../constants";
+import { WORDS_PER_MINUTE } from "./scriptUtils";
+import { estimateSectionsDuration } from "./scriptSections";
+
+// "Sparing" allows this many emoji in the follow-up text.
+export const MAX_SPARING_EMOJI = 1;
+
+const EMOJI_PATTERN = /\p{Extended_Pictographic}[\uFE0F\p{Emoji_Modifier}]*(?:\u200D\p{Extended_Pictographic}[\uFE0F\p{Emoji_Modifier}]*)*/gu;
+
+const EMOJI_LABELS: Record<PlatformProfile['emoji'], string> = {
+  none: 'No emoji',
+  sparing: `At most ${MAX_SPARING_EMOJI} emoji`,
+  allowed: 'Emoji are fine',
+};
+
+type ProfileInput = Pick<VoiceNoteInput, 'platform' | 'ownerName' | 'language'>;
+
+export const getPlatformProfile = (platform: VoiceNoteInput['platform']): PlatformProfile => PLATFORM_PROFILES[platform];
+
+export const countEmoji = (text: string) => text.match(EMOJI_PATTERN)?.length || 0;
+
+/** Removes emoji past the first `keep`, tidying the spaces they leave behind. */
+export function stripEmoji(text: string, keep: number = 0): string {
+  let seen = 0;
+  return text
+    .replace(EMOJI_PATTERN, emoji => (++seen <= keep ? emoji : ''))
+    .replace(/\s+([.,!?])/g, '$1')
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+}
+
+const allowedEmoji = (profile: PlatformProfile) =>
+  profile.emoji === 'none' ? 0 : profile.emoji === 'sparing' ? MAX_SPARING_EMOJI : Infinity;
+
+// "Hi [Name], it's [your name] here" -> "Hi"
+const greetingWord = (profile: PlatformProfile) => profile.greeting.split('[Name]')[0].trim();
+
+const OPENING_GREETING = /^(hi|hey|hello|hiya|yo)(\s+there)?\b/i;
+
+const avoidedGreeting = (profile: PlatformProfile, text: string) =>
+  profile.avoidGreetings.find(g => new RegExp(`^${g}\\b`, 'i').test(text.trim()));
+
+const mentionsName = (text: string, ownerName: string) =>
+  !ownerName.trim() || text.toLowerCase().includes(ownerName.trim().toLowerCase());
+
+/** The PLATFORM block injected into generation prompts. */
+export function formatPlatformProfile(platform: VoiceNoteInput['platform']): string {
+  const profile = getPlatformProfile(platform);
+  return `
+    PLATFORM (${platform}):
+    - Length: ${profile.minSeconds}-${profile.maxSeconds}s spoken
+    - Follow-up text: at most ${profile.followUpMaxChars} characters
+    - Emoji in the follow-up: ${EMOJI_LABELS[profile.emoji]}. Never in the spoken script.
+    - Greeting: like "${profile.greeting}"${profile.avoidGreetings.length > 0 ? `; never open with ${profile.avoidGreetings.map(g => `"${g}"`).join(', ')}` : ''}
+    - Norms: ${profile.norms}
+  `;
+}
+
+/**
+ * Checks a generated script against the platform's profile. Greeting wording
+ * is only checked for English; other languages follow their own openers.
+ */
+export function validateOutput(result: VoiceNoteResult, input: ProfileInput): PlatformIssue[] {
+  const profile = getPlatformProfile(input.platform);
+  const issues: PlatformIssue[] = [];
+  const seconds = estimateSectionsDuration(result.sections);
+
+  if (seconds < profile.minSeconds) {
+    issues.push({ code: 'too_short', message: `About ${seconds}s; ${input.platform} notes should run ${profile.minSeconds}-${profile.maxSeconds}s.`, needsRewrite: true });
+  } else if (seconds > profile.maxSeconds) {
+    issues.push({ code: 'too_long', message: `About ${seconds}s; ${input.platform} notes should stay under ${profile.maxSeconds}s.`, needsRewrite: true });
+  }
+
+  if (result.followUp.length > profile.followUpMaxChars) {
+    issues.push({ code: 'followup_too_long', message: `Follow-up is ${result.followUp.length} characters; the ${input.platform} limit is ${profile.followUpMaxChars}.`, needsRewrite: false });
+  }
+
+  const followUpEmoji = countEmoji(result.followUp);
+  if (followUpEmoji > allowedEmoji(profile)) {
+    issues.push({
+      code: 'followup_emoji',
+      message: profile.emoji === 'none'
+        ? `Follow-up uses emoji, which read as spam on ${input.platform}.`
+        : `Follow-up uses ${followUpEmoji} emoji; keep it to ${MAX_SPARING_EMOJI} on ${input.platform}.`,
+      needsRewrite: false,
+    });
+  }
+
+  if (result.sections.some(s => countEmoji(s.text) > 0)) {
+    issues.push({ code: 'script_emoji', message: 'The spoken script contains emoji, which cannot be read aloud.', needsRewrite: false });
+  }
+
+  const opener = result.sections[0]?.text || '';
+  const avoided = (input.language || 'en') === 'en' ? avoidedGreeting(profile, opener) : undefined;
+  if (avoided) {
+    issues.push({ code: 'greeting', message: `Opens with "${avoided}", which is off for ${input.platform}. Use something like "${profile.greeting}".`, needsRewrite: false });
+  } else if (!mentionsName(opener, input.ownerName)) {
+    issues.push({ code: 'greeting', message: `The opener never uses ${input.ownerName.trim()}'s name.`, needsRewrite: false });
+  }
+
+  return issues;
+}
+
+/** Cuts text to `limit` characters, preferring a sentence end, then a word break. */
+export function trimToLimit(text: string, limit: number): string {
+  if (text.length <= limit) return text;
+  const cut = text.slice(0, limit);
+  const sentenceEnd = Math.max(cut.lastIndexOf('. '), cut.lastIndexOf('! '), cut.lastIndexOf('? '));
+  if (sentenceEnd > limit / 2) return cut.slice(0, sentenceEnd + 1);
+  const wordEnd = cut.slice(0, limit - 1).lastIndexOf(' ');
+  return `${cut.slice(0, wordEnd > 0 ? wordEnd : limit - 1).replace(/[\s,;:]+$/, '')}…`;
+}
+
+/**
+ * Applies every fix that needs no model call: emoji, follow-up length and the
+ * greeting. Duration is left to durationInstruction() and a section rewrite.
+ */
+export function applyLocalFixes(result: VoiceNoteResult, input: ProfileInput): VoiceNoteResult {
+  const profile = getPlatformProfile(input.platform);
+  const followUp = trimToLimit(stripEmoji(result.followUp, allowedEmoji(profile)), profile.followUpMaxChars);
+
+  const sections = result.sections.map((section, idx) => {
+    let text = countEmoji(section.text) > 0 ? stripEmoji(section.text) : section.text;
+    if (idx === 0) {
+      const english = (input.language || 'en') === 'en';
+      const avoided = english ? avoidedGreeting(profile, text) : undefined;
+      if (avoided) {
+        text = text.trim().replace(new RegExp(`^${avoided}\\b`, 'i'), greetingWord(profile));
+      }
+      if (!mentionsName(text, input.ownerName)) {
+        const name = input.ownerName.trim();
+        if (english && OPENING_GREETING.test(text.trim())) {
+          // "Hey there, ..." -> "Hey Mike, ..."
+          text = text.trim().replace(OPENING_GREETING, `$1 ${name}`);
+        } else {
+          const lead = english ? `${greetingWord(profile)} ${name}` : name;
+          // Lowercase the old first word unless it is "I" or an acronym.
+          const rest = /^[A-Z][a-z]/.test(text) ? text.charAt(0).toLowerCase() + text.slice(1) : text;
+          text = `${lead}, ${rest}`;
+        }
+      }
+    }
+    return text === section.text ? section : { ...section, text };
+  });
+
+  return { ...result, sections, followUp };
+}
+
+/** Rewrite instruction that brings the script into the platform's length range, or null when it fits. */
+export function durationInstruction(result: VoiceNoteResult, platform: VoiceNoteInput['platform']): string | null {
+  const profile = getPlatformProfile(platform);
+  const seconds = estimateSectionsDuration(result.sections);
+  if (seconds >= profile.minSeconds && seconds <= profile.maxSeconds) return null;
+  const targetWords = Math.round((((profile.minSeconds + profile.maxSeconds) / 2) * WORDS_PER_MINUTE) / 60);
+  return seconds > profile.maxSeconds
+    ? `Make it shorter: the whole note must fit ${profile.minSeconds}-${profile.maxSeconds}s on ${platform}, about ${targetWords} words in total. Keep the name, the gap, the free value and the ask.`
+    : `Expand it slightly: the whole note should run ${profile.minSeconds}-${profile.maxSeconds}s on ${platform}, about ${targetWords} words in total. Add specifics, not filler.`;
+}
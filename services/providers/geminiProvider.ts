@@ -0,0 +1,76 @@
+import { GoogleGenAI, Type, Modality, GenerateContentResponse, Schema } from "@google/genai";
+import { AISettings } from "../../types";
+import { AIProvider, JsonSchema, StructuredRequest, SpeechRequest } from "./provider";
+
+const TYPE_MAP: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: TYPE_MAP[schema.type],
+  ...(schema.description && { description: schema.description }),
+  ...(schema.enum && { enum: schema.enum }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.properties && {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+  }),
+});
+
+export function createGeminiProvider(settings: AISettings): AIProvider {
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey || process.env.API_KEY });
+
+  return {
+    id: 'gemini',
+
+    async generateStructured(request: StructuredRequest): Promise<string> {
+      const contents = request.audio
+        ? {
+            parts: [
+              { inlineData: { data: request.audio.data, mimeType: request.audio.mimeType } },
+              { text: request.prompt }
+            ]
+          }
+        : request.prompt;
+
+      const response: GenerateContentResponse = await ai.models.generateContent({
+        model: settings.textModel,
+        contents,
+        config: {
+          ...(request.systemInstruction && { systemInstruction: request.systemInstruction }),
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(request.schema),
+          temperature: request.temperature,
+        },
+      });
+      return response.text || '{}';
+    },
+
+    async synthesizeSpeech({ text, voice, tone, language }: SpeechRequest): Promise<string> {
+      const accent = language ? ` in ${language.name} with a native accent` : '';
+      const prompt = `Voice this script${accent} in a ${tone.toLowerCase()} tone: "${text}"`;
+      const response: GenerateContentResponse = await ai.models.generateContent({
+        model: settings.ttsModel,
+        contents: [{ parts: [{ text: prompt }] }],
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName: voice },
+            },
+            ...(language && { languageCode: language.locale }),
+          },
+        },
+      });
+
+      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+      if (!base64Audio) throw new Error("TTS candidate was empty");
+      return base64Audio;
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import { AIProviderId, AISettings } from "../../types";
+import { AIProvider } from "./provider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { createMockProvider } from "./mockProvider";
+import { aiSettingsStore } from "../storage";
+
+export type { AIProvider, JsonSchema, StructuredRequest, SpeechRequest } from "./provider";
+
+// localStorage key used before the storage repository; still read from old workspace dumps.
+export const AI_SETTINGS_KEY = 'app_ai_settings';
+
+export const PROVIDER_LABELS: Record<AIProviderId, string> = {
+  'gemini': 'Google Gemini',
+  'openai-compatible': 'OpenAI-Compatible',
+  'mock': 'Offline Mock',
+};
+
+export const PROVIDER_DEFAULTS: Record<AIProviderId, Omit<AISettings, 'provider' | 'apiKey'>> = {
+  'gemini': { textModel: 'gemini-3-flash-preview', ttsModel: 'gemini-2.5-flash-preview-tts', baseUrl: '' },
+  'openai-compatible': { textModel: 'gpt-4o-mini', ttsModel: 'gpt-4o-mini-tts', baseUrl: 'http://localhost:11434/v1' },
+  'mock': { textModel: 'mock-text', ttsModel: 'mock-tts', baseUrl: '' },
+};
+
+export const DEFAULT_AI_SETTINGS: AISettings = { provider: 'gemini', apiKey: '', ...PROVIDER_DEFAULTS.gemini };
+
+export function loadAISettings(): AISettings {
+  return { ...DEFAULT_AI_SETTINGS, ...aiSettingsStore.get() };
+}
+
+export function saveAISettings(settings: AISettings): void {
+  aiSettingsStore.set(settings);
+}
+
+/**
+ * Resolves the provider from the saved settings on every call so changes in
+ * the settings screen take effect without a reload.
+ */
+export function getProvider(settings: AISettings = loadAISettings()): AIProvider {
+  switch (settings.provider) {
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider(settings);
+    case 'mock':
+      return createMockProvider();
+    default:
+      return createGeminiProvider(settings);
+  }
+}
@@ -0,0 +1,227 @@
+import { AIProvider, JsonSchema, StructuredRequest, SpeechRequest } from "./provider";
+import { bytesToBase64, synthesizePlaceholderPcm } from "./pcm";
+
+const hash = (value: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+/** Reads a `- Label: value` line out of a prompt's CONTEXT block. */
+const readContext = (prompt: string, label: string, fallback: string): string => {
+  const match = prompt.match(new RegExp(`-\\s*${label}:\\s*(.+)`));
+  return match ? match[1].trim() : fallback;
+};
+
+const pick = <T>(options: T[], seed: number): T => options[seed % options.length];
+
+const MOCK_MEMO_TRANSCRIPT = "Okay, so I just looked at Peak Fitness, the owner is Mike. Um, their landing page has no clear call to action above the fold. I rewrote the hero section with a booking CTA, so that's the free value.";
+
+const MOCK_REPLY_TRANSCRIPT = "Hey, thanks for the voice note. Sounds interesting, but what would something like this cost?";
+
+// Checked in order; anything else reads as interested.
+const MOCK_REPLY_CUES: [string, RegExp][] = [
+  ['unsubscribe', /\b(unsubscribe|stop|remove me|don't contact|do not contact|not interested)\b/i],
+  ['not_now', /\b(not now|later|next (week|month|quarter)|busy|bad time|timing)\b/i],
+  ['objection', /\b(cost|price|pricing|expensive|budget|already have|already use|but)\b/i],
+];
+
+// The mock cannot write other languages; a local greeting at least shows the setting reached the prompt.
+const MOCK_GREETINGS: Record<string, string> = { Spanish: 'Hola', 'Portuguese (Brazil)': 'Oi', German: 'Hallo' };
+
+type Fixture = (request: StructuredRequest, seed: number) => unknown;
+
+const FIXTURES: Record<string, Fixture> = {
+  voiceNote: ({ prompt }, seed) => {
+    const owner = readContext(prompt, 'Owner', 'there');
+    const business = readContext(prompt, 'Business', 'your business');
+    const gap = readContext(prompt, 'Gap', 'a small gap in your funnel');
+    const value = readContext(prompt, 'Free Value', 'a quick fix');
+    const language = readContext(prompt, 'Language', 'English');
+    const opener = MOCK_GREETINGS[language] || pick(['Hey', 'Hi', 'Yo'], seed);
+    const ask = prompt.match(/Example asks[^\n]*\n\s*"([^"]+)"/)?.[1] || 'Would you mind if I sent it over so you can take a look?';
+    return {
+      sections: [
+        { role: 'pattern_interrupt', startSeconds: 0, endSeconds: 5, text: `${opener} ${owner}, I was just looking at ${business} and had to send you a quick voice note.` },
+        { role: 'observation', startSeconds: 5, endSeconds: 15, text: `One thing stood out: ${gap}. Honestly it is probably costing you a few clients every month.` },
+        { role: 'work_done', startSeconds: 15, endSeconds: 30, text: `So I went ahead and put something together for you: ${value}. It is already done, no strings attached.` },
+        { role: 'cta', startSeconds: 30, endSeconds: 45, text: ask },
+      ],
+      followUp: `Just sent you a voice note about ${business}, mind if I share what I put together?`,
+    };
+  },
+  voiceNoteVariants: (request, seed) => {
+    const plan = [...request.prompt.matchAll(/-\s*([A-Z]):\s*tone=([^;]+);\s*opener=(.+)/g)];
+    return {
+      variants: plan.map(([, label, tone], idx) => ({
+        label,
+        ...(FIXTURES.voiceNote({ ...request, prompt: `${request.prompt}\n- Tone: ${tone}` }, seed + idx) as object),
+      })),
+    };
+  },
+  regenerateSections: ({ prompt }, seed) => {
+    const instruction = (prompt.match(/INSTRUCTION:\s*(.+)/)?.[1] || '').toLowerCase();
+    const targets = [...prompt.matchAll(/^\s*(\d+)\.\s*>>\s*\[[^\]]*\]\s*(?:\([^)]*\)\s*)?(.+)$/gm)];
+    return {
+      sections: targets.map(([, index, text]) => {
+        const firstSentence = text.match(/^[^.!?]+[.!?]/)?.[0] || text;
+        const rewritten = instruction.includes('short')
+          ? firstSentence
+          : `${pick(['Honestly,', 'Quick thing,', 'No pressure,'], seed + Number(index))} ${text.charAt(0).toLowerCase()}${text.slice(1)}`;
+        return { index: Number(index), text: rewritten };
+      }),
+    };
+  },
+  translateScript: ({ prompt }) => {
+    const language = prompt.match(/into (.+)\.\n/)?.[1] || 'English';
+    const sections = [...prompt.matchAll(/^\s*(\d+)\.\s*\[[^\]]*\]\s*(?:\([^)]*\)\s*)?(.+)$/gm)];
+    return {
+      sections: sections.map(([, index, text]) => ({ index: Number(index), text: `(${language}) ${text}` })),
+    };
+  },
+  sequence: ({ prompt }) => {
+    const owner = readContext(prompt, 'Owner', 'there');
+    const business = readContext(prompt, 'Business', 'your business');
+    const lines: Record<string, string> = {
+      'Follow-up': `Hey ${owner}, did you get a chance to listen to my voice note about ${business}? Happy to send it over.`,
+      Bump: `Quick nudge, ${owner}: the ${business} idea is ready whenever suits you. Want me to share it?`,
+      Breakup: `No worries if the timing is off, ${owner}. I will leave it here, but the offer stands if you ever want it.`,
+      'Voice Note': `Hey ${owner}, quick follow-up on my last note about ${business}. Just making sure it did not get buried.`,
+    };
+    const targets = [...prompt.matchAll(/^\s*(\d+)\.\s*>>\s*Day \d+ · ([^·]+?) · (voice note|text)/gm)];
+    return {
+      steps: targets.map(([, index, label, channel]) => ({
+        index: Number(index),
+        content: channel === 'voice note' ? lines['Voice Note'] : lines[label] || lines['Follow-up'],
+      })),
+    };
+  },
+  deliveryAnalysis: ({ prompt }) => {
+    const sections = [...prompt.matchAll(/^\s*\d+\.\s*(\[[^\]]*\])\s*(?:\([^)]*\)\s*)?(.+)$/gm)];
+    const spoken = sections.map(([, , text], idx) => (idx === 0 ? `Um, ${text}` : text));
+    return {
+      transcript: spoken.join(' '),
+      sections: sections.map(([, marker], idx) => ({
+        marker,
+        spokenText: spoken[idx],
+        status: idx === sections.length - 1 ? 'partial' : 'delivered',
+        note: idx === sections.length - 1 ? 'Slow down and land the ask clearly.' : 'Good.',
+      })),
+      adLibs: [],
+      summary: 'Solid energy. Trim the opening filler and pause before the CTA.',
+    };
+  },
+  styleProfile: ({ prompt }) => {
+    const exemplars = [...prompt.matchAll(/^\s*\d+\.\s*"(.+)"$/gm)].map(([, text]) => text);
+    const sentences = exemplars.map(text => text.match(/[^.!?]+[.!?]*/g) || [text]);
+    const opener = (sentences[0]?.[0] || 'Hey there.').trim();
+    const closers = sentences.map(s => s[s.length - 1].trim());
+    const slang = ['honestly', 'quick one', 'no strings', 'super', 'gonna', 'legit']
+      .filter(word => exemplars.some(text => text.toLowerCase().includes(word)));
+    return {
+      opener: `${opener.split(/\s+/).slice(0, 3).join(' ')} ... (e.g. "${opener}")`,
+      slang,
+      ctaPhrasing: closers.find(c => c.endsWith('?')) || 'Mind if I send it over?',
+      signOff: '',
+    };
+  },
+  leadResearch: ({ prompt }) => {
+    const source = prompt.match(/SOURCE START\n([\s\S]*?)\n\s*SOURCE END/)?.[1] || '';
+    const lines = source.split('\n').map(line => line.trim()).filter(Boolean);
+    const sentences = source.match(/[^.!?\n]{12,}[.!?]?/g) || [];
+    const owner = source.match(/\b(?:I'm|I am|founder|owner|by)\s+([A-Z][a-z]+)/)?.[1] || '';
+    const evidence = (idx: number) => (sentences[idx] || lines[0] || '').trim();
+    return {
+      ownerName: owner,
+      businessName: (lines[0] || 'Unknown business').split(/\s+[|\-–]\s+/)[0].slice(0, 60),
+      gaps: [
+        { gap: 'The page never tells visitors what to do next; there is no booking link or clear call to action.', evidence: evidence(0) },
+        { gap: 'The offer is vague, so it is hard to tell who it is for or what it costs.', evidence: evidence(1) },
+      ],
+      valueIdeas: [
+        'A rewritten hero section with one clear booking call to action.',
+        'A short FAQ block that answers pricing and who the offer is for.',
+      ],
+    };
+  },
+  replyAnalysis: ({ prompt, audio }) => {
+    const owner = readContext(prompt, 'Owner', 'there');
+    const business = readContext(prompt, 'Business', 'your business');
+    const transcript = audio ? MOCK_REPLY_TRANSCRIPT : prompt.match(/REPLY:\s*"([\s\S]*?)"\s*\n\s*CONTEXT:/)?.[1] || '';
+    const intent = prompt.match(/has been classified as '(\w+)'/)?.[1]
+      || MOCK_REPLY_CUES.find(([, cue]) => cue.test(transcript))?.[0]
+      || 'interested';
+    const responses: Record<string, string> = {
+      interested: `Amazing, ${owner}, thanks for getting back to me. I will send over what I put together for ${business} today. Would a quick ten-minute call this week work to walk through it?`,
+      objection: `Totally fair question, ${owner}. It depends on the scope, but the piece I already made for ${business} is yours either way. Want me to send it so you can judge if it is worth a chat?`,
+      not_now: `No problem at all, ${owner}. I will leave the idea for ${business} with you. When would be a better time for me to check back in?`,
+      unsubscribe: `Understood, ${owner}, I will not message again. Thanks for letting me know and all the best with ${business}.`,
+    };
+    return {
+      ...(audio && { transcript }),
+      intent,
+      reason: intent === 'interested' ? 'They responded positively and asked nothing blocking.' : `The reply matches a typical ${intent.replace('_', ' ')} answer.`,
+      response: responses[intent] || responses.interested,
+    };
+  },
+  audioTranscript: () => ({ transcript: MOCK_MEMO_TRANSCRIPT }),
+  audioResearch: () => ({
+    transcript: MOCK_MEMO_TRANSCRIPT,
+    ownerName: 'Mike',
+    businessName: 'Peak Fitness',
+    identifiedGap: 'Landing page has no clear call to action above the fold.',
+    freeValue: 'Rewrote the hero section with a booking CTA.',
+    sources: {
+      ownerName: 'the owner is Mike',
+      businessName: 'Peak Fitness',
+      identifiedGap: 'no clear call to action above the fold',
+      freeValue: 'I rewrote the hero section with a booking CTA',
+    },
+  }),
+};
+
+/** Builds schema-shaped filler for tasks without a dedicated fixture. */
+const fillFromSchema = (schema: JsonSchema, seed: number, key: string = 'value'): unknown => {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([prop, child], idx) => [prop, fillFromSchema(child, seed + idx, prop)])
+      );
+    case 'array':
+      return schema.items ? [0, 1].map(i => fillFromSchema(schema.items!, seed + i, key)) : [];
+    case 'number':
+      return (seed % 100) / 100;
+    case 'integer':
+      return seed % 10;
+    case 'boolean':
+      return seed % 2 === 0;
+    default:
+      return schema.enum ? pick(schema.enum, seed) : `Mock ${key} #${seed % 1000}`;
+  }
+};
+
+/**
+ * Fully offline provider. Output depends only on the request, so the same
+ * input always yields the same script, which keeps demos and tests stable.
+ */
+export function createMockProvider(): AIProvider {
+  return {
+    id: 'mock',
+
+    async generateStructured(request: StructuredRequest): Promise<string> {
+      const seed = hash(`${request.task}|${request.prompt}`);
+      const fixture = FIXTURES[request.task];
+      const output = fixture ? fixture(request, seed) : fillFromSchema(request.schema, seed);
+      return JSON.stringify(output);
+    },
+
+    async synthesizeSpeech({ text, voice }: SpeechRequest): Promise<string> {
+      const words = text.trim().split(/\s+/).filter(Boolean).length;
+      const seconds = Math.min(60, Math.max(1, (words / 140) * 60));
+      return bytesToBase64(synthesizePlaceholderPcm(seconds, hash(voice)));
+    },
+  };
+}
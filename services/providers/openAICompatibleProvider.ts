@@ -0,0 +1,91 @@
+import { AISettings, VoiceOption } from "../../types";
+import { AIProvider, StructuredRequest, SpeechRequest } from "./provider";
+import { bytesToBase64 } from "./pcm";
+
+// Closest OpenAI voice for each of the app's personas.
+const VOICE_MAP: Record<VoiceOption, string> = {
+  Zephyr: 'alloy',
+  Puck: 'fable',
+  Charon: 'onyx',
+  Kore: 'nova',
+  Fenrir: 'echo',
+};
+
+const AUDIO_FORMATS: Record<string, string> = {
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/wave': 'wav',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+};
+
+/**
+ * Talks to any server exposing the OpenAI `/chat/completions` and
+ * `/audio/speech` routes, e.g. OpenAI itself, LM Studio, Ollama or vLLM.
+ */
+export function createOpenAICompatibleProvider(settings: AISettings): AIProvider {
+  const baseUrl = settings.baseUrl.replace(/\/+$/, '');
+
+  const post = async (path: string, body: unknown): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.apiKey && { Authorization: `Bearer ${settings.apiKey}` }),
+      },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Provider request to ${path} failed (${response.status}): ${detail.slice(0, 200)}`);
+    }
+    return response;
+  };
+
+  return {
+    id: 'openai-compatible',
+
+    async generateStructured(request: StructuredRequest): Promise<string> {
+      let userContent: unknown = request.prompt;
+      if (request.audio) {
+        const format = AUDIO_FORMATS[request.audio.mimeType.split(';')[0]];
+        if (!format) {
+          throw new Error(`This provider only accepts WAV or MP3 audio, not ${request.audio.mimeType}.`);
+        }
+        userContent = [
+          { type: 'input_audio', input_audio: { data: request.audio.data, format } },
+          { type: 'text', text: request.prompt },
+        ];
+      }
+
+      const response = await post('/chat/completions', {
+        model: settings.textModel,
+        temperature: request.temperature,
+        messages: [
+          ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+          { role: 'user', content: userContent },
+        ],
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: request.task, schema: request.schema },
+        },
+      });
+      const data = await response.json();
+      return data?.choices?.[0]?.message?.content || '{}';
+    },
+
+    async synthesizeSpeech({ text, voice, tone, language }: SpeechRequest): Promise<string> {
+      const response = await post('/audio/speech', {
+        model: settings.ttsModel,
+        input: text,
+        voice: VOICE_MAP[voice] || 'alloy',
+        instructions: `Speak${language ? ` ${language.name} with a native accent,` : ''} in a ${tone.toLowerCase()} tone.`,
+        // Raw 24 kHz 16-bit mono PCM, matching what the Gemini provider returns.
+        response_format: 'pcm',
+      });
+      const buffer = await response.arrayBuffer();
+      if (buffer.byteLength === 0) throw new Error("TTS response was empty");
+      return bytesToBase64(new Uint8Array(buffer));
+    },
+  };
+}
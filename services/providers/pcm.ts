@@ -0,0 +1,26 @@
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Renders a quiet, deterministic two-tone hum as 16-bit mono PCM so offline
+ * playback and export have something audible of a realistic length.
+ */
+export function synthesizePlaceholderPcm(durationSeconds: number, seed: number, sampleRate: number = 24000): Uint8Array {
+  const frameCount = Math.max(1, Math.round(durationSeconds * sampleRate));
+  const samples = new Int16Array(frameCount);
+  const base = 140 + (seed % 80);
+  for (let i = 0; i < frameCount; i++) {
+    const t = i / sampleRate;
+    // Amplitude envelope pulses roughly at syllable rate (~4 Hz).
+    const envelope = 0.5 + 0.5 * Math.sin(2 * Math.PI * 4 * t);
+    const value = Math.sin(2 * Math.PI * base * t) * 0.6 + Math.sin(2 * Math.PI * base * 2 * t) * 0.4;
+    samples[i] = Math.round(value * envelope * 3000);
+  }
+  return new Uint8Array(samples.buffer);
+}
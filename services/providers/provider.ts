@@ -0,0 +1,45 @@
+import { VoiceOption } from "../../types";
+
+/**
+ * Provider-neutral subset of JSON Schema used to describe structured output.
+ * Each provider translates it into its own response format.
+ */
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+  description?: string;
+}
+
+export interface InlineAudio {
+  data: string;
+  mimeType: string;
+}
+
+export interface StructuredRequest {
+  // Stable task name; lets the mock provider return task-shaped fixtures.
+  task: string;
+  prompt: string;
+  schema: JsonSchema;
+  systemInstruction?: string;
+  temperature?: number;
+  audio?: InlineAudio;
+}
+
+export interface SpeechRequest {
+  text: string;
+  voice: VoiceOption;
+  tone: string;
+  // Spoken language, e.g. { name: 'German', locale: 'de-DE' }. Providers assume English when missing.
+  language?: { name: string; locale: string };
+}
+
+export interface AIProvider {
+  readonly id: string;
+  /** Returns the raw JSON text produced for the request. */
+  generateStructured(request: StructuredRequest): Promise<string>;
+  /** Returns base64 encoded 16-bit mono PCM at 24 kHz. */
+  synthesizeSpeech(request: SpeechRequest): Promise<string>;
+}
@@ -0,0 +1,79 @@
+import { PipelineStage, ReplyAnalysis, ReplyIntent, SavedScript, SequenceChannel, ThreadMessage } from "../types";
+import { REPLY_INTENTS } from "../constants";
+import { applyStageChange, getStage } from "./pipeline";
+
+// Stages a first reply moves on to 'replied'. Later stages were set by hand and are kept.
+const UNREPLIED_STAGES: PipelineStage[] = ['drafted', 'sent'];
+
+export const getThread = (script: SavedScript): ThreadMessage[] => script.thread || [];
+
+export const intentMeta = (intent: ReplyIntent) => REPLY_INTENTS.find(i => i.id === intent)!;
+
+export const isReplyIntent = (value: unknown): value is ReplyIntent => REPLY_INTENTS.some(i => i.id === value);
+
+/** Messages logged before the given one; the context a redraft of its answer should see. */
+export function threadBefore(script: SavedScript, messageId: string): ThreadMessage[] {
+  const thread = getThread(script);
+  const idx = thread.findIndex(m => m.id === messageId);
+  return idx < 0 ? thread : thread.slice(0, idx);
+}
+
+/** The thread as prompt lines, oldest first. */
+export function formatThread(messages: ThreadMessage[]): string {
+  return messages
+    .map(m => {
+      const who = m.direction === 'inbound' ? 'Them' : 'Us';
+      const notes = [m.channel === 'voice_note' ? 'voice note' : 'text', m.intent && intentMeta(m.intent).label, m.direction === 'outbound' && !m.sentAt && 'draft, not sent']
+        .filter(Boolean)
+        .join(', ');
+      return `    - ${who} (${notes}): "${m.content.replace(/\s+/g, ' ').trim()}"`;
+    })
+    .join('\n');
+}
+
+/**
+ * Logs a classified reply and the drafted answer to the lead's thread. The
+ * first reply moves a drafted or sent lead to 'replied', which also ends its
+ * follow-up sequence.
+ */
+export function logReply(
+  script: SavedScript,
+  analysis: ReplyAnalysis,
+  channels: { reply: SequenceChannel; response: SequenceChannel },
+  now: number = Date.now()
+): SavedScript {
+  const inbound: ThreadMessage = {
+    id: `${now}-in`,
+    direction: 'inbound',
+    channel: channels.reply,
+    content: analysis.transcript,
+    intent: analysis.intent,
+    intentReason: analysis.reason,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const outbound: ThreadMessage = {
+    id: `${now}-out`,
+    direction: 'outbound',
+    channel: channels.response,
+    content: analysis.response,
+    inReplyTo: inbound.id,
+    // One millisecond later, so sorting by creation time keeps the answer after the reply.
+    createdAt: now + 1,
+    updatedAt: now + 1,
+  };
+  const updated = { ...script, thread: [...getThread(script), inbound, outbound] };
+  return UNREPLIED_STAGES.includes(getStage(script))
+    ? applyStageChange(updated, 'replied', `${intentMeta(analysis.intent).label} reply logged.`, now)
+    : updated;
+}
+
+export function updateThreadMessage(script: SavedScript, messageId: string, patch: Partial<ThreadMessage>, now: number = Date.now()): SavedScript {
+  return {
+    ...script,
+    thread: getThread(script).map(m => (m.id === messageId ? { ...m, ...patch, updatedAt: now } : m)),
+  };
+}
+
+/** The answer drafted for an inbound message, if any. */
+export const answerTo = (script: SavedScript, inboundId: string) => getThread(script).find(m => m.inReplyTo === inboundId);
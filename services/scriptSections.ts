@@ -0,0 +1,98 @@
+import { SavedScript, ScriptSection, ScriptSectionRole } from "../types";
+import { SCRIPT_SECTION_ROLES } from "../constants";
+import { WORDS_PER_MINUTE, countWords, parseTimedSegments } from "./scriptUtils";
+
+const ROLE_IDS = SCRIPT_SECTION_ROLES.map(r => r.id);
+
+export function isSectionRole(value: unknown): value is ScriptSectionRole {
+  return typeof value === 'string' && (ROLE_IDS as string[]).includes(value);
+}
+
+export function getRoleLabel(role: ScriptSectionRole): string {
+  return SCRIPT_SECTION_ROLES.find(r => r.id === role)?.label || role;
+}
+
+export function formatMarker(section: Pick<ScriptSection, 'startSeconds' | 'endSeconds'>): string {
+  return `[${section.startSeconds}-${section.endSeconds}s]`;
+}
+
+/** Marked-up text form, e.g. for copying, CSV export and the library card. */
+export function renderScript(sections: ScriptSection[]): string {
+  return sections.map(s => `${formatMarker(s)} ${s.text}`.trim()).join('\n');
+}
+
+/** What actually gets spoken: section text only, no markers. */
+export function speechText(sections: ScriptSection[]): string {
+  return sections.map(s => s.text.trim()).filter(Boolean).join(' ');
+}
+
+export function estimateSectionsDuration(sections: ScriptSection[]): number {
+  return Math.round((countWords(speechText(sections)) / WORDS_PER_MINUTE) * 60);
+}
+
+const wordSeconds = (text: string) => Math.max(1, Math.round((countWords(text) / WORDS_PER_MINUTE) * 60));
+
+/**
+ * Framework role by position, for text that carries no role of its own:
+ * first is the pattern interrupt, last is the CTA, and the middle splits
+ * between observation and work done.
+ */
+export function inferRole(index: number, total: number): ScriptSectionRole {
+  if (index === 0) return 'pattern_interrupt';
+  if (index === total - 1) return 'cta';
+  const middle = total - 2;
+  return index - 1 < Math.ceil(middle / 2) ? 'observation' : 'work_done';
+}
+
+/**
+ * Cleans up sections returned by a model: drops empty text, fills unknown
+ * roles by position, and repairs missing or overlapping times so windows are
+ * contiguous and ascending.
+ */
+export function normalizeSections(raw: unknown[]): ScriptSection[] {
+  const cleaned = raw
+    .map((value: unknown) => {
+      const item: Record<string, unknown> = value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+      return {
+        role: item.role,
+        start: Number(item.startSeconds),
+        end: Number(item.endSeconds),
+        text: typeof item.text === 'string' ? item.text.trim() : '',
+      };
+    })
+    .filter(item => item.text);
+
+  let cursor = 0;
+  return cleaned.map((item, idx) => {
+    const startSeconds = Number.isFinite(item.start) && item.start >= cursor ? Math.round(item.start) : cursor;
+    const endSeconds = Number.isFinite(item.end) && item.end > startSeconds ? Math.round(item.end) : startSeconds + wordSeconds(item.text);
+    cursor = endSeconds;
+    return {
+      role: isSectionRole(item.role) ? item.role : inferRole(idx, cleaned.length),
+      startSeconds,
+      endSeconds,
+      text: item.text,
+    };
+  });
+}
+
+/** Parses a legacy marked-up script string into sections. */
+export function sectionsFromScript(script: string): ScriptSection[] {
+  const segments = parseTimedSegments(script);
+  return segments.map((segment, idx) => ({
+    role: inferRole(idx, segments.length),
+    startSeconds: segment.start,
+    endSeconds: segment.end,
+    text: segment.text,
+  }));
+}
+
+/** Library entries saved before structured output only have `content`. */
+export function migrateSavedScript(script: SavedScript): SavedScript {
+  if (Array.isArray(script.sections) && script.sections.length > 0) return script;
+  return { ...script, sections: sectionsFromScript(script.content || '') };
+}
+
+export function getSections(script: SavedScript): ScriptSection[] {
+  return migrateSavedScript(script).sections!;
+}
@@ -0,0 +1,123 @@
+// Average conversational speaking rate used for duration estimates.
+export const WORDS_PER_MINUTE = 140;
+
+const MARKER_PATTERN = /\[.*?\]/g;
+
+export interface ScriptSegment {
+  marker: string;
+  text: string;
+}
+
+export interface DurationStatus {
+  label: string;
+  color: string;
+  bar: string;
+}
+
+export function stripMarkers(script: string): string {
+  return script.replace(MARKER_PATTERN, '').trim();
+}
+
+export function countWords(text: string): number {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+export function estimateDurationSeconds(script: string): number {
+  if (!script) return 0;
+  return Math.round((countWords(stripMarkers(script)) / WORDS_PER_MINUTE) * 60);
+}
+
+/** Status against a target range; the defaults are the framework's general range. */
+export function getDurationStatus(seconds: number, minSeconds: number = 30, maxSeconds: number = 55): DurationStatus {
+  if (seconds < minSeconds) return { label: 'Too Short', color: 'text-amber-400', bar: 'bg-amber-400' };
+  if (seconds <= maxSeconds) return { label: 'Perfect Length', color: 'text-green-400', bar: 'bg-green-400' };
+  return { label: 'A Bit Long', color: 'text-red-400', bar: 'bg-red-400' };
+}
+
+/**
+ * Splits a script on its timing markers (e.g. `[0-5s]`). Text before the
+ * first marker becomes a segment with an empty marker.
+ */
+export function splitSegments(script: string): ScriptSegment[] {
+  const segments: ScriptSegment[] = [];
+  const pattern = /\[[^\]]*\]/g;
+  let lastIndex = 0;
+  let currentMarker = '';
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(script)) !== null) {
+    const text = script.slice(lastIndex, match.index).trim();
+    if (text || currentMarker) segments.push({ marker: currentMarker, text });
+    currentMarker = match[0];
+    lastIndex = match.index + match[0].length;
+  }
+  const tail = script.slice(lastIndex).trim();
+  if (tail || currentMarker) segments.push({ marker: currentMarker, text: tail });
+  return segments;
+}
+
+const FILLER_PATTERNS: { word: string; pattern: RegExp }[] = [
+  { word: 'um', pattern: /\b(um+|umm+)\b/gi },
+  { word: 'uh', pattern: /\b(uh+|er+|ah+)\b/gi },
+  { word: 'like', pattern: /\blike\b(?=\s*,)/gi },
+  { word: 'you know', pattern: /\byou know\b/gi },
+  { word: 'basically', pattern: /\bbasically\b/gi },
+  { word: 'actually', pattern: /\bactually\b/gi },
+  { word: 'literally', pattern: /\bliterally\b/gi },
+  { word: 'kind of', pattern: /\bkind of\b/gi },
+  { word: 'I mean', pattern: /\bI mean\b/gi },
+];
+
+/** Counts common verbal fillers in a verbatim transcript. */
+export function countFillerWords(transcript: string): { word: string; count: number }[] {
+  return FILLER_PATTERNS
+    .map(({ word, pattern }) => ({ word, count: (transcript.match(pattern) || []).length }))
+    .filter(f => f.count > 0)
+    .sort((a, b) => b.count - a.count);
+}
+
+/** 75 -> "1:15" */
+export const formatSeconds = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+export function wordsPerMinute(text: string, seconds: number): number {
+  if (seconds <= 0) return 0;
+  return Math.round((countWords(text) / seconds) * 60);
+}
+
+export interface TimedSegment extends ScriptSegment {
+  start: number;
+  end: number;
+}
+
+/** Parses `[0-5s]`, `[5-15]` or `[0:05-0:15]` style markers into seconds. */
+export function parseMarkerRange(marker: string): { start: number; end: number } | null {
+  const toSeconds = (value: string) => {
+    const parts = value.split(':').map(Number);
+    return parts.length === 2 ? parts[0] * 60 + parts[1] : parts[0];
+  };
+  const match = marker.match(/\[\s*(\d+(?::\d{1,2})?)\s*s?\s*[-–]\s*(\d+(?::\d{1,2})?)\s*s?\s*\]/i);
+  if (!match) return null;
+  const start = toSeconds(match[1]);
+  const end = toSeconds(match[2]);
+  return end > start ? { start, end } : null;
+}
+
+/**
+ * Splits a script into timed segments. Marker ranges are used as-is; segments
+ * without a usable marker are timed from their word count at the average pace.
+ */
+export function parseTimedSegments(script: string): TimedSegment[] {
+  let cursor = 0;
+  return splitSegments(script)
+    .filter(s => s.text)
+    .map(segment => {
+      const range = parseMarkerRange(segment.marker);
+      const start = range ? Math.max(range.start, cursor) : cursor;
+      const end = range && range.end > start
+        ? range.end
+        : start + Math.max(1, Math.round((countWords(segment.text) / WORDS_PER_MINUTE) * 60));
+      cursor = end;
+      return { ...segment, start, end };
+    });
+}
@@ -0,0 +1,89 @@
+import { OutreachSequence, PipelineStage, SavedScript, SequenceStep } from "../types";
+import { getSections, speechText } from "./scriptSections";
+import { applyStageChange, getStage } from "./pipeline";
+
+export type SequencePlan = Pick<SequenceStep, 'kind' | 'channel' | 'delayDays'>[];
+
+export interface DueStep {
+  script: SavedScript;
+  step: SequenceStep;
+  dueAt: number;
+  overdue: boolean;
+}
+
+// A reply or an outcome ends the cadence; nothing more comes due.
+const ACTIVE_STAGES: PipelineStage[] = ['drafted', 'sent'];
+
+export function startOfDay(ts: number): number {
+  const date = new Date(ts);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+/** Start of the step's due day. Uses calendar days, so DST changes do not shift it. */
+export function stepDueAt(sequence: Pick<OutreachSequence, 'startedAt'>, step: SequenceStep): number {
+  const date = new Date(startOfDay(sequence.startedAt));
+  date.setDate(date.getDate() + step.delayDays);
+  return date.getTime();
+}
+
+export const isPending = (step: SequenceStep) => !step.sentAt && !step.skipped;
+
+export const isSequenceActive = (script: SavedScript) => !!script.sequence && ACTIVE_STAGES.includes(getStage(script));
+
+/** The first step that is neither sent nor skipped, or null when the cadence is done. */
+export function nextStep(sequence: OutreachSequence): SequenceStep | null {
+  return [...sequence.steps].sort((a, b) => a.delayDays - b.delayDays).find(isPending) || null;
+}
+
+/** Fresh steps for a plan, with the saved script as the day-0 voice note. */
+export function planSteps(script: SavedScript, plan: SequencePlan): SequenceStep[] {
+  const createdAt = Date.now();
+  return plan.map((p, idx) => ({
+    id: `${createdAt}-${idx}`,
+    ...p,
+    content: idx === 0 && p.kind === 'voice_note' ? speechText(getSections(script)) : '',
+  }));
+}
+
+/** Steps the generator should write: everything not yet sent, except the day-0 voice note. */
+export const writableSteps = (steps: SequenceStep[]) =>
+  steps.map((step, idx) => idx).filter(idx => !steps[idx].sentAt && !(idx === 0 && steps[idx].kind === 'voice_note'));
+
+export function withSequence(script: SavedScript, sequence: Omit<OutreachSequence, 'updatedAt'>): SavedScript {
+  return { ...script, sequence: { ...sequence, updatedAt: Date.now() } };
+}
+
+export function updateStep(script: SavedScript, stepId: string, patch: Partial<SequenceStep>): SavedScript {
+  if (!script.sequence) return script;
+  return withSequence(script, {
+    ...script.sequence,
+    steps: script.sequence.steps.map(step => (step.id === stepId ? { ...step, ...patch } : step)),
+  });
+}
+
+/** Marks a step sent. Sending the opening voice note also moves a draft to the 'sent' stage. */
+export function markStepSent(script: SavedScript, stepId: string, sentAt: number = Date.now()): SavedScript {
+  const updated = updateStep(script, stepId, { sentAt, skipped: false });
+  const step = script.sequence?.steps.find(s => s.id === stepId);
+  return step?.kind === 'voice_note' && getStage(updated) === 'drafted'
+    ? applyStageChange(updated, 'sent', 'Voice note sent from the follow-up sequence.', sentAt)
+    : updated;
+}
+
+/**
+ * Each active lead's next step, when it is due today or overdue. Only the
+ * next step counts: later steps wait until it is sent or skipped.
+ */
+export function getDueSteps(scripts: SavedScript[], now: number = Date.now()): DueStep[] {
+  const today = startOfDay(now);
+  const due: DueStep[] = [];
+  scripts.forEach(script => {
+    if (!isSequenceActive(script)) return;
+    const step = nextStep(script.sequence!);
+    if (!step) return;
+    const dueAt = stepDueAt(script.sequence!, step);
+    if (dueAt <= today) due.push({ script, step, dueAt, overdue: dueAt < today });
+  });
+  return due.sort((a, b) => a.dueAt - b.dueAt);
+}
@@ -0,0 +1,85 @@
+/** Where the repository persists each store's record. Values are structured-cloneable. */
+export interface StorageBackend {
+  readonly kind: 'indexeddb' | 'localstorage';
+  read(key: string): Promise<unknown>;
+  write(key: string, value: unknown): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+const DB_NAME = 'voice_note_workspace';
+const STORE_NAME = 'records';
+const DB_VERSION = 1;
+const LOCAL_PREFIX = 'voice_note_store:';
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+const friendlyWriteError = (error: unknown): Error =>
+  isQuotaError(error)
+    ? new Error("Browser storage is full. Export a workspace backup and delete old scripts to free space.")
+    : new Error("Could not save your changes to browser storage.");
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error || new Error("Could not open workspace storage."));
+    request.onblocked = () => reject(new Error("Workspace storage is blocked by another tab."));
+  });
+
+export async function createIndexedDbBackend(): Promise<StorageBackend> {
+  const db = await openDatabase();
+
+  const run = <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> =>
+    new Promise((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      const request = action(tx.objectStore(STORE_NAME));
+      // Resolve on commit so a write is durable before the next one is queued.
+      tx.oncomplete = () => resolve(request.result as T);
+      tx.onerror = () => reject(tx.error || request.error);
+      tx.onabort = () => reject(tx.error || request.error);
+    });
+
+  return {
+    kind: 'indexeddb',
+    read: key => run('readonly', store => store.get(key)),
+    write: async (key, value) => {
+      try {
+        await run('readwrite', store => store.put(value, key));
+      } catch (error) {
+        console.error("Storage Error:", error);
+        throw friendlyWriteError(error);
+      }
+    },
+    remove: async key => {
+      await run('readwrite', store => store.delete(key));
+    },
+  };
+}
+
+/** Fallback for browsers without IndexedDB (or with it disabled, as in some private modes). */
+export function createLocalStorageBackend(): StorageBackend {
+  return {
+    kind: 'localstorage',
+    read: async key => {
+      const raw = localStorage.getItem(LOCAL_PREFIX + key);
+      return raw === null ? undefined : JSON.parse(raw);
+    },
+    write: async (key, value) => {
+      try {
+        localStorage.setItem(LOCAL_PREFIX + key, JSON.stringify(value));
+      } catch (error) {
+        console.error("Storage Error:", error);
+        throw friendlyWriteError(error);
+      }
+    },
+    remove: async key => {
+      localStorage.removeItem(LOCAL_PREFIX + key);
+    },
+  };
+}
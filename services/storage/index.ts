@@ -0,0 +1,121 @@
+import { AISettings, CustomTemplate, OutreachGoal, SavedScript, StyleProfile, SyncSettings, SyncState } from "../../types";
+import { migrateSavedScript } from "../scriptSections";
+import { createIndexedDbBackend, createLocalStorageBackend } from "./backends";
+import { connectStorage, createStore } from "./repository";
+
+export type { Store } from "./repository";
+export { getStorageKind, onStorageError } from "./repository";
+
+export const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// The minimum a library entry needs; migrateSavedScript fills in the rest.
+export const isSavedScript = (value: unknown): value is SavedScript =>
+  isObject(value) && typeof value.id === 'string' && typeof value.content === 'string';
+
+const validList = <T>(isValid: (item: unknown) => boolean) => (data: unknown): T[] =>
+  Array.isArray(data) ? data.filter(isValid) : [];
+
+export const libraryStore = createStore<SavedScript[]>({
+  name: 'library',
+  legacyKey: 'voice_note_library',
+  version: 1,
+  migrations: {
+    // Entries saved before structured sections.
+    0: (list: unknown) => (Array.isArray(list) ? list.filter(isSavedScript).map(migrateSavedScript) : []),
+  },
+  defaultValue: [],
+  validate: validList<SavedScript>(isSavedScript),
+});
+
+export const templateStore = createStore<CustomTemplate[]>({
+  name: 'templates',
+  legacyKey: 'voice_note_templates',
+  version: 1,
+  defaultValue: [],
+  validate: validList<CustomTemplate>(item => isObject(item) && typeof item.id === 'string' && typeof item.content === 'string'),
+});
+
+// Custom goals, plus overrides of built-in goals stored under the built-in id.
+export const goalStore = createStore<OutreachGoal[]>({
+  name: 'goals',
+  version: 1,
+  defaultValue: [],
+  validate: validList<OutreachGoal>(item => isObject(item) && typeof item.id === 'string' && typeof item.name === 'string' && typeof item.ctaInstructions === 'string' && Array.isArray(item.examplePhrasings)),
+});
+
+export const styleProfileStore = createStore<StyleProfile[]>({
+  name: 'styleProfiles',
+  version: 1,
+  defaultValue: [],
+  validate: validList<StyleProfile>(item => isObject(item) && typeof item.id === 'string' && typeof item.name === 'string'),
+});
+
+// Id of the style profile used for generation, or null for none.
+export const activeStyleProfileStore = createStore<string | null>({
+  name: 'activeStyleProfile',
+  version: 1,
+  defaultValue: null,
+  validate: data => (typeof data === 'string' ? data : null),
+});
+
+export const activeTabStore = createStore<string | null>({
+  name: 'activeTab',
+  legacyKey: 'app_active_tab',
+  legacyIsString: true,
+  version: 1,
+  defaultValue: null,
+  validate: data => (typeof data === 'string' ? data : null),
+});
+
+export const activeReferenceStore = createStore<SavedScript | null>({
+  name: 'activeReference',
+  legacyKey: 'app_active_reference',
+  version: 1,
+  migrations: {
+    0: (saved: unknown) => (isSavedScript(saved) ? migrateSavedScript(saved) : null),
+  },
+  defaultValue: null,
+  validate: data => (isSavedScript(data) ? data : null),
+});
+
+// Only what the user changed; defaults are applied by loadAISettings.
+export const aiSettingsStore = createStore<Partial<AISettings>>({
+  name: 'aiSettings',
+  legacyKey: 'app_ai_settings',
+  version: 1,
+  defaultValue: {},
+  validate: data => (isObject(data) ? (data as Partial<AISettings>) : {}),
+});
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = { enabled: false, serverUrl: 'http://localhost:8787', workspaceId: '', userName: '', token: '' };
+
+export const syncSettingsStore = createStore<SyncSettings>({
+  name: 'syncSettings',
+  version: 1,
+  defaultValue: DEFAULT_SYNC_SETTINGS,
+  validate: data => (isObject(data) ? { ...DEFAULT_SYNC_SETTINGS, ...(data as Partial<SyncSettings>) } : DEFAULT_SYNC_SETTINGS),
+});
+
+export const EMPTY_SYNC_STATE: SyncState = { lastSeq: 0, synced: {}, lastSyncedAt: null, lastError: null };
+
+export const syncStateStore = createStore<SyncState>({
+  name: 'syncState',
+  version: 1,
+  defaultValue: EMPTY_SYNC_STATE,
+  validate: data => (isObject(data) && isObject(data.synced) ? { ...EMPTY_SYNC_STATE, ...(data as Partial<SyncState>) } : EMPTY_SYNC_STATE),
+});
+
+/**
+ * Opens the workspace database and loads every store. Falls back to
+ * localStorage when IndexedDB is unavailable. Must finish before the app renders.
+ */
+export async function initStorage(): Promise<void> {
+  let backend;
+  try {
+    backend = await createIndexedDbBackend();
+  } catch (error) {
+    console.warn("IndexedDB unavailable, falling back to localStorage:", error);
+    backend = createLocalStorageBackend();
+  }
+  await connectStorage(backend);
+}
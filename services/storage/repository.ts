@@ -0,0 +1,188 @@
+import { StorageBackend } from "./backends";
+
+export interface StoreDefinition<T> {
+  // Backend key for this store's record.
+  name: string;
+  // localStorage key the app used before the repository existed. Read once on first run, then removed.
+  legacyKey?: string;
+  // The legacy key held a bare string rather than JSON.
+  legacyIsString?: boolean;
+  version: number;
+  // Each entry upgrades stored data from the keyed version to the next one. Legacy data is version 0.
+  migrations?: Record<number, (data: unknown) => unknown>;
+  defaultValue: T;
+  // Coerces stored data into a usable value after migrations; should never throw.
+  validate: (data: unknown) => T;
+}
+
+export interface Store<T> {
+  readonly name: string;
+  get(): T;
+  set(value: T): void;
+  update(fn: (current: T) => T): void;
+  /** Called after every change, including ones made in other tabs. Returns an unsubscribe function. */
+  subscribe(listener: (value: T) => void): () => void;
+}
+
+interface StoredRecord {
+  version: number;
+  updatedAt: number;
+  data: unknown;
+}
+
+interface RegisteredStore {
+  name: string;
+  hydrate(backend: StorageBackend): Promise<void>;
+  reload(): Promise<void>;
+}
+
+const CHANNEL_NAME = 'voice_note_storage';
+
+const registry: RegisteredStore[] = [];
+const errorListeners = new Set<(error: Error) => void>();
+// Errors raised before anything subscribed (e.g. during startup), delivered to the first listener.
+const missedErrors: Error[] = [];
+let backend: StorageBackend | null = null;
+let channel: BroadcastChannel | null = null;
+
+const isStoredRecord = (value: unknown): value is StoredRecord =>
+  !!value && typeof value === 'object' && typeof (value as StoredRecord).version === 'number' && 'data' in (value as object);
+
+const reportError = (error: Error) => {
+  if (errorListeners.size === 0) {
+    console.error("Storage Error:", error);
+    missedErrors.push(error);
+    return;
+  }
+  errorListeners.forEach(listener => listener(error));
+};
+
+const readLegacy = (definition: StoreDefinition<unknown>): unknown => {
+  if (!definition.legacyKey) return undefined;
+  const raw = localStorage.getItem(definition.legacyKey);
+  if (raw === null) return undefined;
+  return definition.legacyIsString ? raw : JSON.parse(raw);
+};
+
+/**
+ * Creates a typed store. Reads are synchronous from an in-memory copy that
+ * `connectStorage` hydrates at startup; writes update that copy immediately and
+ * are persisted in order, coalescing bursts into a single write.
+ */
+export function createStore<T>(definition: StoreDefinition<T>): Store<T> {
+  let value = definition.defaultValue;
+  // Cleared when the stored record is from a newer app version, so it is never overwritten.
+  let writable = true;
+  let writeQueued = false;
+  let queue: Promise<void> = Promise.resolve();
+  const listeners = new Set<(value: T) => void>();
+
+  const notify = () => listeners.forEach(listener => listener(value));
+
+  const upgrade = (version: number, data: unknown): T => {
+    if (version > definition.version) {
+      writable = false;
+      throw new Error(`Saved ${definition.name} data is from a newer version of the app. Changes will not be saved until you update.`);
+    }
+    let upgraded = data;
+    for (let v = version; v < definition.version; v++) {
+      const migrate = definition.migrations?.[v];
+      if (migrate) upgraded = migrate(upgraded);
+    }
+    return definition.validate(upgraded);
+  };
+
+  const toRecord = (): StoredRecord => ({ version: definition.version, updatedAt: Date.now(), data: value });
+
+  const persist = () => {
+    if (!backend || !writable || writeQueued) return;
+    const target = backend;
+    writeQueued = true;
+    queue = queue.then(async () => {
+      // Cleared before writing so a change made mid-write queues another one.
+      writeQueued = false;
+      try {
+        await target.write(definition.name, toRecord());
+        channel?.postMessage(definition.name);
+      } catch (error: any) {
+        reportError(error);
+      }
+    });
+  };
+
+  const hydrate = async (from: StorageBackend) => {
+    try {
+      const stored = await from.read(definition.name);
+      if (isStoredRecord(stored)) {
+        value = upgrade(stored.version, stored.data);
+        if (stored.version < definition.version) await from.write(definition.name, toRecord());
+      } else {
+        const legacy = readLegacy(definition);
+        if (legacy !== undefined) {
+          value = upgrade(0, legacy);
+          await from.write(definition.name, toRecord());
+          localStorage.removeItem(definition.legacyKey!);
+        }
+      }
+    } catch (error: any) {
+      console.error("Storage Error:", error);
+      reportError(writable ? new Error(`Some saved ${definition.name} data could not be read; defaults are in use until it is saved again.`) : error);
+    }
+  };
+
+  const reload = async () => {
+    if (!backend) return;
+    try {
+      const stored = await backend.read(definition.name);
+      if (!isStoredRecord(stored)) return;
+      value = upgrade(stored.version, stored.data);
+      notify();
+    } catch (error: any) {
+      reportError(error);
+    }
+  };
+
+  const set = (next: T) => {
+    value = next;
+    notify();
+    persist();
+  };
+
+  registry.push({ name: definition.name, hydrate, reload });
+
+  return {
+    name: definition.name,
+    get: () => value,
+    set,
+    update: fn => set(fn(value)),
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+}
+
+/** Loads every store from the backend and starts listening for changes from other tabs. */
+export async function connectStorage(target: StorageBackend): Promise<void> {
+  for (const store of registry) {
+    await store.hydrate(target);
+  }
+  backend = target;
+  if (typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (event: MessageEvent<string>) => {
+      registry.find(store => store.name === event.data)?.reload();
+    };
+  }
+}
+
+export function getStorageKind(): StorageBackend['kind'] | null {
+  return backend?.kind ?? null;
+}
+
+/** Subscribes to persistence failures (quota, unreadable data). Returns an unsubscribe function. */
+export function onStorageError(listener: (error: Error) => void): () => void {
+  errorListeners.add(listener);
+  missedErrors.splice(0).forEach(listener);
+  return () => { errorListeners.delete(listener); };
+}
@@ -0,0 +1,59 @@
+import { SavedScript, StyleProfile } from "../types";
+import { getSections, speechText } from "./scriptSections";
+import { gotReply } from "./analytics";
+
+// What the model extracts from the exemplars; sentence length is measured locally.
+export type LearnedStyle = Pick<StyleProfile, 'opener' | 'slang' | 'signOff' | 'ctaPhrasing'>;
+
+export const MAX_EXEMPLARS = 8;
+
+export const getExemplars = (scripts: SavedScript[]) => scripts.filter(s => s.exemplar);
+
+/**
+ * Scripts to learn from by default: the starred exemplars, or the ones that
+ * got a reply when nothing is starred yet.
+ */
+export function defaultExemplarIds(scripts: SavedScript[]): string[] {
+  const starred = getExemplars(scripts);
+  const picks = starred.length > 0 ? starred : scripts.filter(gotReply);
+  return picks.slice(0, MAX_EXEMPLARS).map(s => s.id);
+}
+
+export const exemplarText = (script: SavedScript) => speechText(getSections(script));
+
+/** Average words per sentence across the scripts, rounded to a whole word. */
+export function averageSentenceLength(scripts: SavedScript[]): number {
+  const sentences = scripts
+    .flatMap(s => exemplarText(s).split(/[.!?]+/))
+    .map(sentence => sentence.trim().split(/\s+/).filter(Boolean).length)
+    .filter(words => words > 0);
+  if (sentences.length === 0) return 0;
+  return Math.round(sentences.reduce((sum, words) => sum + words, 0) / sentences.length);
+}
+
+export function buildStyleProfile(name: string, exemplars: SavedScript[], learned: LearnedStyle, existing?: StyleProfile): StyleProfile {
+  const now = Date.now();
+  return {
+    id: existing?.id || now.toString(),
+    name,
+    exemplarIds: exemplars.map(s => s.id),
+    ...learned,
+    sentenceLength: averageSentenceLength(exemplars),
+    notes: existing?.notes || '',
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  };
+}
+
+/** The STYLE PROFILE block injected into generation prompts. Empty fields are left out. */
+export function formatStyleProfile(profile: StyleProfile): string {
+  const lines = [
+    profile.opener && `- Typical opener: ${profile.opener}`,
+    profile.sentenceLength > 0 && `- Sentence length: about ${profile.sentenceLength} words per sentence`,
+    profile.slang.length > 0 && `- Slang and pet phrases: ${profile.slang.join(', ')}`,
+    profile.ctaPhrasing && `- CTA phrasing: ${profile.ctaPhrasing}`,
+    profile.signOff && `- Sign-off: ${profile.signOff}`,
+    profile.notes.trim() && `- Notes: ${profile.notes.trim()}`,
+  ].filter(Boolean);
+  return lines.length > 0 ? `\nSTYLE PROFILE "${profile.name}" (Write the way this person writes):\n${lines.join('\n')}` : '';
+}
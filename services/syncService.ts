@@ -0,0 +1,382 @@
+import { CustomTemplate, OutreachGoal, SavedScript, StageChange, SyncRecord, ThreadMessage, SyncRecordKind, SyncSettings, SyncState, SyncedVersion } from "../types";
+import { EMPTY_SYNC_STATE, goalStore, isObject, libraryStore, syncSettingsStore, syncStateStore, templateStore } from "./storage";
+import { deleteStoredAudio } from "./audioStore";
+import { getStageChangedAt } from "./pipeline";
+import { MAX_REVISIONS, getScriptRevisions, getTemplateRevisions, scriptUpdatedAt, templateUpdatedAt } from "./versioning";
+import { validateGoal, validateScript, validateTemplate } from "./workspaceBundle";
+
+const SYNC_INTERVAL_MS = 30_000;
+// Local edits are pushed after this much quiet, so typing does not send a request per keystroke.
+const PUSH_DEBOUNCE_MS = 2_000;
+const PUSH_BATCH_SIZE = 200;
+const MAX_PUSH_ROUNDS = 3;
+const DELETED_HASH = 'deleted';
+
+type SyncData = SavedScript | CustomTemplate | OutreachGoal;
+
+export interface PendingChange {
+  kind: SyncRecordKind;
+  id: string;
+  data: SyncData | null;
+  // Revision this change was made against; 0 for records the server has never seen.
+  baseRev: number;
+  updatedAt: number;
+}
+
+interface PushResponse {
+  seq: number;
+  applied: SyncRecord[];
+  conflicts: SyncRecord[];
+}
+
+interface PullResponse {
+  seq: number;
+  records: SyncRecord[];
+}
+
+interface LocalItem {
+  kind: SyncRecordKind;
+  id: string;
+  data: SyncData;
+}
+
+// The same checks a workspace import runs, per record kind.
+const DATA_VALIDATORS: Record<SyncRecordKind, (raw: unknown) => SyncData | null> = {
+  script: validateScript,
+  template: validateTemplate,
+  goal: validateGoal,
+};
+
+const recordKey = (kind: SyncRecordKind, id: string) => `${kind}:${id}`;
+
+const parseKey = (key: string): { kind: SyncRecordKind; id: string } => {
+  const split = key.indexOf(':');
+  return { kind: key.slice(0, split) as SyncRecordKind, id: key.slice(split + 1) };
+};
+
+// Whether audio is cached is specific to this browser, so it is never synced.
+const toSyncData = (kind: SyncRecordKind, item: SyncData): SyncData => {
+  if (kind !== 'script') return item;
+  const { hasAudio, ...rest } = item as SavedScript;
+  return rest;
+};
+
+const hashOf = (data: SyncData | null) => (data ? JSON.stringify(data) : DELETED_HASH);
+
+const updatedAtOf = (kind: SyncRecordKind, data: SyncData) => {
+  if (kind === 'script') return scriptUpdatedAt(data as SavedScript);
+  if (kind === 'template') return templateUpdatedAt(data as CustomTemplate);
+  return (data as OutreachGoal).updatedAt;
+};
+
+export const isSyncConfigured = (settings: SyncSettings) =>
+  settings.enabled && !!settings.serverUrl.trim() && !!settings.workspaceId.trim() && !!settings.userName.trim();
+
+const localItems = (): Map<string, LocalItem> => {
+  const items = new Map<string, LocalItem>();
+  libraryStore.get().forEach(s => items.set(recordKey('script', s.id), { kind: 'script', id: s.id, data: toSyncData('script', s) }));
+  templateStore.get().forEach(t => items.set(recordKey('template', t.id), { kind: 'template', id: t.id, data: t }));
+  goalStore.get().forEach(g => items.set(recordKey('goal', g.id), { kind: 'goal', id: g.id, data: g }));
+  return items;
+};
+
+/**
+ * Local changes the server has not accepted yet. Derived by comparing the
+ * stores with what was last synced, so edits made offline are picked up
+ * whenever the next sync runs.
+ */
+export function getPendingChanges(): PendingChange[] {
+  const { synced } = syncStateStore.get();
+  const local = localItems();
+  const changes: PendingChange[] = [];
+  local.forEach((item, key) => {
+    const known = synced[key];
+    if (known && known.hash === hashOf(item.data)) return;
+    changes.push({ kind: item.kind, id: item.id, data: item.data, baseRev: known?.rev ?? 0, updatedAt: updatedAtOf(item.kind, item.data) });
+  });
+  Object.entries(synced).forEach(([key, known]) => {
+    if (known.hash === DELETED_HASH || local.has(key)) return;
+    changes.push({ ...parseKey(key), data: null, baseRev: known.rev, updatedAt: Date.now() });
+  });
+  return changes;
+}
+
+/** Who last changed a record, as of the last sync. */
+export function getAttribution(state: SyncState, kind: SyncRecordKind, id: string): SyncedVersion | undefined {
+  return state.synced[recordKey(kind, id)];
+}
+
+const unionBy = <T>(a: T[], b: T[], key: (item: T) => string, time: (item: T) => number): T[] => {
+  const merged = new Map<string, T>();
+  [...a, ...b].forEach(item => merged.set(key(item), item));
+  return [...merged.values()].sort((x, y) => time(x) - time(y));
+};
+
+const latestRevisionAt = (script: SavedScript) => Math.max(...getScriptRevisions(script).map(r => r.createdAt));
+
+// Text comes from whichever side was edited last, the stage from whichever moved last and the
+// sequence from whichever updated it last; both histories are kept. Reply threads are joined
+// message by message, keeping the latest edit of each.
+const mergeScripts = (local: SavedScript, remote: SavedScript): SavedScript => {
+  const text = latestRevisionAt(local) > latestRevisionAt(remote) ? local : remote;
+  const stage = getStageChangedAt(local) > getStageChangedAt(remote) ? local : remote;
+  const stageHistory = unionBy<StageChange>(local.stageHistory || [], remote.stageHistory || [], c => `${c.changedAt}:${c.stage}`, c => c.changedAt);
+  const sequence = (local.sequence?.updatedAt || 0) > (remote.sequence?.updatedAt || 0) ? local.sequence : remote.sequence;
+  const byEdit = [...(local.thread || []), ...(remote.thread || [])].sort((a, b) => a.updatedAt - b.updatedAt);
+  const thread = unionBy<ThreadMessage>(byEdit, [], m => m.id, m => m.createdAt);
+  return {
+    ...text,
+    stage: stage.stage,
+    ...(stageHistory.length > 0 && { stageHistory }),
+    ...(sequence && { sequence }),
+    ...(thread.length > 0 && { thread }),
+    revisions: unionBy(getScriptRevisions(local), getScriptRevisions(remote), r => r.id, r => r.createdAt).slice(-MAX_REVISIONS),
+  };
+};
+
+const mergeTemplates = (local: CustomTemplate, remote: CustomTemplate): CustomTemplate => {
+  const text = templateUpdatedAt(local) > templateUpdatedAt(remote) ? local : remote;
+  return {
+    ...text,
+    revisions: unionBy(getTemplateRevisions(local), getTemplateRevisions(remote), r => r.id, r => r.createdAt).slice(-MAX_REVISIONS),
+  };
+};
+
+/**
+ * Combines a local copy with the server's when both changed since the last
+ * sync. A remote edit beats a local delete; a local edit beats a remote
+ * delete only if it is newer. Goals keep no history, so the newer copy wins.
+ */
+export function resolveConflict(kind: SyncRecordKind, local: SyncData | null, remote: SyncRecord): SyncData | null {
+  if (!local) return remote.data;
+  if (!remote.data) return updatedAtOf(kind, local) > remote.updatedAt ? local : null;
+  if (kind === 'script') return mergeScripts(local as SavedScript, remote.data as SavedScript);
+  if (kind === 'template') return mergeTemplates(local as CustomTemplate, remote.data as CustomTemplate);
+  return updatedAtOf(kind, local) > remote.updatedAt ? local : remote.data;
+}
+
+const keepCachedAudio = (incoming: SavedScript, existing: SavedScript | undefined): SavedScript => {
+  if (!existing?.hasAudio) return incoming;
+  if (existing.content === incoming.content) return { ...incoming, hasAudio: true };
+  deleteStoredAudio(existing.id).catch(error => console.error("Audio cache delete failed:", error));
+  return incoming;
+};
+
+const mergeIntoList = <T extends SyncData>(list: T[], updates: Map<string, T | null>, adapt: (incoming: T, existing?: T) => T): T[] => {
+  const pending = new Map(updates);
+  const next = list.flatMap(item => {
+    if (!pending.has(item.id)) return [item];
+    const incoming = pending.get(item.id);
+    pending.delete(item.id);
+    return incoming ? [adapt(incoming, item)] : [];
+  });
+  pending.forEach(incoming => { if (incoming) next.push(adapt(incoming)); });
+  return next;
+};
+
+/** Writes server-side versions into the local stores in one update per store. */
+const applyToLocal = (records: { kind: SyncRecordKind; id: string; data: SyncData | null }[]) => {
+  const scripts = new Map<string, SavedScript | null>();
+  const templates = new Map<string, CustomTemplate | null>();
+  const goals = new Map<string, OutreachGoal | null>();
+  records.forEach(r => {
+    if (r.kind === 'script') scripts.set(r.id, r.data as SavedScript | null);
+    else if (r.kind === 'template') templates.set(r.id, r.data as CustomTemplate | null);
+    else goals.set(r.id, r.data as OutreachGoal | null);
+  });
+  if (scripts.size > 0) {
+    scripts.forEach((data, id) => {
+      if (!data) deleteStoredAudio(id).catch(error => console.error("Audio cache delete failed:", error));
+    });
+    libraryStore.update(list => mergeIntoList(list, scripts, keepCachedAudio).sort((a, b) => b.createdAt - a.createdAt));
+  }
+  if (templates.size > 0) {
+    templateStore.update(list => mergeIntoList(list, templates, incoming => incoming));
+  }
+  if (goals.size > 0) {
+    goalStore.update(list => mergeIntoList(list, goals, incoming => incoming));
+  }
+};
+
+const updateState = (patch: Partial<SyncState>) => syncStateStore.update(state => ({ ...state, ...patch }));
+
+const markSynced = (records: SyncRecord[]) => {
+  if (records.length === 0) return;
+  syncStateStore.update(state => {
+    const synced = { ...state.synced };
+    records.forEach(r => {
+      synced[recordKey(r.kind, r.id)] = { rev: r.rev, hash: hashOf(r.data), updatedAt: r.updatedAt, updatedBy: r.updatedBy };
+    });
+    return { ...state, synced };
+  });
+};
+
+const isRecordKind = (value: unknown): value is SyncRecordKind => typeof value === 'string' && value in DATA_VALIDATORS;
+
+/**
+ * Server records that are safe to write into the local stores. Anything
+ * malformed, including data whose id does not match the record, is dropped
+ * and counted.
+ */
+const validRecords = (raw: unknown): { records: SyncRecord[]; skipped: number } => {
+  const list: unknown[] = Array.isArray(raw) ? raw : [];
+  const records = list.flatMap((item): SyncRecord[] => {
+    if (!isObject(item) || !isRecordKind(item.kind) || typeof item.id !== 'string' || !item.id || typeof item.rev !== 'number') return [];
+    const data = item.data === null ? null : DATA_VALIDATORS[item.kind](item.data);
+    if (item.data !== null && (!data || data.id !== item.id)) return [];
+    return [{
+      kind: item.kind,
+      id: item.id,
+      data,
+      rev: item.rev,
+      updatedAt: typeof item.updatedAt === 'number' ? item.updatedAt : 0,
+      updatedBy: typeof item.updatedBy === 'string' ? item.updatedBy : 'Unknown',
+    }];
+  });
+  return { records, skipped: list.length - records.length };
+};
+
+/** Merges each conflicting record; merged results that differ from the server are pushed on the next round. */
+const resolveConflicts = (conflicts: SyncRecord[]) => {
+  if (conflicts.length === 0) return;
+  const local = localItems();
+  const resolved = conflicts.map(remote => ({
+    kind: remote.kind,
+    id: remote.id,
+    data: resolveConflict(remote.kind, local.get(recordKey(remote.kind, remote.id))?.data ?? null, remote),
+  }));
+  markSynced(conflicts);
+  applyToLocal(resolved);
+};
+
+async function request<T>(settings: SyncSettings, method: 'GET' | 'POST', body?: unknown): Promise<T> {
+  const base = settings.serverUrl.trim().replace(/\/+$/, '');
+  const query = method === 'GET' ? `?since=${syncStateStore.get().lastSeq}` : '';
+  let response: Response;
+  try {
+    response = await fetch(`${base}/api/workspaces/${encodeURIComponent(settings.workspaceId.trim())}/changes${query}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(settings.token && { Authorization: `Bearer ${settings.token}` }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch {
+    throw new Error(`Could not reach the sync server at ${base}. Changes are kept and will sync when it is back.`);
+  }
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(payload.error || `Sync server returned ${response.status}.`);
+  return payload as T;
+}
+
+/** Returns how many malformed records the server sent back. */
+const pushPending = async (settings: SyncSettings): Promise<number> => {
+  let skipped = 0;
+  for (let round = 0; round < MAX_PUSH_ROUNDS; round++) {
+    const changes = getPendingChanges().slice(0, PUSH_BATCH_SIZE);
+    if (changes.length === 0) break;
+    const result = await request<PushResponse>(settings, 'POST', { user: settings.userName.trim(), changes });
+    const applied = validRecords(result.applied);
+    const conflicts = validRecords(result.conflicts);
+    markSynced(applied.records);
+    resolveConflicts(conflicts.records);
+    skipped += applied.skipped + conflicts.skipped;
+  }
+  return skipped;
+};
+
+/** Returns how many malformed records were skipped. */
+const pull = async (settings: SyncSettings): Promise<number> => {
+  const result = await request<PullResponse>(settings, 'GET');
+  const { records, skipped } = validRecords(result.records);
+  const { synced } = syncStateStore.get();
+  const local = localItems();
+  const accepted: SyncRecord[] = [];
+  const conflicts: SyncRecord[] = [];
+  records.forEach(remote => {
+    const key = recordKey(remote.kind, remote.id);
+    const known = synced[key];
+    // Includes our own pushes, which are already recorded.
+    if (known && known.rev >= remote.rev) return;
+    const item = local.get(key);
+    const localHash = item ? hashOf(item.data) : DELETED_HASH;
+    const unchangedLocally = known ? localHash === known.hash : !item;
+    if (unchangedLocally || localHash === hashOf(remote.data)) accepted.push(remote);
+    else conflicts.push(remote);
+  });
+  markSynced(accepted);
+  applyToLocal(accepted);
+  resolveConflicts(conflicts);
+  updateState({ lastSeq: typeof result.seq === 'number' ? result.seq : syncStateStore.get().lastSeq });
+  return skipped;
+};
+
+const runSync = async () => {
+  const settings = syncSettingsStore.get();
+  if (!isSyncConfigured(settings)) return;
+  if (!navigator.onLine) {
+    updateState({ lastError: "Offline. Changes are kept and will sync when you reconnect." });
+    return;
+  }
+  try {
+    let skipped = await pushPending(settings);
+    skipped += await pull(settings);
+    // Conflicts merged during the pull still need to go up.
+    skipped += await pushPending(settings);
+    updateState({
+      lastSyncedAt: Date.now(),
+      lastError: skipped > 0 ? `Skipped ${skipped} malformed ${skipped === 1 ? 'record' : 'records'} from the sync server.` : null,
+    });
+  } catch (error: any) {
+    console.error("Sync Error:", error);
+    updateState({ lastError: error.message || "Sync failed." });
+  }
+};
+
+let running: Promise<void> | null = null;
+
+/** Pushes pending changes, then pulls the team's. Concurrent calls share one run. */
+export function syncNow(): Promise<void> {
+  if (!running) running = runSync().finally(() => { running = null; });
+  return running;
+}
+
+/**
+ * Saves sync settings. Pointing at a different server or workspace starts
+ * over, so everything local is offered to the new workspace on the next sync.
+ */
+export function saveSyncSettings(next: SyncSettings): void {
+  const current = syncSettingsStore.get();
+  if (current.serverUrl.trim() !== next.serverUrl.trim() || current.workspaceId.trim() !== next.workspaceId.trim()) {
+    syncStateStore.set(EMPTY_SYNC_STATE);
+  }
+  syncSettingsStore.set(next);
+}
+
+/** Starts background sync: on an interval, shortly after local edits, and on reconnect. Returns a stop function. */
+export function startSync(): () => void {
+  let pushTimer: ReturnType<typeof setTimeout> | undefined;
+  const schedulePush = () => {
+    // Store updates from applying remote changes leave nothing pending, so they do not re-trigger a sync.
+    if (!isSyncConfigured(syncSettingsStore.get()) || getPendingChanges().length === 0) return;
+    clearTimeout(pushTimer);
+    pushTimer = setTimeout(syncNow, PUSH_DEBOUNCE_MS);
+  };
+  const interval = setInterval(syncNow, SYNC_INTERVAL_MS);
+  const unsubscribers = [
+    libraryStore.subscribe(schedulePush),
+    templateStore.subscribe(schedulePush),
+    goalStore.subscribe(schedulePush),
+    syncSettingsStore.subscribe(() => { syncNow(); }),
+  ];
+  window.addEventListener('online', syncNow);
+  syncNow();
+
+  return () => {
+    clearTimeout(pushTimer);
+    clearInterval(interval);
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    window.removeEventListener('online', syncNow);
+  };
+}
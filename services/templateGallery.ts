@@ -0,0 +1,175 @@
+import { BuiltInGoal, CustomTemplate, GalleryTemplate, TemplateIndustry, VoiceNoteInput } from "../types";
+import { TEMPLATE_INDUSTRIES } from "../constants";
+
+/** Bundled starter templates. Placeholders follow services/templateVariables. */
+export const GALLERY_TEMPLATES: GalleryTemplate[] = [
+  {
+    id: 'fitness-permission',
+    name: 'Gym: Free Funnel Teardown',
+    description: 'Spots a leak in how the gym turns followers into trial members and offers the fix.',
+    industry: 'fitness',
+    platforms: ['Instagram', 'WhatsApp'],
+    goal: 'Permission to Send',
+    content: "Hey {{ownerName}}, quick one. I was checking out {{businessName}} and noticed {{gap}}. That's usually where trial sign-ups quietly drop off. I went ahead and put together {{value}} so you can see what it'd look like. {{cta}}",
+  },
+  {
+    id: 'fitness-call',
+    name: 'Studio: Retention Call',
+    description: 'Leads with a member-retention observation and asks for a short call.',
+    industry: 'fitness',
+    platforms: ['Instagram', 'LinkedIn'],
+    goal: 'Book a Call',
+    content: "{{ownerName}}, love what you're building at {{businessName}}. One thing stood out: {{gap}}. Most studios your size lose members right there. I mapped out {{value}}, and it's easier to walk through than to type. {{cta}}",
+  },
+  {
+    id: 'fitness-question',
+    name: 'Coach: Curious Question',
+    description: 'Low-pressure opener for online coaches, framed as a genuine question.',
+    industry: 'fitness',
+    platforms: ['Instagram'],
+    goal: 'Quick Question',
+    content: "Hey {{ownerName}}! Been following {{businessName}} for a bit. Genuine question though: is {{gap}} on purpose? I ask because I sketched {{value}} and I'm curious if it's useful. {{cta}}",
+  },
+  {
+    id: 'agency-permission',
+    name: 'Agency: Case Study Angle',
+    description: 'Peer-to-peer note for agencies, pointing at their own portfolio gap.',
+    industry: 'agency',
+    platforms: ['LinkedIn'],
+    goal: 'Permission to Send',
+    content: "Hi {{ownerName}}, I came across {{businessName}} while looking at {{platform}} agencies. Your work is sharp, but {{gap}}, which undersells it to bigger clients. I drafted {{value}} as an example. {{cta}}",
+  },
+  {
+    id: 'agency-call',
+    name: 'Agency: White-Label Partner',
+    description: 'Offers overflow capacity to an agency and books an intro call.',
+    industry: 'agency',
+    platforms: ['LinkedIn', 'WhatsApp'],
+    goal: 'Book a Call',
+    content: "{{ownerName}}, straight to it. I noticed {{gap}} at {{businessName}}, which usually means the team's at capacity. We help agencies like yours with exactly that, and I already put together {{value}}. {{cta}}",
+  },
+  {
+    id: 'agency-testimonial',
+    name: 'Agency: Feedback for Free Work',
+    description: 'Trades a free deliverable for honest feedback or a testimonial.',
+    industry: 'agency',
+    platforms: ['LinkedIn', 'Instagram'],
+    goal: 'Testimonial/Feedback',
+    content: "Hey {{ownerName}}, I'm building out my portfolio and {{businessName}} caught my eye because of {{gap}}. So I made {{value}}, no strings. If it's useful, all I'd ask is your honest take. {{cta}}",
+  },
+  {
+    id: 'ecommerce-permission',
+    name: 'Store: Checkout Leak',
+    description: 'Points at a conversion leak in the store and offers a mocked-up fix.',
+    industry: 'ecommerce',
+    platforms: ['Instagram', 'WhatsApp'],
+    goal: 'Permission to Send',
+    content: "Hi {{ownerName}}, I was browsing {{businessName}} and really liked the products. I did notice {{gap}}, which is usually costing a few sales every day. I mocked up {{value}} to show the difference. {{cta}}",
+  },
+  {
+    id: 'ecommerce-question',
+    name: 'Brand: Product Page Question',
+    description: 'Curious, specific question about a product page with a light offer.',
+    industry: 'ecommerce',
+    platforms: ['Instagram', 'LinkedIn'],
+    goal: 'Quick Question',
+    content: "Hey {{ownerName}}, quick question about {{businessName}}. Was {{gap}} a deliberate choice? I tested an alternative with {{value}} and the result surprised me. {{cta}}",
+  },
+  {
+    id: 'ecommerce-call',
+    name: 'Store: Growth Walkthrough',
+    description: 'For established stores: one clear opportunity and a call to walk through it.',
+    industry: 'ecommerce',
+    platforms: ['LinkedIn'],
+    goal: 'Book a Call',
+    content: "{{ownerName}}, congrats on the growth at {{businessName}}. From the outside, the biggest lever I see is {{gap}}. I put together {{value}} with the numbers behind it. {{cta}}",
+  },
+  {
+    id: 'local-permission',
+    name: 'Local Business: Google Presence',
+    description: 'Friendly local-business opener about reviews, maps or booking friction.',
+    industry: 'local_services',
+    platforms: ['WhatsApp', 'Instagram'],
+    goal: 'Permission to Send',
+    content: "Hi {{ownerName}}, I'm local and came across {{businessName}} the other day. Noticed {{gap}}, which means people nearby are probably picking someone else. I already put together {{value}} for you. {{cta}}",
+  },
+  {
+    id: 'local-testimonial',
+    name: 'Local Business: Free Fix for a Review',
+    description: 'Offers a small done-for-you fix in exchange for a review or feedback.',
+    industry: 'local_services',
+    platforms: ['WhatsApp'],
+    goal: 'Testimonial/Feedback',
+    content: "Hey {{ownerName}}! Big fan of {{businessName}}. I help local businesses with their online setup and noticed {{gap}}. I did {{value}} for free. If you like it, a quick review of what I did would mean a lot. {{cta}}",
+  },
+  {
+    id: 'local-call',
+    name: 'Local Business: Bookings Call',
+    description: 'Ties the gap to missed bookings and asks for ten minutes.',
+    industry: 'local_services',
+    platforms: ['WhatsApp', 'LinkedIn'],
+    goal: 'Book a Call',
+    content: "{{ownerName}}, I'll keep this short. {{businessName}} has great word of mouth, but {{gap}} is likely costing you bookings every week. I've drafted {{value}}. {{cta}}",
+  },
+];
+
+export const getIndustryLabel = (id: TemplateIndustry) => TEMPLATE_INDUSTRIES.find(i => i.id === id)?.label || id;
+
+export interface GalleryFilters {
+  query: string;
+  industry: TemplateIndustry | 'all';
+  platform: VoiceNoteInput['platform'] | 'all';
+  goal: BuiltInGoal | 'all';
+}
+
+export function searchGallery(filters: GalleryFilters, templates: GalleryTemplate[] = GALLERY_TEMPLATES): GalleryTemplate[] {
+  const terms = filters.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return templates.filter(t => {
+    if (filters.industry !== 'all' && t.industry !== filters.industry) return false;
+    if (filters.platform !== 'all' && !t.platforms.includes(filters.platform)) return false;
+    if (filters.goal !== 'all' && t.goal !== filters.goal) return false;
+    const haystack = `${t.name} ${t.description} ${t.content} ${getIndustryLabel(t.industry)} ${t.goal}`.toLowerCase();
+    return terms.every(term => haystack.includes(term));
+  });
+}
+
+const countKeywordHits = (text: string, keywords: string[]) =>
+  keywords.filter(k => new RegExp(`\\b${k.replace(/[-/\\^$*+?.()|[\]{}]/g, '\\$&')}\\b`, 'i').test(text)).length;
+
+/** Industry that best matches the lead's business, gap and value, or null when nothing matches. */
+export function detectIndustry(input: Pick<VoiceNoteInput, 'businessName' | 'identifiedGap' | 'freeValue'>): TemplateIndustry | null {
+  const text = `${input.businessName} ${input.identifiedGap} ${input.freeValue}`;
+  let best: { id: TemplateIndustry; hits: number } | null = null;
+  for (const industry of TEMPLATE_INDUSTRIES) {
+    const hits = countKeywordHits(text, industry.keywords);
+    if (hits > 0 && (!best || hits > best.hits)) best = { id: industry.id, hits };
+  }
+  return best?.id ?? null;
+}
+
+/**
+ * Ranks gallery templates for a lead: industry match counts most, then goal,
+ * then platform. Returns nothing until the business or gap is filled in.
+ */
+export function suggestTemplates(input: VoiceNoteInput, limit: number = 3): GalleryTemplate[] {
+  if (!input.businessName.trim() && !input.identifiedGap.trim()) return [];
+  const industry = detectIndustry(input);
+  return GALLERY_TEMPLATES
+    .map(t => ({
+      template: t,
+      score: (industry && t.industry === industry ? 4 : 0) + (t.goal === input.goal ? 2 : 0) + (t.platforms.includes(input.platform) ? 1 : 0),
+    }))
+    .filter(s => s.score >= 3)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(s => s.template);
+}
+
+export function cloneGalleryTemplate(template: GalleryTemplate): CustomTemplate {
+  return {
+    id: Date.now().toString(),
+    name: template.name,
+    content: template.content,
+    galleryId: template.id,
+  };
+}
@@ -0,0 +1,216 @@
+import { ScriptSection, VoiceNoteInput } from "../types";
+import { TEMPLATE_PLACEHOLDERS } from "../constants";
+import { speechText } from "./scriptSections";
+
+export type TemplateVariableType = 'text' | 'number' | 'url';
+
+export interface TemplatePlaceholder {
+  name: string;
+  label: string;
+  type: TemplateVariableType;
+  builtIn: boolean;
+  // Written as {{name?}}: not required in the generated script.
+  optional: boolean;
+}
+
+export interface TemplateIssue {
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ParsedTemplate {
+  placeholders: TemplatePlaceholder[];
+  issues: TemplateIssue[];
+}
+
+export interface SlotCheck {
+  name: string;
+  label: string;
+  present: boolean;
+}
+
+const VARIABLE_TYPES: TemplateVariableType[] = ['text', 'number', 'url'];
+const TOKEN_PATTERN = /\{\{([^{}]*)\}\}/g;
+const INNER_PATTERN = /^([A-Za-z][A-Za-z0-9_]*)(?::([A-Za-z]+))?(\?)?$/;
+const LEGACY_PATTERN = /\[(ownerName|businessName|identifiedGap|freeValue)\]/g;
+
+const STOP_WORDS = new Set(['that', 'this', 'with', 'your', 'their', 'they', 'have', 'from', 'into', 'about', 'just', 'some', 'more', 'than', 'them', 'what', 'when', 'were', 'will', 'would', 'could', 'should', 'been', 'also', 'only', 'very']);
+
+const findBuiltIn = (name: string) => TEMPLATE_PLACEHOLDERS.find(p => p.name === name || p.aliases.includes(name));
+
+/** "competitorName" -> "Competitor Name" */
+export const labelFor = (name: string) =>
+  name.replace(/_/g, ' ').replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/^./, c => c.toUpperCase());
+
+const context = (content: string, index: number) => content.slice(index, index + 24).replace(/\s+/g, ' ');
+
+/**
+ * Parses {{name}}, {{name:type}} and {{name?}} placeholders. Built-in names
+ * map to form fields; anything else is a custom variable that adds a field to
+ * the generator form.
+ */
+export function parseTemplate(content: string): ParsedTemplate {
+  const placeholders = new Map<string, TemplatePlaceholder>();
+  const issues: TemplateIssue[] = [];
+  const error = (message: string) => issues.push({ severity: 'error', message });
+  const warn = (message: string) => issues.push({ severity: 'warning', message });
+
+  for (const match of content.matchAll(TOKEN_PATTERN)) {
+    const inner = match[1].trim();
+    if (!inner) {
+      error("Empty placeholder {{}}.");
+      continue;
+    }
+    const parts = inner.match(INNER_PATTERN);
+    if (!parts) {
+      error(`"{{${inner}}}" is not a valid placeholder. Names start with a letter and use letters, numbers or "_".`);
+      continue;
+    }
+    const [, rawName, rawType, optionalMark] = parts;
+    const builtIn = findBuiltIn(rawName);
+    const caseMatch = !builtIn && TEMPLATE_PLACEHOLDERS.find(p => p.name.toLowerCase() === rawName.toLowerCase());
+    if (caseMatch) {
+      error(`Unknown placeholder {{${rawName}}}. Did you mean {{${caseMatch.name}}}?`);
+      continue;
+    }
+
+    let type: TemplateVariableType = 'text';
+    if (rawType) {
+      if (builtIn) warn(`{{${rawName}}} is built in; the ":${rawType}" type is ignored.`);
+      else if (!VARIABLE_TYPES.includes(rawType as TemplateVariableType)) {
+        error(`Unknown type "${rawType}" in {{${inner}}}. Use ${VARIABLE_TYPES.join(', ')}.`);
+        continue;
+      } else type = rawType as TemplateVariableType;
+    }
+
+    const name = builtIn ? builtIn.name : rawName;
+    const existing = placeholders.get(name);
+    if (existing) {
+      if (!builtIn && rawType && existing.type !== type) error(`{{${name}}} is declared as both ${existing.type} and ${type}.`);
+      // Required anywhere means required.
+      if (!optionalMark) existing.optional = false;
+      continue;
+    }
+    placeholders.set(name, {
+      name,
+      label: builtIn ? builtIn.label : labelFor(name),
+      type: builtIn ? 'text' : type,
+      builtIn: !!builtIn,
+      optional: !!optionalMark,
+    });
+  }
+
+  const leftover = content.replace(TOKEN_PATTERN, '');
+  const unclosed = leftover.indexOf('{{');
+  if (unclosed !== -1) error(`Unclosed placeholder near "${context(leftover, unclosed)}".`);
+  else if (leftover.includes('}}')) error(`Stray "}}" near "${context(leftover, Math.max(0, leftover.indexOf('}}') - 12))}".`);
+
+  const legacy = [...new Set([...content.matchAll(LEGACY_PATTERN)].map(m => m[1]))];
+  if (legacy.length > 0) {
+    warn(`${legacy.map(n => `[${n}]`).join(', ')} ${legacy.length === 1 ? 'is' : 'are'} only a hint to the AI. Use ${legacy.map(n => `{{${findBuiltIn(n)!.name}}}`).join(', ')} to fill and check ${legacy.length === 1 ? 'it' : 'them'}.`);
+  }
+
+  return { placeholders: [...placeholders.values()], issues };
+}
+
+export const hasTemplateErrors = (content: string) => parseTemplate(content).issues.some(i => i.severity === 'error');
+
+/** Custom variables the form has to ask for. */
+export function getCustomVariables(content: string): TemplatePlaceholder[] {
+  return parseTemplate(content).placeholders.filter(p => !p.builtIn);
+}
+
+const placeholderValue = (placeholder: TemplatePlaceholder, input: VoiceNoteInput): string => {
+  const builtIn = findBuiltIn(placeholder.name);
+  if (builtIn?.field) return String(input[builtIn.field] ?? '').trim();
+  if (builtIn) return '';
+  return (input.variables?.[placeholder.name] || '').trim();
+};
+
+/** Custom variables that are required but have no value in `input`. */
+export function getMissingVariables(content: string, input: VoiceNoteInput): TemplatePlaceholder[] {
+  return getCustomVariables(content).filter(v => !v.optional && !placeholderValue(v, input));
+}
+
+// Lenient on purpose: "1,200", "4.5" and "example.com/pricing" are all fine.
+const isNumberValue = (value: string) => /^[-+]?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$/.test(value);
+
+const isUrlValue = (value: string) => {
+  if (/\s/.test(value)) return false;
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `https://${value}`);
+    return (url.protocol === 'http:' || url.protocol === 'https:') && url.hostname.includes('.');
+  } catch {
+    return false;
+  }
+};
+
+const TYPE_CHECKS: Record<Exclude<TemplateVariableType, 'text'>, { test: (value: string) => boolean; expected: string }> = {
+  number: { test: isNumberValue, expected: 'a number' },
+  url: { test: isUrlValue, expected: 'a web address' },
+};
+
+/** Typed custom variables whose value does not fit the type, e.g. {{price:number}} = "cheap". */
+export function getInvalidVariables(content: string, input: VoiceNoteInput): { placeholder: TemplatePlaceholder; expected: string }[] {
+  return getCustomVariables(content).flatMap(placeholder => {
+    if (placeholder.type === 'text') return [];
+    const value = placeholderValue(placeholder, input);
+    const check = TYPE_CHECKS[placeholder.type];
+    return value && !check.test(value) ? [{ placeholder, expected: check.expected }] : [];
+  });
+}
+
+/**
+ * Substitutes known values into the template. Slots the model has to write
+ * (like {{cta}}) and empty optional variables are left as bracketed
+ * instructions.
+ */
+export function fillTemplate(content: string, input: VoiceNoteInput): string {
+  return content.replace(TOKEN_PATTERN, (token, inner: string) => {
+    const parts = inner.trim().match(INNER_PATTERN);
+    if (!parts) return token;
+    const builtIn = findBuiltIn(parts[1]);
+    if (builtIn && !builtIn.field) return builtIn.name === 'cta' ? `[CTA: a clear ask for "${input.goal}"]` : token;
+    const placeholder: TemplatePlaceholder = { name: builtIn?.name || parts[1], label: builtIn?.label || labelFor(parts[1]), type: 'text', builtIn: !!builtIn, optional: !!parts[3] };
+    return placeholderValue(placeholder, input) || `[${placeholder.label}]`;
+  });
+}
+
+/** Slots the model must keep, with the value each has to carry. Empty when the template has none. */
+export function getRequiredSlots(content: string, input: VoiceNoteInput): { label: string; value: string }[] {
+  return parseTemplate(content).placeholders
+    .filter(p => !p.optional && (p.builtIn ? findBuiltIn(p.name)!.checked : true))
+    .map(p => ({ label: p.label, value: p.name === 'cta' ? `a clear ask for "${input.goal}"` : placeholderValue(p, input) }))
+    .filter(slot => slot.value);
+}
+
+const significantWords = (text: string) =>
+  (text.toLowerCase().match(/[a-z0-9][a-z0-9.']*/g) || []).filter(w => w.length > 3 && !STOP_WORDS.has(w));
+
+/**
+ * Whether `value` shows up in `text`, loosely: names match on any word, longer
+ * values need a share of their significant words, since the model paraphrases.
+ */
+export function mentions(text: string, value: string): boolean {
+  const haystack = text.toLowerCase();
+  const needle = value.trim().toLowerCase();
+  if (!needle || haystack.includes(needle)) return true;
+  const words = significantWords(needle);
+  if (words.length === 0) return new Set(haystack.match(/[a-z0-9']+/g) || []).has(needle.split(/\s+/)[0]);
+  const hits = words.filter(w => haystack.includes(w)).length;
+  return words.length <= 2 ? hits > 0 : hits / words.length >= 0.3;
+}
+
+/** Checks the generated sections against the template's required slots. */
+export function checkSlots(content: string, input: VoiceNoteInput, sections: ScriptSection[]): SlotCheck[] {
+  const text = speechText(sections);
+  return parseTemplate(content).placeholders
+    .filter(p => !p.optional && (p.builtIn ? findBuiltIn(p.name)!.checked : true))
+    .map(p => {
+      const value = placeholderValue(p, input);
+      const present = p.name === 'cta'
+        ? sections.some(s => s.role === 'cta' && s.text.trim().length > 0)
+        : mentions(text, value);
+      return { name: p.name, label: p.label, present };
+    });
+}
@@ -0,0 +1,159 @@
+import { CustomTemplate, RevisionSource, SavedScript, ScriptRevision, ScriptSection, TemplateRevision } from "../types";
+import { getSections, renderScript } from "./scriptSections";
+
+// Oldest revisions are dropped past this, to keep localStorage within quota.
+export const MAX_REVISIONS = 50;
+
+export type DiffPartType = 'same' | 'added' | 'removed';
+
+export interface DiffPart {
+  type: DiffPartType;
+  text: string;
+}
+
+const newRevisionId = () => `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Word-level diff (longest common subsequence over whitespace-separated
+ * tokens). Adjacent tokens of the same kind are merged into one part.
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPartType, word: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) last.text += ` ${word}`;
+    else parts.push({ type, text: word });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) { push('same', a[i]); i++; j++; }
+    else if (lcs[i + 1][j] >= lcs[i][j + 1]) push('removed', a[i++]);
+    else push('added', b[j++]);
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return parts;
+}
+
+/** Entries saved before versioning get a synthesized first revision from their current state. */
+export function getScriptRevisions(script: SavedScript): ScriptRevision[] {
+  if (script.revisions && script.revisions.length > 0) return script.revisions;
+  return [{
+    id: `${script.id}-initial`,
+    createdAt: script.createdAt,
+    source: 'created',
+    note: '',
+    content: script.content,
+    sections: getSections(script),
+    templateId: script.templateId,
+    templateName: script.templateName,
+  }];
+}
+
+/** When a script was last changed, by edit, stage change, sequence update or reply. */
+export function scriptUpdatedAt(script: SavedScript): number {
+  return Math.max(
+    script.createdAt,
+    ...getScriptRevisions(script).map(r => r.createdAt),
+    ...(script.stageHistory || []).map(c => c.changedAt),
+    script.sequence?.updatedAt || 0,
+    ...(script.thread || []).map(m => m.updatedAt)
+  );
+}
+
+/**
+ * Replaces a script's sections and records the new state as a revision.
+ * Cached audio no longer matches the text, so hasAudio is cleared.
+ */
+export function reviseScript(
+  script: SavedScript,
+  changes: { sections: ScriptSection[]; templateId?: string; templateName?: string },
+  source: RevisionSource,
+  note: string = ''
+): SavedScript {
+  const templateId = 'templateId' in changes ? changes.templateId : script.templateId;
+  const templateName = 'templateName' in changes ? changes.templateName : script.templateName;
+  const revision: ScriptRevision = {
+    id: newRevisionId(),
+    createdAt: Date.now(),
+    source,
+    note,
+    content: renderScript(changes.sections),
+    sections: changes.sections,
+    templateId,
+    templateName,
+  };
+  return {
+    ...script,
+    content: revision.content,
+    sections: revision.sections,
+    templateId,
+    templateName,
+    hasAudio: false,
+    revisions: [...getScriptRevisions(script), revision].slice(-MAX_REVISIONS),
+  };
+}
+
+export function restoreScriptRevision(script: SavedScript, revisionId: string): SavedScript {
+  const revisions = getScriptRevisions(script);
+  const index = revisions.findIndex(r => r.id === revisionId);
+  if (index === -1) return script;
+  const target = revisions[index];
+  return reviseScript(
+    script,
+    { sections: target.sections, templateId: target.templateId, templateName: target.templateName },
+    'restore',
+    `Restored version ${index + 1}`
+  );
+}
+
+export function getTemplateRevisions(template: CustomTemplate): TemplateRevision[] {
+  if (template.revisions && template.revisions.length > 0) return template.revisions;
+  return [{
+    id: `${template.id}-initial`,
+    // Template ids are creation timestamps.
+    createdAt: Number(template.id) || Date.now(),
+    source: 'created',
+    note: '',
+    name: template.name,
+    content: template.content,
+  }];
+}
+
+export function templateUpdatedAt(template: CustomTemplate): number {
+  return Math.max(...getTemplateRevisions(template).map(r => r.createdAt));
+}
+
+export function reviseTemplate(
+  template: CustomTemplate,
+  changes: { name: string; content: string },
+  source: RevisionSource,
+  note: string = ''
+): CustomTemplate {
+  if (changes.name === template.name && changes.content === template.content) return template;
+  const revision: TemplateRevision = { id: newRevisionId(), createdAt: Date.now(), source, note, ...changes };
+  return {
+    ...template,
+    ...changes,
+    revisions: [...getTemplateRevisions(template), revision].slice(-MAX_REVISIONS),
+  };
+}
+
+export function restoreTemplateRevision(template: CustomTemplate, revisionId: string): CustomTemplate {
+  const revisions = getTemplateRevisions(template);
+  const index = revisions.findIndex(r => r.id === revisionId);
+  if (index === -1) return template;
+  const { name, content } = revisions[index];
+  return reviseTemplate(template, { name, content }, 'restore', `Restored version ${index + 1}`);
+}
@@ -0,0 +1,410 @@
+import { AIProviderId, AISettings, CustomTemplate, OutreachGoal, SavedScript, StyleProfile, VoiceOption } from "../types";
+import { AI_SETTINGS_KEY, PROVIDER_DEFAULTS, loadAISettings, saveAISettings } from "./providers";
+import { StoredAudio, clearStoredAudio, deleteStoredAudio, listStoredAudio, putStoredAudio } from "./audioStore";
+import { migrateSavedScript } from "./scriptSections";
+import { scriptUpdatedAt, templateUpdatedAt } from "./versioning";
+import { activeReferenceStore, activeStyleProfileStore, activeTabStore, goalStore, isObject, isSavedScript, libraryStore, styleProfileStore, templateStore } from "./storage";
+
+export const BUNDLE_FORMAT = 'voice-note-workspace';
+export const BUNDLE_VERSION = 2;
+
+// localStorage keys from before the storage repository, as found in version 0 dumps.
+const LIBRARY_KEY = 'voice_note_library';
+const TEMPLATES_KEY = 'voice_note_templates';
+const ACTIVE_TAB_KEY = 'app_active_tab';
+const ACTIVE_REFERENCE_KEY = 'app_active_reference';
+
+export interface WorkspaceSettings {
+  activeTab: string | null;
+  activeReference: SavedScript | null;
+  activeStyleProfileId: string | null;
+  // apiKey is blank unless the export explicitly included it.
+  ai: AISettings | null;
+}
+
+export interface WorkspaceBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  scripts: SavedScript[];
+  templates: CustomTemplate[];
+  // Custom goals and overrides of built-in ones, as in goalStore.
+  goals: OutreachGoal[];
+  styleProfiles: StyleProfile[];
+  settings: WorkspaceSettings;
+  audio: StoredAudio[];
+}
+
+export interface ParsedBundle {
+  bundle: WorkspaceBundle;
+  sourceVersion: number;
+  warnings: string[];
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportSummary {
+  scriptsAdded: number;
+  scriptsUpdated: number;
+  scriptsSkipped: number;
+  templatesAdded: number;
+  templatesUpdated: number;
+  templatesSkipped: number;
+  goalsAdded: number;
+  goalsUpdated: number;
+  goalsSkipped: number;
+  styleProfilesAdded: number;
+  styleProfilesUpdated: number;
+  styleProfilesSkipped: number;
+  audio: number;
+}
+
+export interface ImportPlan {
+  mode: ImportMode;
+  scripts: SavedScript[];
+  templates: CustomTemplate[];
+  goals: OutreachGoal[];
+  styleProfiles: StyleProfile[];
+  audio: StoredAudio[];
+  // Scripts taken from the bundle (added or updated); the rest are untouched local entries.
+  importedScriptIds: string[];
+  settings: WorkspaceSettings | null;
+  summary: ImportSummary;
+}
+
+export async function exportWorkspace(options: { includeAudio: boolean; includeApiKey: boolean }): Promise<WorkspaceBundle> {
+  const ai = loadAISettings();
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    scripts: libraryStore.get(),
+    templates: templateStore.get(),
+    goals: goalStore.get(),
+    styleProfiles: styleProfileStore.get(),
+    settings: {
+      activeTab: activeTabStore.get(),
+      activeReference: activeReferenceStore.get(),
+      activeStyleProfileId: activeStyleProfileStore.get(),
+      ai: options.includeApiKey ? ai : { ...ai, apiKey: '' },
+    },
+    audio: options.includeAudio ? await listStoredAudio() : [],
+  };
+}
+
+export function bundleFilename(now: Date = new Date()): string {
+  return `voice-note-workspace-${now.toISOString().slice(0, 10)}.json`;
+}
+
+/** A stored value may be the JSON string copied straight out of localStorage or the parsed array. */
+const fromStorageValue = (value: unknown): unknown => {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+};
+
+// Each entry upgrades a bundle from the keyed version to the next one.
+const MIGRATIONS: Record<number, (raw: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 0: a raw dump of the app's localStorage keys, before bundles existed.
+  0: raw => ({
+    format: BUNDLE_FORMAT,
+    version: 1,
+    exportedAt: Date.now(),
+    scripts: fromStorageValue(raw[LIBRARY_KEY]) ?? [],
+    templates: fromStorageValue(raw[TEMPLATES_KEY]) ?? [],
+    settings: {
+      activeTab: typeof raw[ACTIVE_TAB_KEY] === 'string' ? raw[ACTIVE_TAB_KEY] : null,
+      activeReference: fromStorageValue(raw[ACTIVE_REFERENCE_KEY]) ?? null,
+      ai: fromStorageValue(raw[AI_SETTINGS_KEY]) ?? null,
+    },
+    audio: [],
+  }),
+  // Version 1: before custom goals and style profiles were part of the workspace.
+  1: raw => ({
+    ...raw,
+    version: 2,
+    goals: [],
+    styleProfiles: [],
+    settings: { ...(isObject(raw.settings) ? raw.settings : {}), activeStyleProfileId: null },
+  }),
+};
+
+const detectVersion = (raw: unknown): number => {
+  if (isObject(raw) && raw.format === BUNDLE_FORMAT && typeof raw.version === 'number') return raw.version;
+  if (isObject(raw) && (LIBRARY_KEY in raw || TEMPLATES_KEY in raw)) return 0;
+  throw new Error("This file is not a workspace export.");
+};
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+export const validateScript = (raw: unknown): SavedScript | null => {
+  if (!isSavedScript(raw) || !isNonEmptyString(raw.id)) return null;
+  return migrateSavedScript({
+    ...raw,
+    title: typeof raw.title === 'string' ? raw.title : `${raw.ownerName || ''} @ ${raw.businessName || ''}`,
+    ownerName: typeof raw.ownerName === 'string' ? raw.ownerName : '',
+    businessName: typeof raw.businessName === 'string' ? raw.businessName : '',
+    createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : Date.now(),
+  });
+};
+
+const isTemplate = (raw: unknown): raw is CustomTemplate =>
+  isObject(raw) && isNonEmptyString(raw.id) && typeof raw.name === 'string' && typeof raw.content === 'string';
+
+export const validateTemplate = (raw: unknown): CustomTemplate | null => (isTemplate(raw) ? raw : null);
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+export const validateGoal = (raw: unknown): OutreachGoal | null => {
+  if (!isObject(raw) || !isNonEmptyString(raw.id) || !isNonEmptyString(raw.name) || typeof raw.ctaInstructions !== 'string') return null;
+  const createdAt = typeof raw.createdAt === 'number' ? raw.createdAt : Date.now();
+  return {
+    id: raw.id,
+    name: raw.name,
+    ctaInstructions: raw.ctaInstructions,
+    examplePhrasings: isStringList(raw.examplePhrasings) ? raw.examplePhrasings : [],
+    targetSeconds: typeof raw.targetSeconds === 'number' ? raw.targetSeconds : 40,
+    createdAt,
+    updatedAt: typeof raw.updatedAt === 'number' ? raw.updatedAt : createdAt,
+  };
+};
+
+const validateStyleProfile = (raw: unknown): StyleProfile | null => {
+  if (!isObject(raw) || !isNonEmptyString(raw.id) || typeof raw.name !== 'string') return null;
+  const createdAt = typeof raw.createdAt === 'number' ? raw.createdAt : Date.now();
+  return {
+    id: raw.id,
+    name: raw.name,
+    exemplarIds: isStringList(raw.exemplarIds) ? raw.exemplarIds : [],
+    opener: typeof raw.opener === 'string' ? raw.opener : '',
+    sentenceLength: typeof raw.sentenceLength === 'number' ? raw.sentenceLength : 0,
+    slang: isStringList(raw.slang) ? raw.slang : [],
+    signOff: typeof raw.signOff === 'string' ? raw.signOff : '',
+    ctaPhrasing: typeof raw.ctaPhrasing === 'string' ? raw.ctaPhrasing : '',
+    notes: typeof raw.notes === 'string' ? raw.notes : '',
+    createdAt,
+    updatedAt: typeof raw.updatedAt === 'number' ? raw.updatedAt : createdAt,
+  };
+};
+
+const validateAudio = (raw: unknown): StoredAudio | null => {
+  if (!isObject(raw) || !isNonEmptyString(raw.scriptId) || !isNonEmptyString(raw.audio)) return null;
+  return {
+    scriptId: raw.scriptId,
+    audio: raw.audio,
+    voice: isNonEmptyString(raw.voice) ? (raw.voice as VoiceOption) : 'Zephyr',
+    tone: typeof raw.tone === 'string' ? raw.tone : 'Professional',
+    createdAt: typeof raw.createdAt === 'number' ? raw.createdAt : Date.now(),
+  };
+};
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+// Only settings for a known provider; missing or malformed fields fall back to that provider's defaults.
+const validateAISettings = (raw: unknown): AISettings | null => {
+  if (!isObject(raw) || typeof raw.provider !== 'string' || !(raw.provider in PROVIDER_DEFAULTS)) return null;
+  const provider = raw.provider as AIProviderId;
+  const defaults = PROVIDER_DEFAULTS[provider];
+  return {
+    provider,
+    textModel: isNonEmptyString(raw.textModel) ? raw.textModel : defaults.textModel,
+    ttsModel: isNonEmptyString(raw.ttsModel) ? raw.ttsModel : defaults.ttsModel,
+    baseUrl: isNonEmptyString(raw.baseUrl) && isHttpUrl(raw.baseUrl) ? raw.baseUrl : defaults.baseUrl,
+    apiKey: typeof raw.apiKey === 'string' ? raw.apiKey : '',
+  };
+};
+
+const validateList = <T>(value: unknown, label: string, validate: (raw: unknown) => T | null, warnings: string[]): T[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    warnings.push(`Ignored ${label}: expected a list.`);
+    return [];
+  }
+  const valid = value.map(validate).filter((item): item is T => item !== null);
+  if (valid.length < value.length) warnings.push(`Skipped ${value.length - valid.length} malformed ${label}.`);
+  return valid;
+};
+
+/**
+ * Parses and validates an exported file, upgrading older bundle versions.
+ * Malformed entries are dropped with a warning rather than failing the import.
+ */
+export function parseBundle(text: string): ParsedBundle {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  const sourceVersion = detectVersion(parsed);
+  if (sourceVersion > BUNDLE_VERSION) {
+    throw new Error(`This export is from a newer version of the app (bundle v${sourceVersion}). Please update before importing.`);
+  }
+  // detectVersion only accepts objects.
+  let raw = parsed as Record<string, unknown>;
+  for (let version = sourceVersion; version < BUNDLE_VERSION; version++) {
+    raw = MIGRATIONS[version](raw);
+  }
+
+  const warnings: string[] = [];
+  const settings = isObject(raw.settings) ? raw.settings : {};
+  const bundle: WorkspaceBundle = {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: typeof raw.exportedAt === 'number' ? raw.exportedAt : Date.now(),
+    scripts: validateList(raw.scripts, 'scripts', validateScript, warnings),
+    templates: validateList(raw.templates, 'templates', validateTemplate, warnings),
+    goals: validateList(raw.goals, 'goals', validateGoal, warnings),
+    styleProfiles: validateList(raw.styleProfiles, 'style profiles', validateStyleProfile, warnings),
+    settings: {
+      activeTab: typeof settings.activeTab === 'string' ? settings.activeTab : null,
+      activeReference: validateScript(settings.activeReference),
+      activeStyleProfileId: typeof settings.activeStyleProfileId === 'string' ? settings.activeStyleProfileId : null,
+      ai: validateAISettings(settings.ai),
+    },
+    audio: validateList(raw.audio, 'audio clips', validateAudio, warnings),
+  };
+  return { bundle, sourceVersion, warnings };
+}
+
+const normalizeText = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+const scriptContentKey = (s: SavedScript) => `${normalizeText(s.ownerName)}|${normalizeText(s.businessName)}|${normalizeText(s.content)}`;
+
+const styleProfileContentKey = (p: StyleProfile) =>
+  [p.name, p.opener, p.signOff, p.ctaPhrasing, p.notes, p.slang.join(',')].map(normalizeText).join('|');
+
+/**
+ * Merges incoming entries into existing ones. The same id means the same
+ * entry: the more recently changed copy wins. A different id with the same
+ * content is a duplicate and is skipped.
+ */
+const mergeById = <T extends { id: string }>(
+  existing: T[],
+  incoming: T[],
+  contentKey: (item: T) => string,
+  updatedAt: (item: T) => number
+): { merged: T[]; added: number; updated: number; skipped: number; imported: Set<string> } => {
+  const merged = [...existing];
+  const byId = new Map(existing.map((item, idx) => [item.id, idx]));
+  const contentKeys = new Set(existing.map(contentKey));
+  const imported = new Set<string>();
+  let added = 0;
+  let updated = 0;
+  let skipped = 0;
+
+  incoming.forEach(item => {
+    const idx = byId.get(item.id);
+    if (idx !== undefined) {
+      if (contentKey(merged[idx]) !== contentKey(item) && updatedAt(item) > updatedAt(merged[idx])) {
+        merged[idx] = item;
+        contentKeys.add(contentKey(item));
+        imported.add(item.id);
+        updated++;
+      } else {
+        skipped++;
+      }
+      return;
+    }
+    if (contentKeys.has(contentKey(item))) {
+      skipped++;
+      return;
+    }
+    byId.set(item.id, merged.length);
+    contentKeys.add(contentKey(item));
+    merged.push(item);
+    imported.add(item.id);
+    added++;
+  });
+
+  return { merged, added, updated, skipped, imported };
+};
+
+export function planImport(bundle: WorkspaceBundle, mode: ImportMode): ImportPlan {
+  // Replace starts from an empty workspace, which still dedupes the bundle against itself.
+  const currentScripts = mode === 'merge' ? libraryStore.get() : [];
+  const currentTemplates = mode === 'merge' ? templateStore.get() : [];
+  const currentGoals = mode === 'merge' ? goalStore.get() : [];
+  const currentStyleProfiles = mode === 'merge' ? styleProfileStore.get() : [];
+
+  const scripts = mergeById(currentScripts, bundle.scripts, scriptContentKey, scriptUpdatedAt);
+  const templates = mergeById(currentTemplates, bundle.templates, t => normalizeText(t.content), templateUpdatedAt);
+  // Goals are referred to by name, so the same name under another id is a duplicate.
+  const goals = mergeById(currentGoals, bundle.goals, g => normalizeText(g.name), g => g.updatedAt);
+  const styleProfiles = mergeById(currentStyleProfiles, bundle.styleProfiles, styleProfileContentKey, p => p.updatedAt);
+  const audio = bundle.audio.filter(a => scripts.imported.has(a.scriptId));
+
+  return {
+    mode,
+    // Newest first, matching how the library stores entries.
+    scripts: scripts.merged.sort((a, b) => b.createdAt - a.createdAt),
+    templates: templates.merged,
+    goals: goals.merged,
+    styleProfiles: styleProfiles.merged,
+    audio,
+    importedScriptIds: [...scripts.imported],
+    settings: mode === 'replace' ? bundle.settings : null,
+    summary: {
+      scriptsAdded: scripts.added,
+      scriptsUpdated: scripts.updated,
+      scriptsSkipped: scripts.skipped,
+      templatesAdded: templates.added,
+      templatesUpdated: templates.updated,
+      templatesSkipped: templates.skipped,
+      goalsAdded: goals.added,
+      goalsUpdated: goals.updated,
+      goalsSkipped: goals.skipped,
+      styleProfilesAdded: styleProfiles.added,
+      styleProfilesUpdated: styleProfiles.updated,
+      styleProfilesSkipped: styleProfiles.skipped,
+      audio: audio.length,
+    },
+  };
+}
+
+export async function applyImport(plan: ImportPlan): Promise<void> {
+  if (plan.mode === 'replace') await clearStoredAudio();
+  const audioIds = new Set(plan.audio.map(a => a.scriptId));
+  const imported = new Set(plan.importedScriptIds);
+  for (const record of plan.audio) {
+    await putStoredAudio(record);
+  }
+  // An updated entry's local take no longer matches its text.
+  for (const id of imported) {
+    if (!audioIds.has(id)) await deleteStoredAudio(id);
+  }
+
+  // hasAudio must reflect what is actually in the cache after the import.
+  const scripts = plan.scripts.map(s => (imported.has(s.id) ? { ...s, hasAudio: audioIds.has(s.id) } : s));
+
+  libraryStore.set(scripts);
+  templateStore.set(plan.templates);
+  goalStore.set(plan.goals);
+  styleProfileStore.set(plan.styleProfiles);
+
+  if (plan.settings) {
+    const { activeTab, activeReference, activeStyleProfileId, ai } = plan.settings;
+    if (activeTab) activeTabStore.set(activeTab);
+    activeReferenceStore.set(activeReference);
+    // The export may name a profile that was dropped as malformed.
+    activeStyleProfileStore.set(plan.styleProfiles.some(p => p.id === activeStyleProfileId) ? activeStyleProfileId : null);
+    if (ai) {
+      // Keep the local API key when the export left it out, but only for the same provider and
+      // host: a key must never be sent to a server other than the one it was entered for.
+      const local = loadAISettings();
+      const host = (url: string) => url.trim().replace(/\/+$/, '');
+      const sameEndpoint = ai.provider === local.provider && host(ai.baseUrl) === host(local.baseUrl);
+      saveAISettings({ ...ai, apiKey: ai.apiKey || (sameEndpoint ? local.apiKey : '') });
+    }
+  }
+}
@@ -3,19 +3,182 @@ export interface CustomTemplate {
   id: string;
   name: string;
   content: string;
+  // Every saved version, oldest first; the last entry matches name/content.
+  revisions?: TemplateRevision[];
+  // Set when cloned from the built-in gallery.
+  galleryId?: string;
+}
+
+export type TemplateIndustry = 'fitness' | 'agency' | 'ecommerce' | 'local_services';
+
+// A bundled starter template; cloned into a CustomTemplate before use.
+export interface GalleryTemplate {
+  id: string;
+  name: string;
+  description: string;
+  industry: TemplateIndustry;
+  platforms: VoiceNoteInput['platform'][];
+  goal: BuiltInGoal;
+  content: string;
+}
+
+// What produced a revision. 'template_change' is a script restructured around a different template.
+export type RevisionSource = 'created' | 'manual_edit' | 'regeneration' | 'template_change' | 'restore';
+
+export interface ScriptRevision {
+  id: string;
+  createdAt: number;
+  source: RevisionSource;
+  note: string;
+  content: string;
+  sections: ScriptSection[];
+  templateId?: string;
+  templateName?: string;
+}
+
+export interface TemplateRevision {
+  id: string;
+  createdAt: number;
+  source: RevisionSource;
+  note: string;
+  name: string;
+  content: string;
 }
 
 export interface SavedScript {
   id: string;
   title: string;
+  // Rendered script with timing markers; derived from sections when they exist.
   content: string;
+  // Missing on entries saved before structured output; see migrateSavedScript.
+  sections?: ScriptSection[];
   ownerName: string;
   businessName: string;
   createdAt: number;
+  // Voice settings the script was generated with. Missing on entries saved before audio caching.
+  voice?: VoiceOption;
+  tone?: VoiceNoteInput['tone'];
+  // Generation context, recorded for reply-rate analytics.
+  platform?: VoiceNoteInput['platform'];
+  goal?: VoiceNoteInput['goal'];
+  templateId?: string;
+  templateName?: string;
+  // Set once synthesized audio for this script is stored in IndexedDB (see services/audioStore).
+  hasAudio?: boolean;
+  // Label of the A/B variant this entry was saved from (e.g. "B" or "Merged A1+B2").
+  variantLabel?: string;
+  // Outreach lifecycle. Entries without a stage are treated as 'drafted'.
+  stage?: PipelineStage;
+  stageHistory?: StageChange[];
+  // Every saved version, oldest first. Missing on entries that were never edited; see getScriptRevisions.
+  revisions?: ScriptRevision[];
+  // Marked as an example of the user's best writing; style profiles are learned from these.
+  exemplar?: boolean;
+  // Language the script is written in. Missing means English.
+  language?: ScriptLanguage;
+  // Set on translations: the library entry this one was translated from.
+  translatedFrom?: string;
+  // Multi-touch follow-up cadence; see services/sequences.
+  sequence?: OutreachSequence;
+  // Replies from the lead and our answers, oldest first; see services/replies.
+  thread?: ThreadMessage[];
+}
+
+export type SequenceStepKind = 'voice_note' | 'follow_up' | 'bump' | 'breakup';
+
+export type SequenceChannel = 'voice_note' | 'text';
+
+export interface SequenceStep {
+  id: string;
+  kind: SequenceStepKind;
+  channel: SequenceChannel;
+  // Days after the sequence start; the voice note is day 0.
+  delayDays: number;
+  // Spoken script for voice notes, message text otherwise.
+  content: string;
+  sentAt?: number;
+  skipped?: boolean;
+}
+
+export interface OutreachSequence {
+  // Day 0. Due dates count from the start of this day.
+  startedAt: number;
+  steps: SequenceStep[];
+  updatedAt: number;
+}
+
+export type ReplyIntent = 'interested' | 'objection' | 'not_now' | 'unsubscribe';
+
+export interface ThreadMessage {
+  id: string;
+  // 'inbound' is the lead's reply, 'outbound' is our answer to it.
+  direction: 'inbound' | 'outbound';
+  channel: SequenceChannel;
+  // Reply text (or the transcript of a voice reply), or the drafted answer.
+  content: string;
+  // Inbound only: how the reply was classified, and why.
+  intent?: ReplyIntent;
+  intentReason?: string;
+  // Outbound only: the inbound message this answers.
+  inReplyTo?: string;
+  sentAt?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ReplyAnalysis {
+  // The reply as text; for voice replies, the transcript.
+  transcript: string;
+  intent: ReplyIntent;
+  reason: string;
+  response: string;
+}
+
+// A writing style learned from exemplar scripts. Every field stays editable after learning.
+export interface StyleProfile {
+  id: string;
+  name: string;
+  // Library scripts the profile was last learned from.
+  exemplarIds: string[];
+  opener: string;
+  // Average words per sentence across the exemplars.
+  sentenceLength: number;
+  slang: string[];
+  signOff: string;
+  ctaPhrasing: string;
+  // Free-form guidance added by the user.
+  notes: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type PipelineStage = 'drafted' | 'sent' | 'replied' | 'call_booked' | 'closed' | 'ghosted';
+
+export interface StageChange {
+  stage: PipelineStage;
+  changedAt: number;
+  note: string;
 }
 
 export type VoiceOption = 'Zephyr' | 'Puck' | 'Charon' | 'Kore' | 'Fenrir';
 
+export type ScriptLanguage = 'en' | 'es' | 'pt' | 'de';
+
+export type BuiltInGoal = 'Permission to Send' | 'Testimonial/Feedback' | 'Book a Call' | 'Quick Question';
+
+// What the CTA asks for. Built-ins can be customized; a stored goal with a built-in id overrides it.
+export interface OutreachGoal {
+  id: string;
+  name: string;
+  ctaInstructions: string;
+  examplePhrasings: string[];
+  // Preferred note length, kept inside the platform's range.
+  targetSeconds: number;
+  builtIn?: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
 export interface VoiceNoteInput {
   ownerName: string;
   businessName: string;
@@ -23,15 +186,185 @@ export interface VoiceNoteInput {
   freeValue: string;
   platform: 'LinkedIn' | 'Instagram' | 'WhatsApp';
   tone: 'Casual' | 'Professional' | 'Direct' | 'Warm';
-  goal: 'Permission to Send' | 'Testimonial/Feedback' | 'Book a Call' | 'Quick Question';
+  // A built-in goal or the name of a custom one; see services/goals.
+  goal: string;
   templateId?: string;
   referenceScriptId?: string;
   selectedVoice: VoiceOption;
+  // Language of the script and follow-up. Missing means English.
+  language?: ScriptLanguage;
+  // Values for the active template's custom {{variables}}, keyed by variable name.
+  variables?: Record<string, string>;
+}
+
+export type EmojiPolicy = 'none' | 'sparing' | 'allowed';
+
+// Per-platform output rules used in prompts and to validate generated scripts.
+export interface PlatformProfile {
+  minSeconds: number;
+  maxSeconds: number;
+  followUpMaxChars: number;
+  emoji: EmojiPolicy;
+  // Example greeting shown to the model, e.g. "Hi [Name]".
+  greeting: string;
+  // Openers that read wrong on this platform. Matched case-insensitively against the first words.
+  avoidGreetings: string[];
+  norms: string;
+}
+
+export type PlatformIssueCode = 'too_short' | 'too_long' | 'followup_too_long' | 'followup_emoji' | 'script_emoji' | 'greeting';
+
+export interface PlatformIssue {
+  code: PlatformIssueCode;
+  message: string;
+  // Duration issues need a rewrite; the rest are fixed in place.
+  needsRewrite: boolean;
+}
+
+export type ResearchField = 'ownerName' | 'businessName' | 'identifiedGap' | 'freeValue';
+
+// Fields extracted from a voice memo, with the transcript excerpt each one came from.
+export interface AudioResearch {
+  transcript: string;
+  fields: Partial<Pick<VoiceNoteInput, ResearchField>>;
+  // Only set for excerpts that were found in the transcript.
+  sources: Partial<Record<ResearchField, string>>;
+}
+
+export type ResearchSourceType = 'website' | 'instagram' | 'linkedin' | 'other';
+
+export interface GapCandidate {
+  gap: string;
+  // Quote from the source that shows the gap.
+  evidence: string;
+  // False when the quote could not be found in the source, so it may be paraphrased or invented.
+  verified: boolean;
+}
+
+// Extracted from pasted or uploaded lead material; reviewed before it fills the form.
+export interface LeadResearch {
+  ownerName: string;
+  businessName: string;
+  gaps: GapCandidate[];
+  valueIdeas: string[];
+}
+
+export type ScriptSectionRole = 'pattern_interrupt' | 'observation' | 'work_done' | 'cta';
+
+export interface ScriptSection {
+  role: ScriptSectionRole;
+  // Target window within the note, in seconds from the start.
+  startSeconds: number;
+  endSeconds: number;
+  text: string;
 }
 
 export interface VoiceNoteResult {
-  script: string;
+  // Ordered by startSeconds. Use renderScript() for the marked-up text form.
+  sections: ScriptSection[];
   followUp: string;
+  // Set when the script was written in another tone than the form's, e.g. a picked A/B variant.
+  tone?: VoiceNoteInput['tone'];
+}
+
+export type VariantSpread = 'none' | 'tones' | 'openers';
+
+export interface ScriptVariant extends VoiceNoteResult {
+  label: string;
+  tone: VoiceNoteInput['tone'];
+  opener: string;
+}
+
+export type CsvField = 'ownerName' | 'businessName' | 'identifiedGap' | 'freeValue' | 'platform' | 'tone' | 'goal' | 'language';
+
+// Maps each lead field to a CSV header (or null when the column is not present).
+export type CsvColumnMapping = Record<CsvField, string | null>;
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface BatchItem {
+  id: string;
+  // Line in the source CSV the row starts on.
+  rowIndex: number;
+  input: VoiceNoteInput;
+  status: BatchItemStatus;
+  attempts: number;
+  result?: VoiceNoteResult;
+  error?: string;
+  savedToLibrary?: boolean;
+}
+
+export type AIProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface AISettings {
+  provider: AIProviderId;
+  textModel: string;
+  ttsModel: string;
+  // Only used by the OpenAI-compatible provider (e.g. http://localhost:11434/v1).
+  baseUrl: string;
+  apiKey: string;
+}
+
+export interface SyncSettings {
+  enabled: boolean;
+  // Base URL of the self-hosted sync server, e.g. http://localhost:8787.
+  serverUrl: string;
+  workspaceId: string;
+  // Shown to teammates as the author of each change.
+  userName: string;
+  // Shared secret, only needed when the server was started with SYNC_TOKEN.
+  token: string;
+}
+
+export type SyncRecordKind = 'script' | 'template' | 'goal';
+
+// A record as held by the sync server. Deleted records are kept with `data: null`.
+export interface SyncRecord {
+  kind: SyncRecordKind;
+  id: string;
+  data: SavedScript | CustomTemplate | OutreachGoal | null;
+  // Workspace sequence number of the write that produced this version.
+  rev: number;
+  updatedAt: number;
+  updatedBy: string;
+}
+
+// What this browser last agreed with the server about one record.
+export interface SyncedVersion {
+  rev: number;
+  hash: string;
+  updatedAt: number;
+  updatedBy: string;
+}
+
+export interface SyncState {
+  // Highest workspace sequence number pulled so far.
+  lastSeq: number;
+  // Keyed by `${kind}:${id}`.
+  synced: Record<string, SyncedVersion>;
+  lastSyncedAt: number | null;
+  lastError: string | null;
+}
+
+export type SectionDeliveryStatus = 'delivered' | 'partial' | 'skipped' | 'ad_libbed';
+
+export interface SectionDelivery {
+  marker: string;
+  scriptText: string;
+  spokenText: string;
+  status: SectionDeliveryStatus;
+  note: string;
+}
+
+export interface DeliveryAnalysis {
+  transcript: string;
+  durationSeconds: number;
+  wordsPerMinute: number;
+  fillerWords: { word: string; count: number }[];
+  sections: SectionDelivery[];
+  // Spoken content that does not belong to any script section.
+  adLibs: string[];
+  summary: string;
 }
 
 export enum GenerationStatus {
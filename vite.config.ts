@@ -2,6 +2,19 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Extra origins the app may call, space-separated: a shared sync server or a remote
+// OpenAI-compatible endpoint, e.g. CONNECT_SRC="https://sync.example.com https://llm.example.com".
+const extraConnectSrc = (process.env.CONNECT_SRC || '').split(/\s+/).filter(Boolean);
+
+const connectSrc = [
+  "'self'",
+  'https://generativelanguage.googleapis.com',
+  'https://api.openai.com',
+  'http://localhost:*',
+  'http://127.0.0.1:*',
+  ...extraConnectSrc,
+].join(' ');
+
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react()],
@@ -11,7 +24,7 @@ export default defineConfig({
   },
   server: {
     headers: {
-      'Content-Security-Policy': "default-src 'self'; script-src 'self' 'unsafe-inline' https://cdn.tailwindcss.com; style-src 'self' 'unsafe-inline' https://fonts.googleapis.com; font-src 'self' https://fonts.gstatic.com; img-src 'self' data:; connect-src 'self' https://generativelanguage.googleapis.com;",
+      'Content-Security-Policy': `default-src 'self'; script-src 'self' 'unsafe-inline' https://cdn.tailwindcss.com; style-src 'self' 'unsafe-inline' https://fonts.googleapis.com; font-src 'self' https://fonts.gstatic.com; img-src 'self' data:; connect-src ${connectSrc};`,
     }
   },
   build: {